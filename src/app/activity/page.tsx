@@ -1,29 +1,279 @@
 "use client";
 
-import { useEffect, useState } from "react";
+import { useEffect, useMemo, useState } from "react";
 import Link from "next/link";
 import { auth } from "@/services/firebase";
 import { db } from "@/services/firebase";
 import {
-  collection, doc, getDoc, onSnapshot, orderBy, query, limit, Timestamp,
+  collection, doc, getDoc, getDocs, onSnapshot, orderBy, query, limit, startAfter, where, Timestamp,
+  type QueryConstraint, type QueryDocumentSnapshot, type DocumentData,
 } from "firebase/firestore";
+import { X } from "lucide-react";
 
 type RunRow = {
   id: string;
   createdAt?: Timestamp | null;
-  kind?: "llm" | "built_in" | "error";
+  kind?: "llm" | "built_in" | "mcp" | "error";
   toolId?: string | null;
-  status?: "ok" | "error";
+  status?: "ok" | "error" | "cancelled";
   latencyMs?: number | null;
   chatId?: string | null;
+  model?: string | null;
+  envelopeStatus?: string | null;
   note?: string | null;
+  error?: string | null;
+  summary?: string | null;
+  envelope?: string | null;
 };
 
+type Filters = {
+  toolId: string;
+  status: "" | "ok" | "error" | "cancelled";
+  from: string; // YYYY-MM-DD (local)
+  to: string;
+  chatId: string;
+};
+
+const EMPTY_FILTERS: Filters = { toolId: "", status: "", from: "", to: "", chatId: "" };
+
+const PAGE_SIZE = 50;
+
+const STATUS_LABELS: Record<NonNullable<RunRow["status"]>, string> = {
+  ok: "Success",
+  error: "Error",
+  cancelled: "Cancelled",
+};
+
+const TOOL_OPTIONS = [
+  { value: "search", label: "Search" },
+  { value: "email_finder", label: "Email finder" },
+  { value: "crm", label: "CRM" },
+  { value: "create_document", label: "Create document" },
+  { value: "update_document", label: "Update document" },
+];
+
+/** Firestore constraints for the current filters (newest first). */
+function buildConstraints(f: Filters): QueryConstraint[] {
+  const out: QueryConstraint[] = [];
+  if (f.toolId) out.push(where("toolId", "==", f.toolId));
+  if (f.status) out.push(where("status", "==", f.status));
+  if (f.chatId) out.push(where("chatId", "==", f.chatId));
+  if (f.from) out.push(where("createdAt", ">=", Timestamp.fromDate(new Date(`${f.from}T00:00:00`))));
+  if (f.to) {
+    const end = new Date(`${f.to}T00:00:00`);
+    end.setDate(end.getDate() + 1);
+    out.push(where("createdAt", "<", Timestamp.fromDate(end)));
+  }
+  out.push(orderBy("createdAt", "desc"));
+  return out;
+}
+
+function eventLabel(r: RunRow): string {
+  return r.kind === "built_in"
+    ? (r.toolId === "create_document"
+        ? "Created document"
+        : r.toolId === "update_document"
+        ? "Updated document"
+        : `Ran ${r.toolId ?? "built-in tool"}`)
+    : r.kind === "mcp"
+    ? (r.status === "cancelled" ? `Skipped ${r.toolId ?? "tool"}` : `Ran ${r.toolId ?? "tool"}`)
+    : r.kind === "llm"
+    ? (r.status === "cancelled" ? "Stopped reply" : "Assistant reply")
+    : r.kind === "error"
+    ? `Error${r.toolId ? ` in ${r.toolId}` : ""}`
+    : "Event";
+}
+
+const whenOf = (r: RunRow) =>
+  r.createdAt instanceof Timestamp ? r.createdAt.toDate().toLocaleString() : "—";
+
+/** Stored envelopes are clipped JSON strings; pretty-print when they still parse. */
+function prettyEnvelope(raw: string): string {
+  try {
+    return JSON.stringify(JSON.parse(raw), null, 2);
+  } catch {
+    return raw;
+  }
+}
+
+function RunDrawer({
+  run,
+  chatTitle,
+  onClose,
+}: {
+  run: RunRow;
+  chatTitle?: string;
+  onClose: () => void;
+}) {
+  const fields: Array<[string, string]> = [
+    ["When", whenOf(run)],
+    ["Kind", run.kind ?? "—"],
+    ["Tool", run.toolId ?? "—"],
+    ["Model", run.model ?? "—"],
+    ["Status", run.status ?? "ok"],
+    ["Envelope status", run.envelopeStatus ?? "—"],
+    ["Latency", run.latencyMs != null ? `${run.latencyMs} ms` : "—"],
+  ];
+
+  return (
+    <div className="fixed inset-0 z-50 flex justify-end">
+      <div className="absolute inset-0 bg-black/30" onClick={onClose} />
+      <aside className="relative h-full w-full max-w-xl bg-background border-l border-border overflow-y-auto p-5">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-lg font-semibold">{eventLabel(run)}</h2>
+          <button onClick={onClose} className="p-1 rounded-md hover:bg-secondary" aria-label="Close details">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <dl className="grid grid-cols-[auto,1fr] gap-x-4 gap-y-1 text-sm mb-4">
+          {fields.map(([k, v]) => (
+            <div key={k} className="contents">
+              <dt className="text-muted-foreground">{k}</dt>
+              <dd className="break-words">{v}</dd>
+            </div>
+          ))}
+          <dt className="text-muted-foreground">Chat</dt>
+          <dd>
+            {run.chatId ? (
+              <Link href={`/?chat=${encodeURIComponent(run.chatId)}`} className="text-primary hover:underline">
+                {chatTitle ?? run.chatId}
+              </Link>
+            ) : (
+              "—"
+            )}
+          </dd>
+        </dl>
+
+        {run.note && (
+          <section className="mb-4">
+            <h3 className="text-sm font-semibold mb-1">Note</h3>
+            <p className="text-sm whitespace-pre-wrap">{run.note}</p>
+          </section>
+        )}
+
+        {run.summary && (
+          <section className="mb-4">
+            <h3 className="text-sm font-semibold mb-1">Summary</h3>
+            <p className="text-sm whitespace-pre-wrap">{run.summary}</p>
+          </section>
+        )}
+
+        {run.error && (
+          <section className="mb-4">
+            <h3 className="text-sm font-semibold mb-1">Error</h3>
+            <pre className="text-xs whitespace-pre-wrap text-destructive bg-muted/40 rounded-md p-2">{run.error}</pre>
+          </section>
+        )}
+
+        {run.envelope && (
+          <section>
+            <h3 className="text-sm font-semibold mb-1">Envelope</h3>
+            <pre className="text-xs whitespace-pre-wrap break-all bg-muted/40 rounded-md p-2 max-h-[50vh] overflow-auto">
+              {prettyEnvelope(run.envelope)}
+            </pre>
+          </section>
+        )}
+      </aside>
+    </div>
+  );
+}
+
+/** Circuit breaker state from GET /api/tools/health (see lib/tools/circuitBreaker.ts). */
+type ToolBreakerRow = {
+  tool: string;
+  state: "closed" | "open" | "half_open";
+  failures: number;
+  lastFailureAt: number | null;
+  lastError: string | null;
+  openedAt: number | null;
+};
+
+const HEALTH_REFRESH_MS = 30_000;
+
+function breakerLabel(b: ToolBreakerRow): { text: string; cls: string } {
+  if (b.state === "open") return { text: "Down · calls paused", cls: "border-red-500/40 text-red-600" };
+  if (b.state === "half_open") return { text: "Recovering · next call is a trial", cls: "border-amber-500/40 text-amber-600" };
+  if (b.failures > 0) {
+    return { text: `${b.failures} recent failure${b.failures === 1 ? "" : "s"}`, cls: "border-amber-500/40 text-amber-600" };
+  }
+  return { text: "Healthy", cls: "border-border text-muted-foreground" };
+}
+
+function ToolHealth() {
+  const [breakers, setBreakers] = useState<ToolBreakerRow[] | null>(null);
+
+  useEffect(() => {
+    let stopped = false;
+    const load = async () => {
+      try {
+        const token = await auth.currentUser?.getIdToken();
+        const res = await fetch("/api/tools/health", {
+          headers: token ? { Authorization: `Bearer ${token}` } : {},
+        });
+        if (!res.ok) throw new Error(`${res.status}`);
+        const body = (await res.json()) as { breakers?: ToolBreakerRow[] };
+        if (!stopped) setBreakers(body.breakers ?? []);
+      } catch (err) {
+        console.error("[activity] tool health failed:", err);
+        if (!stopped) setBreakers(null);
+      }
+    };
+    void load();
+    const timer = setInterval(load, HEALTH_REFRESH_MS);
+    return () => {
+      stopped = true;
+      clearInterval(timer);
+    };
+  }, []);
+
+  if (!breakers) return null;
+  const unhealthy = breakers.filter((b) => b.state !== "closed" || b.failures > 0);
+
+  return (
+    <div className="mb-4 flex flex-wrap items-center gap-2 text-xs">
+      <span className="font-medium text-sm">Tool health</span>
+      {unhealthy.length === 0 ? (
+        <span className="text-muted-foreground">All tools healthy</span>
+      ) : (
+        unhealthy.map((b) => {
+          const label = breakerLabel(b);
+          return (
+            <span
+              key={b.tool}
+              className={`rounded-full border px-2 py-0.5 ${label.cls}`}
+              title={[
+                b.lastFailureAt ? `Last failure: ${new Date(b.lastFailureAt).toLocaleString()}` : "",
+                b.lastError ?? "",
+              ]
+                .filter(Boolean)
+                .join("\n")}
+            >
+              {b.tool} — {label.text}
+            </span>
+          );
+        })
+      )}
+    </div>
+  );
+}
+
 export default function ActivityPage() {
   const [uid, setUid] = useState<string | null>(null);
   const [allowed, setAllowed] = useState<boolean | null>(null);
   const [rows, setRows] = useState<RunRow[]>([]);
   const [loading, setLoading] = useState(true);
+  const [filters, setFilters] = useState<Filters>(EMPTY_FILTERS);
+  const [search, setSearch] = useState("");
+  const [chatTitles, setChatTitles] = useState<Record<string, string>>({});
+  const [selected, setSelected] = useState<RunRow | null>(null);
+  const [queryError, setQueryError] = useState<string | null>(null);
+
+  // Pagination: first page is live; older pages are fetched once and appended
+  const [olderRows, setOlderRows] = useState<RunRow[]>([]);
+  const [cursor, setCursor] = useState<QueryDocumentSnapshot<DocumentData> | null>(null);
+  const [hasMore, setHasMore] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
 
   // auth
   useEffect(() => {
@@ -38,41 +288,99 @@ export default function ActivityPage() {
       setLoading(false);
       return;
     }
-    (async () => {
-      setLoading(true);
-      try {
-        const permRef = doc(db, "users", uid, "featurePermissions", "activity");
-        const snap = await getDoc(permRef);
-        const ok = !!(snap.exists() && (snap.data() as { enabled?: boolean })?.enabled);
-
-        setAllowed(ok);
-
-        if (!ok) {
-          setRows([]);
-          setLoading(false);
-          return;
-        }
-
-        // subscribe to runs
-        const runsRef = collection(db, "users", uid, "runs");
-        const q = query(runsRef, orderBy("createdAt", "desc"), limit(100));
-        const unsub = onSnapshot(q, (ss) => {
-          const list: RunRow[] = [];
-          ss.forEach((d) => {
-            list.push({ id: d.id, ...d.data() } as RunRow);
-          });
-          
-          setRows(list);
-          setLoading(false);
+    getDoc(doc(db, "users", uid, "featurePermissions", "activity"))
+      .then((snap) => setAllowed(!!(snap.exists() && (snap.data() as { enabled?: boolean })?.enabled)))
+      .catch(() => setAllowed(false));
+  }, [uid]);
+
+  // chat titles (Chat column + chat filter)
+  useEffect(() => {
+    if (!uid || !allowed) return;
+    getDocs(query(collection(db, "users", uid, "chats"), orderBy("updatedAt", "desc"), limit(200)))
+      .then((ss) => {
+        const map: Record<string, string> = {};
+        ss.forEach((d) => {
+          const t = (d.data() as { title?: unknown }).title;
+          map[d.id] = typeof t === "string" && t ? t : "New chat";
+        });
+        setChatTitles(map);
+      })
+      .catch(() => setChatTitles({}));
+  }, [uid, allowed]);
+
+  // subscribe to the first page of runs for the current filters
+  useEffect(() => {
+    if (!uid || !allowed) {
+      setLoading(allowed === null && !!uid);
+      return;
+    }
+    setLoading(true);
+    setQueryError(null);
+    setOlderRows([]);
+
+    const runsRef = collection(db, "users", uid, "runs");
+    const q = query(runsRef, ...buildConstraints(filters), limit(PAGE_SIZE));
+    const unsub = onSnapshot(
+      q,
+      (ss) => {
+        const list: RunRow[] = [];
+        ss.forEach((d) => {
+          list.push({ id: d.id, ...d.data() } as RunRow);
         });
-        return () => unsub();
-      } catch {
-        setAllowed(false);
+
+        setRows(list);
+        setCursor(ss.docs[ss.docs.length - 1] ?? null);
+        setHasMore(ss.docs.length === PAGE_SIZE);
+        setLoading(false);
+      },
+      (err) => {
+        // Usually a missing composite index for this filter combination
+        console.error("[activity] query failed:", err);
+        setQueryError("Couldn’t load activity for these filters.");
         setRows([]);
+        setHasMore(false);
         setLoading(false);
       }
-    })();
-  }, [uid]);
+    );
+    return () => unsub();
+  }, [uid, allowed, filters]);
+
+  const loadMore = async () => {
+    if (!uid || !cursor || loadingMore) return;
+    setLoadingMore(true);
+    try {
+      const runsRef = collection(db, "users", uid, "runs");
+      const ss = await getDocs(
+        query(runsRef, ...buildConstraints(filters), startAfter(cursor), limit(PAGE_SIZE))
+      );
+      const list = ss.docs.map((d) => ({ id: d.id, ...d.data() }) as RunRow);
+      setOlderRows((prev) => [...prev, ...list]);
+      setCursor(ss.docs[ss.docs.length - 1] ?? cursor);
+      setHasMore(ss.docs.length === PAGE_SIZE);
+    } catch (err) {
+      console.error("[activity] load more failed:", err);
+      setHasMore(false);
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  // Free-text search over what is loaded (note, tool, model, chat title, error)
+  const visibleRows = useMemo(() => {
+    const all = [...rows, ...olderRows];
+    const needle = search.trim().toLowerCase();
+    if (!needle) return all;
+    return all.filter((r) =>
+      [r.note, r.toolId, r.model, r.error, r.summary, r.chatId ? chatTitles[r.chatId] : null]
+        .filter(Boolean)
+        .some((v) => String(v).toLowerCase().includes(needle))
+    );
+  }, [rows, olderRows, search, chatTitles]);
+
+  const setFilter = <K extends keyof Filters>(key: K, value: Filters[K]) =>
+    setFilters((prev) => ({ ...prev, [key]: value }));
+
+  const filtersActive = Object.values(filters).some(Boolean) || !!search;
 
   if (!uid) {
     return (
@@ -94,68 +402,159 @@ export default function ActivityPage() {
     );
   }
 
+  const inputCls = "px-2 py-1 rounded-md border border-border bg-background";
+
   return (
     <div className="p-6 max-w-5xl mx-auto">
       <div className="flex items-center justify-between mb-4">
         <h1 className="text-xl font-semibold">Activity</h1>
-        <Link href="/" className="text-sm text-primary hover:underline">Back to chat</Link>
+        <div className="flex items-center gap-4">
+          <Link href="/usage" className="text-sm text-primary hover:underline">Usage</Link>
+          <Link href="/" className="text-sm text-primary hover:underline">Back to chat</Link>
+        </div>
+      </div>
+
+      <ToolHealth />
+
+      {/* Filters */}
+      <div className="flex flex-wrap items-center gap-2 mb-4 text-sm">
+        <input
+          type="search"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search notes, tools, chats…"
+          className={`${inputCls} min-w-[14rem]`}
+          aria-label="Search activity"
+        />
+        <select value={filters.toolId} onChange={(e) => setFilter("toolId", e.target.value)} className={inputCls} aria-label="Tool">
+          <option value="">All tools</option>
+          {TOOL_OPTIONS.map((t) => (
+            <option key={t.value} value={t.value}>{t.label}</option>
+          ))}
+        </select>
+        <select
+          value={filters.status}
+          onChange={(e) => setFilter("status", e.target.value as Filters["status"])}
+          className={inputCls}
+          aria-label="Status"
+        >
+          <option value="">Any status</option>
+          <option value="ok">Success</option>
+          <option value="error">Error</option>
+          <option value="cancelled">Cancelled</option>
+        </select>
+        <select value={filters.chatId} onChange={(e) => setFilter("chatId", e.target.value)} className={`${inputCls} max-w-[14rem]`} aria-label="Chat">
+          <option value="">All chats</option>
+          {Object.entries(chatTitles).map(([id, title]) => (
+            <option key={id} value={id}>{title}</option>
+          ))}
+        </select>
+        <label className="flex items-center gap-1 text-muted-foreground">
+          From
+          <input type="date" value={filters.from} onChange={(e) => setFilter("from", e.target.value)} className={inputCls} />
+        </label>
+        <label className="flex items-center gap-1 text-muted-foreground">
+          To
+          <input type="date" value={filters.to} onChange={(e) => setFilter("to", e.target.value)} className={inputCls} />
+        </label>
+        {filtersActive && (
+          <button
+            onClick={() => {
+              setFilters(EMPTY_FILTERS);
+              setSearch("");
+            }}
+            className="text-primary hover:underline"
+          >
+            Clear
+          </button>
+        )}
       </div>
 
       {loading ? (
         <div className="text-sm text-muted-foreground">Loading…</div>
-      ) : rows.length === 0 ? (
-        <div className="text-sm text-muted-foreground">No activity yet.</div>
-      ) : (
-        <div className="overflow-x-auto border border-border rounded-lg">
-          <table className="min-w-full text-sm">
-            <thead className="bg-muted/40">
-              <tr className="text-left">
-                <th className="px-3 py-2 font-semibold">When</th>
-                <th className="px-3 py-2 font-semibold">Event</th>
-                <th className="px-3 py-2 font-semibold">Status</th>
-                <th className="px-3 py-2 font-semibold">Latency</th>
-                <th className="px-3 py-2 font-semibold">Chat</th>
-              </tr>
-            </thead>
-            <tbody>
-              {rows.map((r) => {
-                const when =
-                  r.createdAt instanceof Timestamp
-                    ? r.createdAt.toDate().toLocaleString()
-                    : "—";
-                const event =
-                  r.kind === "built_in"
-                    ? (r.toolId === "create_document"
-                        ? "Created document"
-                        : r.toolId === "update_document"
-                        ? "Updated document"
-                        : `Ran ${r.toolId ?? "built-in tool"}`)
-                    : r.kind === "llm"
-                    ? "Assistant reply"
-                    : r.kind === "error"
-                    ? `Error${r.toolId ? ` in ${r.toolId}` : ""}`
-                    : "Event";
-                const status = r.status ?? "ok";
-
-                return (
-                  <tr key={r.id} className="border-t border-border">
-                    <td className="px-3 py-2 whitespace-nowrap">{when}</td>
-                    <td className="px-3 py-2">
-                      <div className="font-medium">{event}</div>
-                      {r.toolId && <div className="text-xs text-muted-foreground">{r.toolId}</div>}
-                      {r.note && <div className="text-xs text-muted-foreground mt-0.5">{r.note}</div>}
-                    </td>
-                    <td className="px-3 py-2 whitespace-nowrap">
-                      {status === "ok" ? "Success" : "Error"}
-                    </td>
-                    <td className="px-3 py-2 whitespace-nowrap">{r.latencyMs ?? "—"} ms</td>
-                    <td className="px-3 py-2 whitespace-nowrap">{r.chatId ?? "—"}</td>
-                  </tr>
-                );
-              })}
-            </tbody>
-          </table>
+      ) : queryError ? (
+        <div className="text-sm text-destructive">{queryError}</div>
+      ) : visibleRows.length === 0 ? (
+        <div className="text-sm text-muted-foreground">
+          {filtersActive ? "No activity matches these filters." : "No activity yet."}
         </div>
+      ) : (
+        <>
+          <div className="overflow-x-auto border border-border rounded-lg">
+            <table className="min-w-full text-sm">
+              <thead className="bg-muted/40">
+                <tr className="text-left">
+                  <th className="px-3 py-2 font-semibold">When</th>
+                  <th className="px-3 py-2 font-semibold">Event</th>
+                  <th className="px-3 py-2 font-semibold">Status</th>
+                  <th className="px-3 py-2 font-semibold">Latency</th>
+                  <th className="px-3 py-2 font-semibold">Chat</th>
+                </tr>
+              </thead>
+              <tbody>
+                {visibleRows.map((r) => {
+                  const status = r.status ?? "ok";
+
+                  return (
+                    <tr
+                      key={r.id}
+                      onClick={() => setSelected(r)}
+                      className="border-t border-border cursor-pointer hover:bg-muted/30"
+                    >
+                      <td className="px-3 py-2 whitespace-nowrap">{whenOf(r)}</td>
+                      <td className="px-3 py-2">
+                        <div className="font-medium">{eventLabel(r)}</div>
+                        {r.toolId && <div className="text-xs text-muted-foreground">{r.toolId}</div>}
+                        {r.model && <div className="text-xs text-muted-foreground">{r.model}</div>}
+                        {r.note && <div className="text-xs text-muted-foreground mt-0.5">{r.note}</div>}
+                      </td>
+                      <td className="px-3 py-2 whitespace-nowrap">
+                        {STATUS_LABELS[status]}
+                        {r.envelopeStatus && r.envelopeStatus !== "ok" && (
+                          <div className="text-xs text-muted-foreground">{r.envelopeStatus}</div>
+                        )}
+                      </td>
+                      <td className="px-3 py-2 whitespace-nowrap">{r.latencyMs ?? "—"} ms</td>
+                      <td className="px-3 py-2 whitespace-nowrap">
+                        {r.chatId ? (
+                          <Link
+                            href={`/?chat=${encodeURIComponent(r.chatId)}`}
+                            onClick={(e) => e.stopPropagation()}
+                            className="text-primary hover:underline"
+                          >
+                            {chatTitles[r.chatId] ?? r.chatId}
+                          </Link>
+                        ) : (
+                          "—"
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          {hasMore && (
+            <div className="flex justify-center mt-4">
+              <button
+                onClick={loadMore}
+                disabled={loadingMore}
+                className="px-3 py-1.5 text-sm rounded-md border border-border hover:bg-secondary disabled:opacity-50"
+              >
+                {loadingMore ? "Loading…" : "Load older"}
+              </button>
+            </div>
+          )}
+        </>
+      )}
+
+      {selected && (
+        <RunDrawer
+          run={selected}
+          chatTitle={selected.chatId ? chatTitles[selected.chatId] : undefined}
+          onClose={() => setSelected(null)}
+        />
       )}
     </div>
   );
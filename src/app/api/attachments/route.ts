@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from "next/server";
+import type { ChatAttachment } from "@/types/types";
+import { getUserFromRequest } from "@/services/authRequest";
+import { adminDb } from "@/services/firebaseAdmin";
+import { attachmentKindOf, checkAttachmentFile, ATTACHMENT_MAX_BYTES, ATTACHMENT_MAX_FILES } from "@/lib/attachments/limits";
+import { parseAttachment } from "@/lib/attachments/parse";
+import { saveChatAttachment } from "@/lib/attachments/store";
+
+/**
+ * POST /api/attachments
+ * Body: multipart/form-data with `chatId` and one or more `files`.
+ *
+ * Parses each file (lib/attachments/parse.ts) and stores its text with the chat
+ * (users/{uid}/chats/{chatId}/attachments). Answers `{ attachments, errors }`:
+ * the metadata of every stored file plus one message per file that was refused.
+ * The client then sends the ids with the chat message (`attachmentIds` on /api/chat).
+ *
+ * Gotchas:
+ * - Limits (size, count, types) are in lib/attachments/limits.ts; the input box checks the
+ *   same ones first, this route enforces them.
+ * - formData() buffers the whole body, so a Content-Length past every file at its limit
+ *   (plus MULTIPART_OVERHEAD_BYTES) is refused with a 413 before reading it.
+ * - The chat must exist already (the client creates it before uploading).
+ */
+
+export const runtime = "nodejs";
+
+/** Room for the multipart boundaries, part headers and the chatId field. */
+const MULTIPART_OVERHEAD_BYTES = 64 * 1024;
+const MAX_BODY_BYTES = ATTACHMENT_MAX_FILES * ATTACHMENT_MAX_BYTES + MULTIPART_OVERHEAD_BYTES;
+
+const fail = (status: number, error: string) => NextResponse.json({ error }, { status });
+
+export async function POST(req: NextRequest) {
+  const user = await getUserFromRequest();
+  if (!user) return fail(401, "Unauthorized. Please sign in.");
+  const userId = user.uid;
+
+  if (Number(req.headers.get("content-length")) > MAX_BODY_BYTES) {
+    return fail(413, `Attach at most ${ATTACHMENT_MAX_FILES} files of ${Math.round(ATTACHMENT_MAX_BYTES / 1024 / 1024)} MB each.`);
+  }
+
+  const form = await req.formData().catch(() => null);
+  if (!form) return fail(400, "Expected multipart/form-data with chatId and files.");
+  const chatId = form.get("chatId");
+  const files = form.getAll("files").filter((f): f is File => typeof f !== "string");
+  if (typeof chatId !== "string" || !chatId || files.length === 0) {
+    return fail(400, "Expected multipart/form-data with chatId and files.");
+  }
+  if (files.length > ATTACHMENT_MAX_FILES) return fail(400, `Attach at most ${ATTACHMENT_MAX_FILES} files at once.`);
+
+  const chat = await adminDb.collection("users").doc(userId).collection("chats").doc(chatId).get();
+  if (!chat.exists) return fail(404, "That chat doesn’t exist.");
+
+  const attachments: ChatAttachment[] = [];
+  const errors: string[] = [];
+  for (const file of files) {
+    const refused = checkAttachmentFile(file);
+    const kind = attachmentKindOf(file.name);
+    if (refused || !kind) {
+      errors.push(refused ?? `${file.name} can’t be attached.`);
+      continue;
+    }
+
+    const res = parseAttachment(kind, file.name, Buffer.from(await file.arrayBuffer()));
+    if (!res.ok) {
+      errors.push(`${file.name}: ${res.message}`);
+      continue;
+    }
+    try {
+      attachments.push(await saveChatAttachment(userId, chatId, { name: file.name, sizeBytes: file.size }, res.parsed));
+    } catch (err) {
+      console.error("[/api/attachments] save failed:", err);
+      errors.push(`${file.name} couldn’t be saved. Please try again.`);
+    }
+  }
+
+  return NextResponse.json({ attachments, errors });
+}
@@ -1,24 +1,25 @@
-// src/app/api/available-models/route.ts
+// src/app/api/availableModels/route.tsx
+import { getUserFromRequest } from "@/services/authRequest";
+import { configuredProviders, getAllowedModels, pickDefaultModel } from "@/lib/models/registry";
+
+/**
+ * Server-authoritative model list.
+ * - availableProviders: providers with an API key configured
+ * - models: what the signed-in user/org may use (context length + pricing included)
+ * - defaultModelId: what /api/chat falls back to when a requested model isn't allowed
+ * Anonymous callers get every model of a configured provider.
+ */
 export async function GET() {
-    const availableProviders: string[] = [];
-  
-    // Check if OpenAI API key is configured
-    if (process.env.OPENAI_API_KEY) {
-      availableProviders.push('OpenAI');
-    }
-  
-    // Check if Gemini API key is configured  
-    if (process.env.GEMINI_API_KEY) {
-      availableProviders.push('Google');
-    }
-  
-    // Check if Anthropic API key is configured
-    if (process.env.ANTHROPIC_API_KEY) {
-      availableProviders.push('Anthropic');
-    }
-  
+    const availableProviders = configuredProviders();
+
+    const user = await getUserFromRequest();
+    const models = await getAllowedModels(user?.uid ?? null);
+    const defaultModel = pickDefaultModel(models);
+
     return Response.json({
       availableProviders,
+      models,
+      defaultModelId: defaultModel?.id ?? null,
       message: `Found ${availableProviders.length} available providers: ${availableProviders.join(', ')}`
     });
-  }
\ No newline at end of file
+  }
@@ -1,24 +1,58 @@
-import { NextRequest, NextResponse } from "next/server";
+import { NextRequest, NextResponse, after } from "next/server";
 import { sendMessage } from "@/lib/sendMessage";
-import type { KingaCard, ModelConfig } from "@/types/types";
-import { runWebSearch } from "@/lib/tools/runners/search";
-import { runCrm } from "@/lib/tools/runners/crm";
-import { MCP_SERVER, llmToolsForPermissions } from "@/config/toolsConfig";
-import { runEmailFinder } from "@/lib/tools/runners/emailFinder";
+import type {
+  ArtifactEnvelope,
+  ChatApiResult,
+  ChatStreamEvent,
+  ContextTrimReport,
+  EnrichmentRow,
+  KingaCard,
+  ModelConfig,
+  ToolCallRequest,
+  ToolTurn,
+} from "@/types/types";
+import { getMcpServer, llmToolsForPermissions, type McpToolDefinition } from "@/config/toolsConfig";
+import { getMcpToolRegistry } from "@/lib/tools/discovery";
+import { getUserOrgId } from "@/services/orgs";
+import { readToolFlags } from "@/services/toolPermissions";
+import { runMcpTool } from "@/lib/tools/runners/mcpTool";
+import type { MCPProgressListener } from "@/lib/mcpClient";
 import { getUserFromRequest } from "@/services/authRequest";
-import { adminDb } from "@/services/firebaseAdmin";
+import {
+  AGENT_MAX_ARG_REPAIRS,
+  AGENT_MAX_STEPS,
+  AGENT_TOOL_CONCURRENCY,
+  createTurnBudget,
+  toolKey,
+} from "@/lib/tools/toolBudget";
+import { mapWithConcurrency } from "@/lib/tools/fanOut";
+import { resolveModelForUser } from "@/lib/models/registry";
+import { readChatSummary, updateChatSummary } from "@/lib/chat/summarizeConversation";
+import { recordToolUsage, type MeterContext } from "@/lib/usage/meter";
+import { consumeChatRequest, consumeToolRun } from "@/lib/usage/quota";
+import { recordRun, type RunRecord } from "@/lib/activity/runs";
+import {
+  readCachedToolResult,
+  wantsFreshRun,
+  writeCachedToolResult,
+} from "@/lib/tools/toolCache";
+import { checkToolCircuit, recordToolCircuitOutcome } from "@/lib/tools/circuitBreaker";
+import { retryPolicyFor } from "@/lib/tools/retry";
+import { createToolApproval } from "@/lib/tools/approvals";
+import { previewToolApproval } from "@/lib/tools/dryRun";
+import { detectBatchEnrichment } from "@/lib/tools/router";
+import { loadChatAttachments } from "@/lib/attachments/store";
+import { buildAttachmentsContext, spreadsheetText } from "@/lib/attachments/context";
+import { ATTACHMENT_MAX_FILES } from "@/lib/attachments/limits";
+import {
+  ENRICH_MAX_PROFILES,
+  enrichmentCsv,
+  enrichmentMarkdown,
+  runBatchEnrichment,
+} from "@/lib/tools/batchEnrichment";
 
 
 
-type ArtifactEnvelope = {
-  id: string;
-  title?: string;
-  type?: string;
-  createdAt?: number;
-  updatedAt?: number;
-  versions?: Array<{ content: string; createdAt: number }>;
-};
-
 type ToolEnvelope = Record<string, unknown> & {
   summary?: string;
   data?: { entity?: string };
@@ -26,13 +60,7 @@ type ToolEnvelope = Record<string, unknown> & {
 
 
 /** What we return to the client */
-type ApiResult = {
-  output: string | null;
-  card?: KingaCard;
-  artifact?: ArtifactEnvelope; 
-  suggestedTitle?: string;
-  rawEnvelopes?: unknown[];
-};
+type ApiResult = ChatApiResult;
 
 
 /** Title fallback from the latest user message */
@@ -77,44 +105,6 @@ function buildUpdateArtifact(currentArtifactId: string | null, args: { content?:
 }
 
 
-async function readToolFlags(userId: string): Promise<{ [key: string]: boolean }> {
-  const defaults: { [key: string]: boolean } = { crm: false, email_finder: false, search: false };
-
-  // Helper: tolerate different boolean field names
-  const pickBool = (data: Record<string, unknown>): boolean | undefined => {
-    const candidates = ["enabled", "allowed", "allow", "value", "on", "active", "isEnabled"];
-    for (const k of candidates) {
-      const v = data?.[k];
-      if (typeof v === "boolean") return v;
-    }
-    return undefined;
-  };
-
-  try {
-    // 1) Try per-user collection: users/{uid}/toolPermissions/{toolId}
-    const perUserSnap = await adminDb
-      .collection("users")
-      .doc(userId)
-      .collection("toolPermissions")
-      .get();
-    if (!perUserSnap.empty) {
-      const out = { ...defaults };
-      perUserSnap.forEach((d) => {
-        const data = d.data() as Record<string, unknown>;
-        const on = pickBool(data);
-        const key = d.id as keyof typeof out;
-        if (typeof on === "boolean" && key in out) out[key] = on;
-      });
-      console.log("out", out);
-      return out;
-    }
-  } catch (error) {
-    console.error("Error fetching tool permissions:", error);
-  }
-
-  return defaults;
-}
-
 /** Clean URL for display: domain.com/path (no protocol, query, or hash). Truncate long paths. */
 function cleanUrl(raw: string): string {
   try {
@@ -150,6 +140,12 @@ function buildSanitizedUrlsMap(envelope: unknown): Record<string, string> {
     if (typeof u === "string" && u.trim()) out[u] = cleanUrl(u);
   };
 
+  // Several envelopes (multi-step turn): merge their maps
+  if (Array.isArray(envelope)) {
+    for (const e of envelope) Object.assign(out, buildSanitizedUrlsMap(e));
+    return out;
+  }
+
   if (envelope && typeof envelope === "object") {
     const e = envelope as Minimal;
 
@@ -170,20 +166,31 @@ function buildSanitizedUrlsMap(envelope: unknown): Record<string, string> {
 
 
 async function synthesizeWithLLM({
-  envelope,
+  envelopes,
   modelConfig,
   conversationHistory = [],
   documentContext,
+  onDelta,
+  meter,
+  signal,
 }: {
-  envelope: unknown;
+  envelopes: ToolEnvelope[];
   modelConfig: ModelConfig;
   conversationHistory?: Array<{ role: "user" | "assistant"; content: string }>;
   documentContext?: string;
+  onDelta?: (text: string) => void;
+  meter?: MeterContext;
+  signal?: AbortSignal;
 }): Promise<string> {
-  const sanitizedUrls = buildSanitizedUrlsMap(envelope);
+  const sanitizedUrls = buildSanitizedUrlsMap(envelopes);
+  // Each envelope clipped like a tool result; a fan-out shares SYNTHESIS_ENVELOPES_MAX_CHARS
+  const perEnvelope = Math.min(TOOL_RESULT_MAX_CHARS, Math.floor(SYNTHESIS_ENVELOPES_MAX_CHARS / envelopes.length));
+  const clipped = envelopes.map((e) => envelopeForModel(e, perEnvelope));
 
   const system = [
     "You are a results interpreter. Turn tool envelopes into a unified, conversational answer.",
+    "The envelope may be an array when several tools ran (in sequence, or side by side for several targets); combine them into one answer.",
+    "When the envelopes cover several targets (companies, people), give each one at least a short line; don't drop any.",
     "Rules:",
     "- Base your answer ONLY on the envelope.",
     "- Do not mention which tool produced the data; no section headers or tool names.",
@@ -205,13 +212,16 @@ async function synthesizeWithLLM({
 
   const synthesisPrompt =
     `${system}\n\n<sanitized_urls>\n${JSON.stringify(sanitizedUrls, null, 2)}\n</sanitized_urls>\n` +
-    `<envelope>\n${JSON.stringify(envelope)}\n</envelope>`;
+    `<envelope>\n${clipped.length === 1 ? clipped[0] : `[${clipped.join(",")}]`}\n</envelope>`;
 
   const llm = await sendMessage(synthesisPrompt, {
     modelConfig,
     conversationHistory,
     documentContext,
     tools: [], // disable tools on the synthesis pass
+    onDelta,
+    meter: meter && { ...meter, purpose: "synthesis" },
+    signal,
   });
 
   return llm.type === "text" ? (llm.content ?? "") : "Here’s what I found.";
@@ -223,10 +233,14 @@ async function generateChatTitleWithLLM({
   message,
   modelConfig,
   envelope,
+  meter,
+  signal,
 }: {
   message: string;
   modelConfig: ModelConfig;
   envelope?: ToolEnvelope;
+  meter?: MeterContext;
+  signal?: AbortSignal;
 }): Promise<string | null> {
   const toolSummary = envelope?.summary ? `\n\nTool summary:\n${envelope.summary}` : "";
   const prompt =
@@ -239,6 +253,8 @@ async function generateChatTitleWithLLM({
     conversationHistory: [],
     documentContext: undefined,
     tools: [],
+    meter: meter && { ...meter, purpose: "title" },
+    signal,
   });
   if (llm.type !== "text") return null;
   const t = (llm.content || "").trim();
@@ -246,297 +262,813 @@ async function generateChatTitleWithLLM({
 
 }
 
-export async function POST(req: NextRequest) {
-  try {
-    const body = await req.json();
+/** Outcome of one MCP tool run inside the agent loop. */
+type McpToolOutcome =
+  | { ok: true; envelope: ToolEnvelope; card?: KingaCard; fallbackTitle: string; attempts?: number }
+  | { ok: false; message: string; error?: string; runnerFailed?: boolean; attempts?: number };
 
-    const message: string = body.message ?? "";
-    const modelConfig: ModelConfig | undefined = body.modelConfig;
-    const conversationHistory:
-      | Array<{ role: "user" | "assistant"; content: string }>
-      | undefined = body.conversationHistory;
-    const documentContext: string | undefined = body.documentContext;
-    const currentArtifactId: string | null = body.currentArtifactId ?? null;
-    const currentArtifactTitle: string | undefined = body.currentArtifactTitle;
-    // const chatId: string | undefined = body.chatId; 
+/** A model tool call with its id settled (providers that don't send one get `call_<step>[_<n>]`). */
+type PlannedToolCall = ToolCallRequest & { toolCallId: string };
 
-    if (!message) {
-      return NextResponse.json(
-        { result: { output: "Message is required.", suggestedTitle: "New chat" } },
-        { status: 200 }
-      );
-    }
+/** One MCP call inside a step: an outcome for the model, or a result that ends the turn (approval, quota). */
+type McpCallStep = { outcome: McpToolOutcome } | { endTurn: ApiResult };
 
-    // --- AUTH (require a signed-in user) -----------------------------------
-    const user = await getUserFromRequest();
-    if (!user) {
-      return NextResponse.json(
-        { result: { output: "Unauthorized. Please sign in.", suggestedTitle: "New chat" } },
-        { status: 200 }
-      );
-    }
-    const userId = user.uid;
+/** Calls that may run side by side: registry tools that don't stop for an approval card. */
+function canFanOut(toolName: string, registry: McpToolDefinition[]): boolean {
+  const tool = registry.find((t) => t.name === toolName && !t.hidden);
+  return !!tool && !tool.approval;
+}
 
-    // --- Tool permissions ---------------------------------------------------
-    const toolFlags = await readToolFlags(userId);
+/** Registry lookup, permission + argument checks (nothing runs). */
+function checkMcpToolCall(
+  toolName: string,
+  toolArgs: Record<string, unknown>,
+  toolFlags: { [key: string]: boolean },
+  registry: McpToolDefinition[]
+): { ok: true; tool: McpToolDefinition; args: Record<string, unknown> } | { ok: false; message: string } {
+  const tool = registry.find((t) => t.name === toolName && !t.hidden);
+
+  // Unknown tool: degrade gracefully
+  if (!tool) {
+    return {
+      ok: false,
+      message: "That tool isn’t available here yet. Tell me what you need and I’ll help directly.",
+    };
+  }
 
-    // --- 2) Ask the model (LLM) --------------------------------------------
-    // Build LLM tool list based on permissions
-    const permsForLLM = {
-      search: toolFlags.search,
-      email_finder: toolFlags.email_finder,
-      crm: toolFlags.crm,
-    } as Record<string, boolean>;
+  if (!toolFlags[tool.permissionKey]) {
+    return { ok: false, message: `You don’t have access to the ${tool.label} tool.` };
+  }
 
-    const llm = await sendMessage(message, {
-      modelConfig: modelConfig!, // you already set this per chat
-      conversationHistory,
-      documentContext,
-      tools: llmToolsForPermissions(permsForLLM),
-    });
+  const checked = tool.validateArgs(toolArgs);
+  if (!checked.ok) return { ok: false, message: checked.message };
+  return { ok: true, tool, args: checked.args };
+}
 
-    const llmTitle = await generateChatTitleWithLLM({ message, modelConfig: modelConfig! });
+/** checkMcpToolCall, then run one MCP tool. Never throws. */
+async function dispatchMcpTool(
+  toolName: string,
+  toolArgs: Record<string, unknown>,
+  toolFlags: { [key: string]: boolean },
+  registry: McpToolDefinition[],
+  onProgress?: MCPProgressListener,
+  signal?: AbortSignal
+): Promise<McpToolOutcome> {
+  const checked = checkMcpToolCall(toolName, toolArgs, toolFlags, registry);
+  if (!checked.ok) return checked;
+  const { tool } = checked;
+
+  // Route to the server that owns this tool
+  const server = getMcpServer(tool.serverId);
+  if (!server) {
+    return { ok: false, message: `The ${tool.label} tool isn’t configured on this deployment.` };
+  }
 
-    // --- 3) Plain text path -------------------------------------------------
-    if (llm.type === "text") {
-      const result: ApiResult = {
-        output: llm.content ?? "",
-        suggestedTitle: llmTitle || autoTitleFrom(message || currentArtifactTitle || ""),
-      };
-      return NextResponse.json({ result });
+  // Transient failures are retried only when repeating the call is safe
+  const retry = retryPolicyFor(tool, checked.args);
+  const res = await runMcpTool(tool, checked.args, {
+    baseUrl: server.endpoint,
+    headers: server.headers,
+    transport: server.transport,
+    onProgress,
+    signal,
+    retry,
+    onRetry: (attempt) => onProgress?.({ message: `${tool.label} hiccup, retrying (${attempt + 1}/${retry.attempts})` }),
+  });
+  if (!res.ok) {
+    return {
+      ok: false,
+      message: tool.failureMessage,
+      error: res.error,
+      runnerFailed: true,
+      attempts: res.attempts,
+    };
+  }
+
+  const envelope = res.envelope as ToolEnvelope;
+  return {
+    ok: true,
+    envelope,
+    card: (res.card as KingaCard | undefined) ?? undefined,
+    fallbackTitle: tool.fallbackTitle(checked.args, envelope),
+    attempts: res.attempts,
+  };
+}
+
+/** Max characters of a single tool result we feed back to the model. */
+const TOOL_RESULT_MAX_CHARS = 12_000;
+
+/** Max characters of all envelopes together in the synthesis prompt (split between them). */
+const SYNTHESIS_ENVELOPES_MAX_CHARS = 24_000;
+
+/** An envelope as the model sees it: without its UI card, clipped to `maxChars`. */
+function envelopeForModel(envelope: ToolEnvelope, maxChars = TOOL_RESULT_MAX_CHARS): string {
+  const { ui: _ui, ...rest } = envelope;
+  void _ui;
+  const text = JSON.stringify(rest);
+  return text.length > maxChars ? text.slice(0, maxChars) + "…" : text;
+}
+
+/** Tool result as the model sees it. */
+function toolResultForModel(outcome: McpToolOutcome): string {
+  if (!outcome.ok) return JSON.stringify({ status: "error", message: outcome.message });
+  return envelopeForModel(outcome.envelope);
+}
+
+/** Everything a single chat turn needs once the request is parsed and authorized. */
+type TurnInput = {
+  userId: string;
+  chatId?: string;
+  message: string;
+  modelConfig: ModelConfig;
+  conversationHistory?: Array<{ role: "user" | "assistant"; content: string }>;
+  documentContext?: string;
+  /** The chat's attached files, budgeted per file (lib/attachments/context.ts). */
+  attachmentsContext?: string;
+  /** Rolling summary of turns older than the history window. */
+  conversationSummary?: string;
+  currentArtifactId: string | null;
+  currentArtifactTitle?: string;
+  toolFlags: { [key: string]: boolean };
+  /** MCP tools for this request (static registry + tools/list discovery). */
+  mcpTools: McpToolDefinition[];
+  /** Aborted when the user presses Stop (client disconnects); cancels LLM and MCP calls. */
+  signal?: AbortSignal;
+  /** Text of the CSV / Excel files sent with this message (batch email lookup input). */
+  attachedSpreadsheets?: string;
+  /** Every context-fit report of the agent loop (the summary folds in the dropped turns). */
+  onContextReport?: (report: ContextTrimReport) => void;
+};
+
+/** Stream sink; a no-op for the plain JSON variant. */
+type Emit = (event: ChatStreamEvent) => void;
+
+/**
+ * Run one chat turn (agent loop + synthesis) and return the final result.
+ * Progress (text deltas, tool start/progress/finish, card, artifact, title) goes to `emit`.
+ */
+async function runChatTurn(input: TurnInput, emit: Emit = () => {}): Promise<ApiResult> {
+  const {
+    userId,
+    chatId,
+    message,
+    modelConfig,
+    conversationHistory,
+    documentContext,
+    attachmentsContext,
+    conversationSummary,
+    currentArtifactId,
+    currentArtifactTitle,
+    toolFlags,
+    mcpTools,
+    signal,
+    attachedSpreadsheets,
+  } = input;
+
+  // Build LLM tool list based on permissions
+  const tools = llmToolsForPermissions(toolFlags, mcpTools);
+
+  const onDelta = (text: string) => emit({ type: "delta", text });
+  const meter: MeterContext = { userId, chatId };
+  const turnStarted = Date.now();
+
+  // Activity rows (users/{uid}/runs) for this turn
+  const logRun = (run: RunRecord) => void recordRun(userId, { chatId, model: modelConfig.id, ...run });
+
+  // Last context-fit report from the agent loop (sent back only if something was cut)
+  let contextReport: ContextTrimReport | undefined;
+
+  // Title is sent as its own event so the sidebar can update before `done`
+  const finish = (result: ApiResult): ApiResult => {
+    if (contextReport?.trimmed) result.contextReport = contextReport;
+    // Document turns are logged as their built-in tool run instead
+    if (!result.artifact) {
+      logRun({
+        kind: "llm",
+        status: result.rateLimited ? "error" : "ok",
+        latencyMs: Date.now() - turnStarted,
+        note: result.output,
+      });
     }
+    if (result.card) emit({ type: "card", card: result.card });
+    if (result.artifact) emit({ type: "artifact", artifact: result.artifact });
+    if (result.suggestedTitle) emit({ type: "title", title: result.suggestedTitle });
+    return result;
+  };
 
-    // --- 4) Tool calls (internal + MCP) ------------------------------------
-    if (llm.type === "tool_call") {
-      const { toolName, toolArgs } = llm;
-
-      // Internal tool: create_document
-      if (toolName === "create_document") {
-        const artifact = buildNewArtifact(toolArgs);
-        const result: ApiResult = {
-          output: `I've created a document for you: "${artifact.title}"`,
-          artifact,
-          suggestedTitle: llmTitle || artifact.title || autoTitleFrom(message || ""),
-        };
-        return NextResponse.json({ result });
-      }
+  // --- 1) Batch email lookup: a list of LinkedIn profiles skips the agent loop --
+  const batchUrls = detectBatchEnrichment(message, attachedSpreadsheets);
+  if (batchUrls) {
+    const tool = mcpTools.find((t) => t.name === "email_finder" && !t.hidden);
+    const server = tool && getMcpServer(tool.serverId);
+    if (!tool || !server || !toolFlags[tool.permissionKey]) {
+      return finish({
+        output: tool && server
+          ? `You don’t have access to the ${tool.label} tool.`
+          : "The email finder isn’t available right now.",
+        suggestedTitle: autoTitleFrom(message),
+      });
+    }
+
+    const urls = batchUrls.slice(0, ENRICH_MAX_PROFILES);
+    emit({ type: "enrichment_start", rows: urls.map((linkedinUrl): EnrichmentRow => ({ linkedinUrl, status: "queued" })) });
+    const started = Date.now();
+    const rows = await runBatchEnrichment(urls, {
+      userId,
+      chatId,
+      tool,
+      server,
+      fresh: wantsFreshRun(message),
+      signal,
+      onRow: (index, row) => emit({ type: "enrichment_row", index, row }),
+    });
+
+    const count = (status: EnrichmentRow["status"]) => rows.filter((r) => r.status === status).length;
+    const found = count("found");
+    const parts = [`${found} email${found === 1 ? "" : "s"} found`];
+    if (count("not_found")) parts.push(`${count("not_found")} without an email`);
+    if (count("error")) parts.push(`${count("error")} failed`);
+    if (count("skipped")) parts.push(`${count("skipped")} skipped (${rows.find((r) => r.status === "skipped")?.note})`);
+    const cut = batchUrls.length > urls.length ? ` Only the first ${urls.length} of ${batchUrls.length} profiles were looked up.` : "";
+
+    logRun({
+      kind: "mcp",
+      toolId: tool.name,
+      status: count("error") + count("skipped") === rows.length ? "error" : "ok",
+      latencyMs: Date.now() - started,
+      note: `Batch · ${rows.length} profiles · ${parts.join(" · ")}`,
+    });
+
+    const title = `Email lookup · ${rows.length} profiles`;
+    return finish({
+      output:
+        `I looked up ${rows.length} LinkedIn profiles: ${parts.join(", ")}.${cut} ` +
+        "The table has every result; download it as CSV or use the document.",
+      enrichment: { status: "done", rows, csv: enrichmentCsv(rows) },
+      artifact: buildNewArtifact({ title, content: enrichmentMarkdown(rows) }),
+      suggestedTitle: title,
+    });
+  }
 
-      // Internal tool: update_document (client appends a single version)
-      if (toolName === "update_document") {
-        if (!currentArtifactId) {
-          return NextResponse.json({
-            result: {
+  // --- 2) Agent loop: model → tool → result → model … → final answer ------
+  const budget = createTurnBudget();
+  const toolTurns: ToolTurn[] = [];
+  const envelopes: ToolEnvelope[] = [];
+  let card: KingaCard | undefined;
+  let toolTitle: string | undefined;
+  let lastFailure: string | undefined;
+  let finalText: string | null = null;
+  let argRepairs = 0;
+
+  /**
+   * Run one MCP call of this step: checks, cache, breaker, quota, the run itself, Activity row.
+   * `skip` (repeat / budget spent) reports that to the model instead of running.
+   */
+  const runToolCall = async (call: PlannedToolCall, skip?: string): Promise<McpCallStep> => {
+    const { toolName, toolArgs, toolCallId } = call;
+    const started = Date.now();
+    emit({ type: "tool_start", toolName, toolCallId });
+
+    let outcome: McpToolOutcome;
+    let cached = false;
+    if (skip) {
+      outcome = { ok: false, message: skip };
+    } else {
+      // Write tools (CRM): nothing runs until the user approves the fields in chat (/api/tools/approval)
+      const checked = checkMcpToolCall(toolName, toolArgs, toolFlags, mcpTools);
+      const needsApproval = checked.ok && !!checked.tool.approval;
+      if (checked.ok && needsApproval) {
+        // Preview (CRM with a lookup workflow): diff the proposal against the current record
+        const server = getMcpServer(checked.tool.serverId);
+        const preview = server
+          ? await previewToolApproval(checked.tool, checked.args, {
+              server,
+              signal,
+              onProgress: (update) => emit({ type: "tool_progress", toolName, toolCallId, ...update }),
+            })
+          : null;
+        signal?.throwIfAborted();
+        const approval = await createToolApproval(userId, {
+          tool: checked.tool,
+          args: checked.args,
+          chatId,
+          preview,
+        });
+        if (approval) {
+          emit({
+            type: "tool_finish",
+            toolName,
+            toolCallId,
+            ok: true,
+            durationMs: Date.now() - started,
+            summary: "Waiting for your approval",
+          });
+          return {
+            endTurn: {
               output:
-                "I need to know which document is open to update it. Please open a document and try again.",
-              suggestedTitle: llmTitle || autoTitleFrom(message || currentArtifactTitle || ""),
+                `I’ve prepared this ${checked.tool.label} change. Review the fields below (untick any you don’t want), ` +
+                "then Approve to run it (or Edit them first, or Reject).",
+              approval,
+              suggestedTitle: toolTitle || autoTitleFrom(message || currentArtifactTitle || ""),
+              ...(preview?.envelope ? { rawEnvelopes: [preview.envelope] } : {}),
             },
-          });
+          };
         }
-        const artifact = buildUpdateArtifact(currentArtifactId, toolArgs);
-        const result: ApiResult = {
-          output: "I've updated the document for you.",
-          artifact,
-          suggestedTitle: llmTitle || currentArtifactTitle || autoTitleFrom(message || ""),
-        };
-        return NextResponse.json({ result });
       }
 
-      // MCP: SEARCH
-      if (toolName === "search") {
-        if (!toolFlags.search) {
-          return NextResponse.json({
-            result: { output: "You don’t have access to the Search tool." },
-          });
-        }
-        
-        const agent_query = String(toolArgs?.agent_query || "").trim();
-        if (!agent_query) {
-          return NextResponse.json({
-            result: { output: "I need a search query. Try: “Search for <topic>…”" },
-          });
+      // "retry"/"refresh" in the message skips the cache (not the circuit breaker)
+      const fresh = wantsFreshRun(message);
+      const runnable = checked.ok && !needsApproval;
+      const hit = runnable && !fresh ? await readCachedToolResult(userId, toolName, toolArgs) : null;
+      // Circuit breaker: refuse while the tool is failing (one trial call after the cooldown)
+      const circuit = runnable && !hit ? await checkToolCircuit(toolName) : null;
+
+      if (!checked.ok) {
+        // Unknown tool, no access or bad arguments: refused before it counts against the quota
+        outcome = checked;
+      } else if (needsApproval) {
+        // The approval couldn't be stored: never run a write without one
+        outcome = {
+          ok: false,
+          message: "I couldn’t save that change for your approval, so nothing was written. Please try again.",
+        };
+      } else if (hit) {
+        cached = true;
+        outcome = {
+          ok: true,
+          envelope: hit.envelope as ToolEnvelope,
+          card: hit.card,
+          fallbackTitle: hit.title || "Result",
+        };
+      } else if (circuit && !circuit.allowed) {
+        outcome = {
+          ok: false,
+          message: `That tool seems to be down right now (several recent attempts failed). Try again in about ${
+            circuit.retryAfterSec < 90 ? `${circuit.retryAfterSec} seconds` : `${Math.ceil(circuit.retryAfterSec / 60)} minutes`
+          }, or say “retry” to force it.`,
+        };
+      } else {
+        // Quota: each runner call counts against the user's/org's daily tool runs
+        const quota = await consumeToolRun(userId, toolName);
+        if (!quota.ok) {
+          emit({ type: "tool_finish", toolName, toolCallId, ok: false, durationMs: 0, summary: quota.message });
+          logRun({ kind: "mcp", toolId: toolName, status: "error", latencyMs: 0, note: quota.message });
+          return {
+            endTurn: {
+              output: quota.message,
+              suggestedTitle: toolTitle || autoTitleFrom(message || currentArtifactTitle || ""),
+              rateLimited: true,
+            },
+          };
         }
 
-        const res = await runWebSearch(
-          { agent_query },
-          {
-            baseUrl: MCP_SERVER.endpoint,
-            headers: { [MCP_SERVER.authHeaderName]: MCP_SERVER.authHeaderValue },
-            timeoutMs: 30_000,
-          }
+        // Server progress / log lines → live status in the thinking bubble
+        outcome = await dispatchMcpTool(
+          toolName,
+          toolArgs,
+          toolFlags,
+          mcpTools,
+          (update) => emit({ type: "tool_progress", toolName, toolCallId, ...update }),
+          signal
         );
+        // Stopped mid-call: not a tool failure; runLoggedChatTurn records the cancellation
+        signal?.throwIfAborted();
+        void recordToolUsage(meter, {
+          toolId: toolName,
+          latencyMs: Date.now() - started,
+          status: outcome.ok ? "ok" : "error",
+        });
 
-        if (!res.ok) {
-          return NextResponse.json({
-            result: {
-              output:
-                "Search tool failed. I can still summarize what I know, or you can try rephrasing the query.",
-              suggestedTitle: llmTitle || autoTitleFrom(message || currentArtifactTitle || ""),
-            },
+        if (outcome.ok) {
+          void writeCachedToolResult(userId, toolName, toolArgs, {
+            envelope: outcome.envelope,
+            card: outcome.card,
+            title: outcome.fallbackTitle,
           });
         }
+        // Only runner failures feed the circuit breaker (not permission/argument errors)
+        if (outcome.ok || outcome.runnerFailed) {
+          void recordToolCircuitOutcome(toolName, outcome.ok, outcome.ok ? undefined : outcome.error);
+        }
+      }
+    }
+
+    emit({
+      type: "tool_finish",
+      toolName,
+      toolCallId,
+      ok: outcome.ok,
+      durationMs: Date.now() - started,
+      summary: outcome.ok ? outcome.envelope.summary : outcome.message,
+    });
+    logRun({
+      kind: "mcp",
+      toolId: toolName,
+      status: outcome.ok ? "ok" : "error",
+      latencyMs: Date.now() - started,
+      envelopeStatus: outcome.ok ? String(outcome.envelope.status ?? "ok") : null,
+      note:
+        (cached ? "Cached · " : "") +
+        ((outcome.attempts ?? 1) > 1 ? `${outcome.attempts} attempts · ` : "") +
+        (outcome.ok ? (outcome.envelope.summary ?? "") : outcome.message),
+      error: outcome.ok ? null : outcome.error,
+      summary: outcome.ok ? outcome.envelope.summary : null,
+      envelope: outcome.ok ? outcome.envelope : null,
+    });
+    return { outcome };
+  };
+
+  for (let step = 0; step <= AGENT_MAX_STEPS; step++) {
+    signal?.throwIfAborted();
+    // Last pass (or budget spent): no tools, so the model must answer
+    const canUseTools = step < AGENT_MAX_STEPS && !budget.exhausted;
+
+    const llm = await sendMessage(message, {
+      modelConfig, // you already set this per chat
+      conversationHistory,
+      documentContext,
+      attachmentsContext,
+      conversationSummary,
+      tools: canUseTools ? tools : [],
+      toolTurns,
+      meter: { ...meter, purpose: "chat" },
+      signal,
+      onContextReport: (report) => {
+        contextReport = report;
+        input.onContextReport?.(report);
+      },
+      // Once tools produced data the synthesis pass writes the answer; don't stream this one
+      onDelta: envelopes.length === 0 ? onDelta : undefined,
+    });
 
-        const envelope = res.envelope as ToolEnvelope;
-        const card = res.card as KingaCard | undefined;
+    // --- 3) Plain text: the model is done -----------------------------------
+    if (llm.type === "text") {
+      finalText = llm.content ?? "";
+      break;
+    }
 
-        const output = await synthesizeWithLLM({
-          envelope,
-          modelConfig: modelConfig!,
-          conversationHistory,
-          documentContext,
+    // One call, or a batch when the model fans out (parallel tool calls)
+    const calls: PlannedToolCall[] = [llm, ...(llm.parallelCalls ?? [])].map((c, i) => ({
+      ...c,
+      toolCallId: c.toolCallId ?? (i === 0 ? `call_${step}` : `call_${step}_${i}`),
+    }));
+    // Documents and approval-gated writes end the turn, so those never run side by side
+    const batch = calls.length > 1 && calls.every((c) => canFanOut(c.toolName, mcpTools)) ? calls : calls.slice(0, 1);
+
+    // Arguments failed the tool's schema (sendMessage): those calls don't run; the model gets the errors to fix
+    const invalid = batch.filter((c) => c.argErrors?.length);
+    if (invalid.length) {
+      for (const c of invalid) {
+        const isBuiltIn = c.toolName === "create_document" || c.toolName === "update_document";
+        logRun({
+          kind: isBuiltIn ? "built_in" : "mcp",
+          toolId: c.toolName,
+          status: "error",
+          latencyMs: 0,
+          note: `Invalid arguments · ${c.argErrors!.join("; ")}`,
+        });
+      }
+      if (++argRepairs > AGENT_MAX_ARG_REPAIRS && invalid.length === batch.length) {
+        const label = mcpTools.find((t) => t.name === invalid[0].toolName)?.label ?? invalid[0].toolName;
+        lastFailure = `I couldn’t put together a valid ${label} request (${invalid[0].argErrors![0]}). Could you give me the missing details?`;
+        break;
+      }
+      for (const c of invalid) {
+        toolTurns.push({
+          toolCallId: c.toolCallId,
+          toolName: c.toolName,
+          toolArgs: c.toolArgs,
+          result: JSON.stringify({
+            status: "invalid_arguments",
+            errors: c.argErrors,
+            message: "Nothing was run. Fix these arguments and call the tool again, or ask the user for what is missing.",
+          }),
         });
+      }
+      if (invalid.length === batch.length) continue;
+    }
+    const valid = batch.filter((c) => !c.argErrors?.length);
+    const { toolName, toolArgs } = valid[0];
+
+    // Internal tool: create_document (ends the turn)
+    if (toolName === "create_document") {
+      const llmTitle = await generateChatTitleWithLLM({ message, modelConfig, meter, signal });
+      const artifact = buildNewArtifact(toolArgs);
+      logRun({
+        kind: "built_in",
+        toolId: toolName,
+        status: "ok",
+        latencyMs: Date.now() - turnStarted,
+        note: artifact.title,
+      });
+      return finish({
+        output: `I've created a document for you: "${artifact.title}"`,
+        artifact,
+        suggestedTitle: llmTitle || artifact.title || autoTitleFrom(message || ""),
+        ...(envelopes.length ? { rawEnvelopes: envelopes } : {}),
+      });
+    }
 
-        const result: ApiResult = {
-          output,
-          card,
-          suggestedTitle:
-            llmTitle ||
-            (agent_query.length > 60 ? agent_query.slice(0, 57) + "…" : agent_query) ||
-            "Search",
-          rawEnvelopes: [envelope],
-        };
-        
-        return NextResponse.json({ result });
+    // Internal tool: update_document (client appends a single version; ends the turn)
+    if (toolName === "update_document") {
+      const llmTitle = await generateChatTitleWithLLM({ message, modelConfig, meter, signal });
+      if (!currentArtifactId) {
+        logRun({
+          kind: "built_in",
+          toolId: toolName,
+          status: "error",
+          latencyMs: Date.now() - turnStarted,
+          note: "No open document to update",
+        });
+        return finish({
+          output:
+            "I need to know which document is open to update it. Please open a document and try again.",
+          suggestedTitle: llmTitle || autoTitleFrom(message || currentArtifactTitle || ""),
+        });
       }
-      
+      const artifact = buildUpdateArtifact(currentArtifactId, toolArgs);
+      logRun({
+        kind: "built_in",
+        toolId: toolName,
+        status: "ok",
+        latencyMs: Date.now() - turnStarted,
+        note: currentArtifactTitle || "Document",
+      });
+      return finish({
+        output: "I've updated the document for you.",
+        artifact,
+        suggestedTitle: llmTitle || currentArtifactTitle || autoTitleFrom(message || ""),
+        ...(envelopes.length ? { rawEnvelopes: envelopes } : {}),
+      });
+    }
 
-      // MCP: CRM
-      if (toolName === "crm") {
-        if (!toolFlags.crm) {
-          return NextResponse.json({
-            result: { output: "You don’t have access to the CRM tool." },
-          });
-        }
+    // --- 4) MCP tools: run (side by side when batched), then feed each result back as a tool message
+    // Budget and repeat checks in call order, before anything starts
+    const planned = valid.map((call) => {
+      const key = toolKey(call.toolName, call.toolArgs);
+      if (budget.isRepeat(key)) {
+        return { call, skip: "This exact tool call already ran this turn. Use the earlier result instead." };
+      }
+      if (budget.exhausted) {
+        return { call, skip: "Not run: this turn’s tool budget is used up. Answer with the results you have." };
+      }
+      budget.spend(key);
+      return { call, skip: undefined };
+    });
+    const results = await mapWithConcurrency(
+      planned,
+      AGENT_TOOL_CONCURRENCY,
+      ({ call, skip }) => runToolCall(call, skip),
+      signal
+    );
 
-        const pkg =
-          typeof toolArgs?.crm_handoff_package === "string"
-            ? toolArgs.crm_handoff_package
-            : JSON.stringify(toolArgs?.crm_handoff_package ?? {});
+    // Results in call order, so the model and the synthesis see them as requested
+    let endTurn: ApiResult | undefined;
+    for (const [i, res] of results.entries()) {
+      if ("endTurn" in res) {
+        endTurn ??= res.endTurn;
+        continue;
+      }
+      const { outcome } = res;
+      const { call } = planned[i];
+      if (outcome.ok) {
+        envelopes.push(outcome.envelope);
+        if (outcome.card) card = outcome.card;
+        toolTitle = outcome.fallbackTitle;
+      } else {
+        lastFailure = outcome.message;
+      }
+      toolTurns.push({
+        toolCallId: call.toolCallId,
+        toolName: call.toolName,
+        toolArgs: call.toolArgs,
+        result: toolResultForModel(outcome),
+      });
+    }
 
-        if (!pkg) {
-          return NextResponse.json({
-            result: {
-              output:
-                "I need CRM details to proceed (contact/company fields, intent, etc.). Tell me what you want to add/update.",
-              suggestedTitle: llmTitle || autoTitleFrom(message || currentArtifactTitle || ""),
-            },
-          });
-        }
+    // Approval card or quota: stop here with what ran so far
+    if (endTurn) {
+      const raw = [...envelopes, ...(endTurn.rawEnvelopes ?? [])];
+      return finish({ ...endTurn, ...(raw.length ? { rawEnvelopes: raw } : {}) });
+    }
+  }
 
-        const res = await runCrm(
-          { crm_handoff_package: pkg },
-          {
-            baseUrl: MCP_SERVER.endpoint,
-            headers: { [MCP_SERVER.authHeaderName]: MCP_SERVER.authHeaderValue },
-            timeoutMs: 30_000,
-          }
-        );
+  const llmTitle = await generateChatTitleWithLLM({ message, modelConfig, meter, signal });
 
-        if (!res.ok) {
-          return NextResponse.json({
-            result: {
-              output:
-                "CRM tool failed after the request. If partial data was prepared, I can still present it—otherwise try again with clearer details.",
-              suggestedTitle: llmTitle || "CRM",
-            },
-          });
-        }
+  // No tool produced data: return the model's own answer (or the last tool failure)
+  if (envelopes.length === 0) {
+    return finish({
+      output: finalText || lastFailure || "I couldn’t process that request. Please try again.",
+      suggestedTitle: llmTitle || autoTitleFrom(message || currentArtifactTitle || ""),
+    });
+  }
 
-        const envelope = res.envelope as ToolEnvelope;
-        const card = res.card as KingaCard | undefined;
+  // Tools produced data: one synthesis pass over every envelope from this turn
+  const output = await synthesizeWithLLM({
+    envelopes,
+    modelConfig,
+    conversationHistory,
+    documentContext,
+    onDelta,
+    meter,
+    signal,
+  });
 
-        const output = await synthesizeWithLLM({
-          envelope,
-          modelConfig: modelConfig!,
-          conversationHistory,
-          documentContext,
-        });
+  return finish({
+    output,
+    card,
+    suggestedTitle: llmTitle || toolTitle || autoTitleFrom(message || currentArtifactTitle || ""),
+    rawEnvelopes: envelopes,
+  });
+}
 
-        const prettyEntity = String(envelope?.data?.entity || "CRM").replace(/_/g, " ");
+/** What a stopped turn returns (the client usually isn't listening anymore). */
+const CANCELLED_RESULT: ApiResult = {
+  output: "Stopped.",
+  cancelled: true,
+};
 
-        const result: ApiResult = {
-          output,
-          card,
-          suggestedTitle: llmTitle || `CRM · ${prettyEntity}`,
-          rawEnvelopes: [envelope],
-        };
-        return NextResponse.json({ result });
+/**
+ * runChatTurn, plus an `error` Activity row when the turn crashes (then rethrows).
+ * A turn aborted by the user is recorded as `cancelled` and returns CANCELLED_RESULT instead.
+ */
+async function runLoggedChatTurn(input: TurnInput, emit?: Emit): Promise<ApiResult> {
+  const started = Date.now();
+  try {
+    return await runChatTurn(input, emit);
+  } catch (err: unknown) {
+    if (input.signal?.aborted) {
+      void recordRun(input.userId, {
+        kind: "llm",
+        status: "cancelled",
+        chatId: input.chatId,
+        model: input.modelConfig.id,
+        latencyMs: Date.now() - started,
+        note: "Stopped by the user",
+      });
+      return CANCELLED_RESULT;
+    }
+    void recordRun(input.userId, {
+      kind: "error",
+      status: "error",
+      chatId: input.chatId,
+      model: input.modelConfig.id,
+      latencyMs: Date.now() - started,
+      note: "Chat turn failed",
+      error: err instanceof Error ? err.message : String(err),
+    });
+    throw err;
+  }
+}
+
+/** Generic failure result (never leak internals to the client). */
+const FAILED_RESULT: ApiResult = {
+  output: "Something went wrong while processing your request. Please try again.",
+  suggestedTitle: "New chat",
+};
+
+function sseHeaders() {
+  return {
+    "Content-Type": "text/event-stream; charset=utf-8",
+    "Cache-Control": "no-cache, no-transform",
+    Connection: "keep-alive",
+    "X-Accel-Buffering": "no",
+  };
+}
+
+/**
+ * Stream a turn as SSE: typed progress events, then `done` with the full result.
+ * The client closing the stream (Stop) aborts the turn.
+ */
+function streamChatTurn(input: TurnInput): Response {
+  const abort = new AbortController();
+  const signal = input.signal ? AbortSignal.any([input.signal, abort.signal]) : abort.signal;
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      const encoder = new TextEncoder();
+      const write = (event: ChatStreamEvent) => {
+        if (signal.aborted) return; // nobody is reading anymore
+        controller.enqueue(encoder.encode(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`));
+      };
+
+      try {
+        const result = await runLoggedChatTurn({ ...input, signal }, write);
+        write({ type: "done", result });
+      } catch (err: unknown) {
+        console.error("[/api/chat] stream error:", err);
+        write({ type: "error", message: FAILED_RESULT.output ?? "" });
+        write({ type: "done", result: FAILED_RESULT });
+      } finally {
+        if (!signal.aborted) controller.close();
       }
+    },
+    cancel() {
+      abort.abort();
+    },
+  });
 
-      // MCP: EMAIL FINDER
-      if (toolName === "email_finder") {
-        if (!toolFlags.email_finder) {
-          return NextResponse.json({ result: { output: "You don’t have access to the Email Finder tool." } });
-        }
+  return new Response(stream, { headers: sseHeaders() });
+}
 
-        const linkedin_url = String(toolArgs?.linkedin_url || "").trim();
-        if (!linkedin_url) {
-          return NextResponse.json({
-            result: { output: "Please paste a LinkedIn profile URL (e.g., https://www.linkedin.com/in/username/) so I can look up the email." },
-          });
-        }
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json();
 
-        const res = await runEmailFinder(
-          { linkedin_url },
-          {
-            baseUrl: MCP_SERVER.endpoint,
-            headers: { [MCP_SERVER.authHeaderName]: MCP_SERVER.authHeaderValue },
-            timeoutMs: 30_000,
-          }
-        );
+    const message: string = body.message ?? "";
+    const chatId: string | undefined = typeof body.chatId === "string" ? body.chatId : undefined;
 
-        if (!res.ok) {
-          return NextResponse.json({
-            result: { output: "The email lookup tool had a problem. You can ask me to try again, or I can draft an outreach email instead." },
-          });
-        }
+    // Clients that accept SSE get the streaming variant of this endpoint
+    const wantsStream = (req.headers.get("accept") || "").includes("text/event-stream");
 
-        const envelope = res.envelope as ToolEnvelope;
-        const card = res.card as KingaCard | undefined;
+    if (!message) {
+      return NextResponse.json(
+        { result: { output: "Message is required.", suggestedTitle: "New chat" } },
+        { status: 200 }
+      );
+    }
 
-        const output = await synthesizeWithLLM({
-          envelope,
-          modelConfig: modelConfig!,
-          conversationHistory,
-          documentContext,
-        });
+    // --- AUTH (require a signed-in user) -----------------------------------
+    const user = await getUserFromRequest();
+    if (!user) {
+      return NextResponse.json(
+        { result: { output: "Unauthorized. Please sign in.", suggestedTitle: "New chat" } },
+        { status: 200 }
+      );
+    }
+    const userId = user.uid;
 
-        const result: ApiResult = {
-          output,
-          card,
-          suggestedTitle: llmTitle || "Email result",
-          rawEnvelopes: [envelope],
-        };
-        return NextResponse.json({ result });
-      }
+    // --- Quota (requests per minute, monthly token budget) -------------------
+    const quota = await consumeChatRequest(userId);
+    if (!quota.ok) {
+      return NextResponse.json(
+        { result: { output: quota.message, suggestedTitle: "New chat", rateLimited: true } },
+        { status: 429, headers: { "Retry-After": String(quota.retryAfterSec) } }
+      );
+    }
 
-      // Unknown tool: degrade gracefully
-      return NextResponse.json({
-        result: {
-          output:
-            "That tool isn’t available here yet. Tell me what you need and I’ll help directly.",
-          suggestedTitle: llmTitle || autoTitleFrom(message || currentArtifactTitle || ""),
-        },
-      });
+    // --- Model (registry is authoritative; the body only names a model id) ---
+    const resolved = await resolveModelForUser(userId, body.modelConfig);
+    if (!resolved.ok) {
+      return NextResponse.json(
+        { result: { output: resolved.reason, suggestedTitle: "New chat" } },
+        { status: 200 }
+      );
     }
 
-    // Shouldn’t reach here
-    return NextResponse.json({
-      result: {
-        output: "I couldn’t process that request. Please try again.",
-        suggestedTitle: llmTitle || autoTitleFrom(message || currentArtifactTitle || ""),
+    // --- Tool permissions ---------------------------------------------------
+    const mcpTools = await getMcpToolRegistry(userId, await getUserOrgId(userId));
+    const toolFlags = await readToolFlags(userId, mcpTools);
+
+    // --- Attached files (uploaded to /api/attachments, stored with the chat) -
+    const attachmentIds: string[] = Array.isArray(body.attachmentIds)
+      ? body.attachmentIds.filter((id: unknown): id is string => typeof id === "string").slice(0, ATTACHMENT_MAX_FILES)
+      : [];
+    const attachments = await loadChatAttachments(userId, chatId);
+
+    let droppedTurns = 0;
+    const input: TurnInput = {
+      userId,
+      chatId,
+      message,
+      modelConfig: resolved.modelConfig,
+      conversationHistory: body.conversationHistory,
+      documentContext: body.documentContext,
+      attachmentsContext: buildAttachmentsContext(attachments, {
+        contextLength: resolved.modelConfig.contextLength,
+        currentIds: attachmentIds,
+      }),
+      conversationSummary: await readChatSummary(userId, chatId),
+      currentArtifactId: body.currentArtifactId ?? null,
+      currentArtifactTitle: body.currentArtifactTitle,
+      toolFlags,
+      mcpTools,
+      signal: req.signal,
+      attachedSpreadsheets: spreadsheetText(attachments, attachmentIds),
+      onContextReport: (report) => {
+        droppedTurns = Math.max(droppedTurns, report.droppedTurns);
       },
-    });
+    };
+
+    // Background: fold turns that left the history window (or didn't fit this turn) into the chat's summary
+    const historyStart = Number.isInteger(body.historyStart) && body.historyStart >= 0 ? body.historyStart : undefined;
+    after(() =>
+      updateChatSummary({
+        userId,
+        chatId,
+        modelConfig: resolved.modelConfig,
+        history: Array.isArray(body.conversationHistory) ? body.conversationHistory : [],
+        historyStart,
+        droppedTurns,
+      })
+    );
+
+    if (wantsStream) return streamChatTurn(input);
+
+    const result = await runLoggedChatTurn(input);
+    return NextResponse.json({ result }, { status: result.rateLimited ? 429 : 200 });
   } catch (err: unknown) {
     console.error("[/api/chat] error:", err);
-    return NextResponse.json(
-      {
-        result: {
-          output:
-            "Something went wrong while processing your request. Please try again.",
-          suggestedTitle: "New chat",
-        },
-      },
-      { status: 200 }
-    );
+    return NextResponse.json({ result: FAILED_RESULT }, { status: 200 });
   }
 }
@@ -1,8 +1,45 @@
 import type { NextRequest } from "next/server";
+import { getMcpServer } from "@/config/toolsConfig";
+import { getMcpToolRegistry } from "@/lib/tools/discovery";
+import { getUserOrgId } from "@/services/orgs";
+import { getUserFromRequest } from "@/services/authRequest";
+import { readToolFlags } from "@/services/toolPermissions";
+import { runMcpTool } from "@/lib/tools/runners/mcpTool";
+import { validateJsonSchema, type JsonSchema } from "@/lib/tools/schema";
+import { retryPolicyFor } from "@/lib/tools/retry";
+import { checkToolCircuit, recordToolCircuitOutcome } from "@/lib/tools/circuitBreaker";
+import { consumeChatRequest, consumeToolRun } from "@/lib/usage/quota";
+import { recordToolUsage } from "@/lib/usage/meter";
+import { recordRun } from "@/lib/activity/runs";
+
+/**
+ * GET /api/mcp/stream?tool=<name>&args=<json>
+ * Runs one MCP tool and streams its progress as SSE, for client-side tool UIs.
+ *
+ * Same gates as a tool call from /api/chat:
+ * - signed-in user (Bearer token, or the __session cookie for EventSource)
+ * - tool exists in the user's registry, isn't hidden, and users/{uid}/toolPermissions allows it
+ * - not a write tool that needs approval (CRM); those only run via /api/tools/approval
+ * - args match the tool's JSON schema (llm.parameters) and its validateArgs
+ * - per-minute request limit, daily tool-run quota, circuit breaker
+ * Refusals are plain JSON `{ error, details? }` with 400/401/403/404/429/503.
+ *
+ * Events once streaming:
+ *   progress {message?, progress?, total?, level?}   server progress / log lines
+ *   retry    {attempt, of}                           transient failure, trying again
+ *   result   {ok: true, summary, envelope, card} | {ok: false, message}
+ *   done     {}
+ *
+ * Gotchas:
+ * - Closing the EventSource aborts the MCP call (notifications/cancelled upstream).
+ * - Every run is logged to Activity (kind "mcp", note "Streamed · …") and metered.
+ */
 
 // Force Node runtime (not edge) so we can hold open connections.
 export const runtime = "nodejs";
 
+const MAX_ARGS_CHARS = 20_000;
+
 function sseHeaders() {
   return {
     "Content-Type": "text/event-stream; charset=utf-8",
@@ -12,155 +49,147 @@ function sseHeaders() {
   };
 }
 
-type ParsedEvent = { event?: string; data?: string };
-
-function parseSSEChunk(chunk: string): ParsedEvent | null {
-  // Very small parser for lines like:
-  // event: message\n
-  // data: {...}\n\n
-  const lines = chunk.split("\n");
-  const out: ParsedEvent = {};
-  for (const line of lines) {
-    if (line.startsWith("event:")) out.event = line.slice(6).trim();
-    if (line.startsWith("data:")) out.data = line.slice(5).trim();
-  }
-  return out.event || out.data ? out : null;
+function refuse(status: number, error: string, extra?: { details?: string[]; retryAfterSec?: number }) {
+  return Response.json(
+    { error, ...(extra?.details ? { details: extra.details } : {}) },
+    {
+      status,
+      headers: extra?.retryAfterSec != null ? { "Retry-After": String(extra.retryAfterSec) } : undefined,
+    }
+  );
 }
 
 export async function GET(req: NextRequest) {
-  try {
-    // Query params: tool (string), args (json-encoded string)
-    const tool = req.nextUrl.searchParams.get("tool");
-    const argsStr = req.nextUrl.searchParams.get("args") || "{}";
-    const args = JSON.parse(argsStr);
+  // --- Auth ---------------------------------------------------------------
+  const user = await getUserFromRequest();
+  if (!user) return refuse(401, "Unauthorized. Please sign in.");
+  const userId = user.uid;
+
+  // --- Request rate (same per-minute limit as chat) ------------------------
+  const rate = await consumeChatRequest(userId);
+  if (!rate.ok) return refuse(429, rate.message, { retryAfterSec: rate.retryAfterSec });
+
+  // --- Tool + permission ---------------------------------------------------
+  const toolName = req.nextUrl.searchParams.get("tool")?.trim();
+  if (!toolName) return refuse(400, "Missing ?tool=");
+
+  const registry = await getMcpToolRegistry(userId, await getUserOrgId(userId));
+  const tool = registry.find((t) => t.name === toolName && !t.hidden);
+  if (!tool) return refuse(404, `Unknown tool: ${toolName}`);
+
+  const toolFlags = await readToolFlags(userId, registry);
+  if (!toolFlags[tool.permissionKey]) {
+    return refuse(403, `You don’t have access to the ${tool.label} tool.`);
+  }
 
-    if (!tool) {
-      return new Response("Missing ?tool=", { status: 400 });
-    }
+  // Write tools only run through an approval in chat (/api/tools/approval)
+  if (tool.approval) {
+    return refuse(403, `${tool.label} changes need your approval in chat; they can’t be run from here.`);
+  }
 
-    // Pull your n8n MCP endpoint + auth header from toolsConfig envs
-    const baseUrl = process.env.N8N_MCP_BASE_URL; // e.g. https://actualinsight.app.n8n.cloud/mcp/kinga-base-mcp
-    const authHeaderName = process.env.N8N_AUTH_HEADER_NAME || "kinga_key";
-    const authHeaderValue = process.env.N8N_AUTH_HEADER_VALUE || "";
+  const server = getMcpServer(tool.serverId);
+  if (!server) return refuse(503, `The ${tool.label} tool isn’t configured on this deployment.`);
 
-    if (!baseUrl || !authHeaderValue) {
-      return new Response("MCP credentials not configured", { status: 500 });
-    }
+  // --- Arguments -----------------------------------------------------------
+  const argsStr = req.nextUrl.searchParams.get("args") || "{}";
+  if (argsStr.length > MAX_ARGS_CHARS) return refuse(400, "Arguments are too large.");
 
-    // We return a streaming response to the browser
-    const stream = new ReadableStream({
-      async start(controller) {
-        const encoder = new TextEncoder();
-        const write = (event: string, data: unknown) => {
-          controller.enqueue(
-            encoder.encode(`event: ${event}\ndata: ${typeof data === "string" ? data : JSON.stringify(data)}\n\n`)
-          );
-        };
-
-        // 1) Connect to MCP SSE base to get sessionId + endpoint
-        const sseResp = await fetch(baseUrl, {
-          method: "GET",
-          headers: {
-            Accept: "text/event-stream, application/json",
-            [authHeaderName]: authHeaderValue,
-          },
-        });
+  let rawArgs: unknown;
+  try {
+    rawArgs = JSON.parse(argsStr);
+  } catch {
+    return refuse(400, "?args= must be JSON.");
+  }
+
+  const schemaErrors = validateJsonSchema(tool.llm.parameters as JsonSchema, rawArgs);
+  if (schemaErrors.length) return refuse(400, "Invalid arguments.", { details: schemaErrors });
 
-        if (!sseResp.ok || !sseResp.body) {
-          write("error", { message: "Failed to open MCP SSE session" });
-          controller.close();
-          return;
-        }
-
-        // 2) As soon as we receive the "endpoint" event, POST tools/call
-        const reader = sseResp.body.getReader();
-        const decoder = new TextDecoder();
-        let buffered = "";
-
-        const postToolCall = async (sessionPath: string) => {
-          const url = new URL(sessionPath, baseUrl).toString();
-
-          // Fire the tool call (no need to await streaming here)
-          await fetch(url, {
-            method: "POST",
-            headers: {
-              "Content-Type": "application/json",
-              Accept: "application/json, text/event-stream",
-              [authHeaderName]: authHeaderValue,
-            },
-            body: JSON.stringify({
-              jsonrpc: "2.0",
-              id: "stream-1",
-              method: "tools/call",
-              params: { name: tool, arguments: args },
-            }),
-          }).catch(() => {
-            // errors here will surface via SSE error events anyway
-          });
-        };
-
-        // 3) Pump MCP SSE, forward deltas
-        try {
-          while (true) {
-            const { value, done } = await reader.read();
-            if (done) break;
-            buffered += decoder.decode(value, { stream: true });
-
-            // Split on double-newline between SSE events
-            const parts = buffered.split("\n\n");
-            buffered = parts.pop() || "";
-
-            for (const part of parts) {
-              const evt = parseSSEChunk(part);
-              if (!evt) continue;
-
-              if (evt.event === "endpoint" && evt.data) {
-                // Kick off tools/call to the session endpoint we just got
-                await postToolCall(evt.data);
-                write("info", "started");
-                continue;
-              }
-
-              if (evt.event === "message" && evt.data) {
-                // N8n MCP sends JSON RPC envelopes; try to pull text
-                try {
-                  const payload = JSON.parse(evt.data);
-                  const text =
-                    payload?.result?.content?.[0]?.text ??
-                    payload?.params?.message?.content ?? // some servers
-                    payload?.result?.output ??
-                    "";
-
-                  if (text) {
-                    // Stream a delta to the browser
-                    write("delta", text);
-                  }
-                } catch {
-                  // If parsing fails, forward raw chunk
-                  write("delta", evt.data);
-                }
-                continue;
-              }
-
-              if (evt.event === "error") {
-                write("error", evt.data ?? "tool error");
-              }
-            }
-          }
-
-          write("done", "ok");
-          controller.close();
-        } catch (err: unknown) {
-          const msg = err instanceof Error ? err.message : String(err ?? "stream failed");
-          write("error", msg);
-          controller.close();
-        }
-      },
+  const checked = tool.validateArgs(rawArgs as Record<string, unknown>);
+  if (!checked.ok) return refuse(400, checked.message);
+
+  // --- Health + daily quota (quota last: a refused call doesn't use a run) --
+  const circuit = await checkToolCircuit(toolName);
+  if (!circuit.allowed) {
+    return refuse(503, `The ${tool.label} tool is temporarily unavailable. Try again in about ${circuit.retryAfterSec}s.`, {
+      retryAfterSec: circuit.retryAfterSec,
     });
+  }
 
-    return new Response(stream, { headers: sseHeaders() });
-  } catch (err: unknown) {
-    const msg = err instanceof Error ? err.message : String(err ?? "");
-    return new Response(`stream failed: ${msg}`, { status: 500 });
+  const quota = await consumeToolRun(userId, toolName);
+  if (!quota.ok) {
+    void recordRun(userId, { kind: "mcp", toolId: toolName, status: "error", latencyMs: 0, note: quota.message });
+    return refuse(429, quota.message, { retryAfterSec: quota.retryAfterSec });
   }
+
+  // --- Run and stream ------------------------------------------------------
+  const abort = new AbortController();
+  const signal = AbortSignal.any([req.signal, abort.signal]);
+  const retry = retryPolicyFor(tool, checked.args);
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      const encoder = new TextEncoder();
+      const write = (event: string, data: unknown) => {
+        if (signal.aborted) return;
+        controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+      };
+
+      const started = Date.now();
+      const res = await runMcpTool(tool, checked.args, {
+        baseUrl: server.endpoint,
+        headers: server.headers,
+        transport: server.transport,
+        signal,
+        retry,
+        onProgress: (p) => write("progress", p),
+        onRetry: (attempt) => write("retry", { attempt: attempt + 1, of: retry.attempts }),
+      });
+      const latencyMs = Date.now() - started;
+
+      // Client went away: nothing to report, nothing to blame on the tool
+      if (signal.aborted) {
+        void recordRun(userId, {
+          kind: "mcp",
+          toolId: toolName,
+          status: "cancelled",
+          latencyMs,
+          note: "Streamed · Stopped by the user",
+        });
+        return;
+      }
+
+      void recordToolUsage({ userId }, { toolId: toolName, latencyMs, status: res.ok ? "ok" : "error" });
+      void recordToolCircuitOutcome(toolName, res.ok, res.ok ? undefined : res.error);
+
+      const envelope = res.ok ? (res.envelope as Record<string, unknown> & { summary?: string }) : null;
+      void recordRun(userId, {
+        kind: "mcp",
+        toolId: toolName,
+        status: res.ok ? "ok" : "error",
+        latencyMs,
+        envelopeStatus: envelope ? String(envelope.status ?? "ok") : null,
+        note:
+          "Streamed · " +
+          (res.attempts > 1 ? `${res.attempts} attempts · ` : "") +
+          (envelope ? (envelope.summary ?? "") : tool.failureMessage),
+        error: res.ok ? null : res.error,
+        summary: envelope?.summary ?? null,
+        envelope,
+      });
+
+      if (res.ok) {
+        write("result", { ok: true, summary: envelope?.summary ?? null, envelope, card: res.card ?? null });
+      } else {
+        // Runner errors stay server-side (Activity); the client gets the tool's own message
+        write("result", { ok: false, message: tool.failureMessage });
+      }
+      write("done", {});
+      controller.close();
+    },
+    cancel() {
+      abort.abort();
+    },
+  });
+
+  return new Response(stream, { headers: sseHeaders() });
 }
@@ -0,0 +1,181 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getMcpServer } from "@/config/toolsConfig";
+import type { KingaCard, ToolApproval } from "@/types/types";
+import { getUserFromRequest } from "@/services/authRequest";
+import { getUserOrgId } from "@/services/orgs";
+import { readToolFlags } from "@/services/toolPermissions";
+import { getMcpToolRegistry } from "@/lib/tools/discovery";
+import { runMcpTool } from "@/lib/tools/runners/mcpTool";
+import { validateJsonSchema, type JsonSchema } from "@/lib/tools/schema";
+import { retryPolicyFor } from "@/lib/tools/retry";
+import { checkToolCircuit, recordToolCircuitOutcome } from "@/lib/tools/circuitBreaker";
+import {
+  claimToolApproval,
+  releaseToolApproval,
+  readToolApproval,
+  settleToolApproval,
+  toToolApproval,
+} from "@/lib/tools/approvals";
+import { consumeToolRun } from "@/lib/usage/quota";
+import { recordToolUsage } from "@/lib/usage/meter";
+import { recordRun } from "@/lib/activity/runs";
+import { diffFields } from "@/lib/tools/approvalFields";
+
+/**
+ * POST /api/tools/approval
+ * Body: { approvalId, decision: "approve" | "reject", edits?: { "<field path>": "<new value>" }, skip?: ["<field path>"] }
+ *
+ * Runs (or drops) a write tool call that /api/chat held for approval (lib/tools/approvals.ts).
+ * - Approve: edits are applied to the stored args and `skip` fields (unticked in the card) are
+ *   left out; the result is re-checked (permission, schema, validateArgs) and claimed, then the
+ *   tool runs once: circuit breaker, daily quota, usage and Activity logging as for any tool run.
+ * - Reject: nothing runs; Activity gets a "cancelled" row.
+ * Always answers `{ approval, output?, card?, envelope? }` (or `{ error }` with 4xx/5xx);
+ * the client stores `approval` on the chat message.
+ *
+ * Gotchas:
+ * - A refused approve (bad edit, quota, tool down) leaves the approval pending so the user
+ *   can fix it or retry; only a claimed approval runs (and counts against the quota; a quota
+ *   refusal puts the claim back to pending).
+ * - Not tied to the request's lifetime: once claimed, the write runs even if the tab closes.
+ */
+
+type Body = { approvalId?: unknown; decision?: unknown; edits?: unknown; skip?: unknown };
+
+type ApprovalResponse = {
+  approval: ToolApproval;
+  output?: string;
+  card?: KingaCard;
+  envelope?: Record<string, unknown>;
+};
+
+const fail = (status: number, error: string, approval?: ToolApproval) =>
+  NextResponse.json({ error, ...(approval ? { approval } : {}) }, { status });
+
+function readEdits(v: unknown): Record<string, string> {
+  if (!v || typeof v !== "object" || Array.isArray(v)) return {};
+  return Object.fromEntries(
+    Object.entries(v as Record<string, unknown>).filter((e): e is [string, string] => typeof e[1] === "string")
+  );
+}
+
+export async function POST(req: NextRequest) {
+  const user = await getUserFromRequest();
+  if (!user) return fail(401, "Unauthorized. Please sign in.");
+  const userId = user.uid;
+
+  const body = (await req.json().catch(() => ({}))) as Body;
+  const approvalId = typeof body.approvalId === "string" ? body.approvalId : "";
+  const decision = body.decision === "approve" || body.decision === "reject" ? body.decision : null;
+  if (!approvalId || !decision) return fail(400, "Expected { approvalId, decision: \"approve\" | \"reject\" }.");
+
+  const stored = await readToolApproval(userId, approvalId);
+  if (!stored) return fail(404, "That approval no longer exists.");
+  if (stored.status !== "pending") {
+    return fail(409, `This change was already ${stored.status}.`, toToolApproval(stored));
+  }
+
+  // --- Reject: nothing runs -------------------------------------------------
+  if (decision === "reject") {
+    const claim = await claimToolApproval(userId, approvalId, { status: "rejected" });
+    if (!claim.ok) return fail(claim.status, claim.message, claim.approval && toToolApproval(claim.approval));
+    void recordRun(userId, {
+      kind: "mcp",
+      toolId: stored.toolName,
+      status: "cancelled",
+      chatId: stored.chatId,
+      latencyMs: 0,
+      note: "Rejected by the user",
+    });
+    const res: ApprovalResponse = { approval: toToolApproval(claim.approval) };
+    return NextResponse.json(res);
+  }
+
+  // --- Approve: same checks as a chat tool call, on the (edited) stored args --
+  const registry = await getMcpToolRegistry(userId, await getUserOrgId(userId));
+  const tool = registry.find((t) => t.name === stored.toolName && !t.hidden);
+  const server = tool && getMcpServer(tool.serverId);
+  if (!tool?.approval || !server) return fail(404, `The ${stored.label} tool isn’t available anymore.`);
+
+  const toolFlags = await readToolFlags(userId, registry);
+  if (!toolFlags[tool.permissionKey]) return fail(403, `You don’t have access to the ${tool.label} tool.`);
+
+  const edits = readEdits(body.edits);
+  const skip = Array.isArray(body.skip) ? body.skip.filter((p): p is string => typeof p === "string") : [];
+  const edited = Object.keys(edits).length > 0 || skip.length > 0;
+  const proposed = edited ? tool.approval.applyEdits(stored.args, edits, skip) : stored.args;
+
+  const schemaErrors = validateJsonSchema(tool.llm.parameters as JsonSchema, proposed);
+  if (schemaErrors.length) return fail(400, `Those edits aren’t valid: ${schemaErrors.join("; ")}`);
+  const checked = tool.validateArgs(proposed);
+  if (!checked.ok) return fail(400, checked.message);
+
+  const circuit = await checkToolCircuit(tool.name);
+  if (!circuit.allowed) {
+    return fail(503, `The ${tool.label} tool is temporarily unavailable. Try approving again in about ${circuit.retryAfterSec}s.`);
+  }
+  // Claim first: a stale or duplicate approve must not count against the quota
+  const claim = await claimToolApproval(userId, approvalId, {
+    status: "approved",
+    args: checked.args,
+    // Re-diff against the looked-up record so the card still shows old → new
+    fields: stored.currentRecord && stored.currentRecord !== "unavailable"
+      ? diffFields(tool.approval.fields(checked.args), stored.current)
+      : tool.approval.fields(checked.args),
+    edited,
+  });
+  if (!claim.ok) return fail(claim.status, claim.message, claim.approval && toToolApproval(claim.approval));
+
+  const quota = await consumeToolRun(userId, tool.name);
+  if (!quota.ok) {
+    // Nothing ran: leave the card approvable for when the quota resets
+    await releaseToolApproval(userId, approvalId);
+    return fail(429, quota.message);
+  }
+
+  // --- Run -------------------------------------------------------------------
+  const started = Date.now();
+  const res = await runMcpTool(tool, checked.args, {
+    baseUrl: server.endpoint,
+    headers: server.headers,
+    transport: server.transport,
+    retry: retryPolicyFor(tool, checked.args),
+  });
+  const latencyMs = Date.now() - started;
+
+  void recordToolUsage({ userId, chatId: stored.chatId ?? undefined }, {
+    toolId: tool.name,
+    latencyMs,
+    status: res.ok ? "ok" : "error",
+  });
+  void recordToolCircuitOutcome(tool.name, res.ok, res.ok ? undefined : res.error);
+
+  const envelope = res.ok ? (res.envelope as Record<string, unknown> & { summary?: string }) : null;
+  const outcome = envelope ? envelope.summary || `${tool.label} updated.` : tool.failureMessage;
+  const approval = toToolApproval({ ...claim.approval, status: res.ok ? "approved" : "failed", outcome });
+  await settleToolApproval(userId, approvalId, { status: approval.status, outcome });
+
+  void recordRun(userId, {
+    kind: "mcp",
+    toolId: tool.name,
+    status: res.ok ? "ok" : "error",
+    chatId: stored.chatId,
+    latencyMs,
+    envelopeStatus: envelope ? String(envelope.status ?? "ok") : null,
+    note:
+      (edited ? "Approved with edits · " : "Approved · ") +
+      (res.attempts > 1 ? `${res.attempts} attempts · ` : "") +
+      outcome,
+    error: res.ok ? null : res.error,
+    summary: envelope?.summary ?? null,
+    envelope,
+  });
+
+  const response: ApprovalResponse = {
+    approval,
+    output: outcome,
+    ...(res.card ? { card: res.card as KingaCard } : {}),
+    ...(envelope ? { envelope } : {}),
+  };
+  return NextResponse.json(response);
+}
@@ -0,0 +1,31 @@
+import { NextResponse } from "next/server";
+import { getUserFromRequest } from "@/services/authRequest";
+import { adminDb } from "@/services/firebaseAdmin";
+import { listToolBreakers } from "@/lib/tools/circuitBreaker";
+
+/**
+ * GET /api/tools/health
+ * - Circuit breaker state per MCP tool (lib/tools/circuitBreaker.ts) for the Activity page.
+ * - Requires a signed-in user with featurePermissions/activity.enabled.
+ * - Tools that never failed have no record and are simply healthy.
+ */
+export async function GET() {
+  const user = await getUserFromRequest();
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized. Please sign in." }, { status: 401 });
+  }
+
+  const perm = await adminDb
+    .collection("users")
+    .doc(user.uid)
+    .collection("featurePermissions")
+    .doc("activity")
+    .get();
+  if (!(perm.data() as { enabled?: boolean } | undefined)?.enabled) {
+    return NextResponse.json({ error: "You don’t have access to activity data." }, { status: 403 });
+  }
+
+  const breakers = await listToolBreakers();
+  breakers.sort((a, b) => a.tool.localeCompare(b.tool));
+  return NextResponse.json({ breakers });
+}
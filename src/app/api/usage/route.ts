@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from "next/server";
+import { Timestamp } from "firebase-admin/firestore";
+import { getUserFromRequest } from "@/services/authRequest";
+import { adminDb } from "@/services/firebaseAdmin";
+import { getUserOrgId } from "@/services/orgs";
+import { summarizeUsage, type UsageRecord } from "@/lib/usage/summary";
+
+/** Hard cap on records aggregated per request. */
+const MAX_RECORDS = 5000;
+
+/**
+ * GET /api/usage?days=30&scope=me|org
+ * - Requires a signed-in user with featurePermissions/usage.enabled.
+ * - scope=org additionally needs `manager: true` on that doc and an orgId on the user;
+ *   it reads the `usage` collection group (index: orgId ASC, createdAt DESC).
+ */
+export async function GET(req: NextRequest) {
+  const user = await getUserFromRequest();
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized. Please sign in." }, { status: 401 });
+  }
+
+  const perm = await adminDb
+    .collection("users")
+    .doc(user.uid)
+    .collection("featurePermissions")
+    .doc("usage")
+    .get();
+  const permData = (perm.data() ?? {}) as { enabled?: boolean; manager?: boolean };
+  if (!permData.enabled) {
+    return NextResponse.json({ error: "You don’t have access to usage data." }, { status: 403 });
+  }
+
+  const days = Math.min(365, Math.max(1, Number(req.nextUrl.searchParams.get("days")) || 30));
+  const sinceMs = Date.now() - days * 24 * 60 * 60 * 1000;
+  const since = Timestamp.fromMillis(sinceMs);
+  const wantsOrg = req.nextUrl.searchParams.get("scope") === "org";
+
+  try {
+    let q: FirebaseFirestore.Query;
+    if (wantsOrg) {
+      const orgId = await getUserOrgId(user.uid);
+      if (!permData.manager || !orgId) {
+        return NextResponse.json({ error: "Org usage is only available to managers." }, { status: 403 });
+      }
+      q = adminDb.collectionGroup("usage").where("orgId", "==", orgId);
+    } else {
+      q = adminDb.collection("users").doc(user.uid).collection("usage");
+    }
+
+    const snap = await q
+      .where("createdAt", ">=", since)
+      .orderBy("createdAt", "desc")
+      .limit(MAX_RECORDS)
+      .get();
+
+    const records = snap.docs.map((d) => d.data() as UsageRecord);
+    const summary = summarizeUsage(records, {
+      scope: wantsOrg ? "org" : "me",
+      sinceMs,
+      truncated: records.length >= MAX_RECORDS,
+    });
+    return NextResponse.json({ summary });
+  } catch (err: unknown) {
+    console.error("[/api/usage] error:", err);
+    return NextResponse.json({ error: "Failed to load usage." }, { status: 500 });
+  }
+}
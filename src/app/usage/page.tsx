@@ -0,0 +1,208 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { auth, db } from "@/services/firebase";
+import { doc, getDoc } from "firebase/firestore";
+import type { UsageBucket, UsageSummary } from "@/lib/usage/summary";
+
+type UsagePerm = { enabled?: boolean; manager?: boolean };
+
+const usd = (n: number) =>
+  n.toLocaleString(undefined, { style: "currency", currency: "USD", minimumFractionDigits: 2, maximumFractionDigits: 4 });
+const num = (n: number) => Math.round(n).toLocaleString();
+
+function BucketTable({ title, keyLabel, rows }: { title: string; keyLabel: string; rows: UsageBucket[] }) {
+  return (
+    <div className="mb-6">
+      <h2 className="text-sm font-semibold mb-2">{title}</h2>
+      {rows.length === 0 ? (
+        <div className="text-sm text-muted-foreground">No data.</div>
+      ) : (
+        <div className="overflow-x-auto border border-border rounded-lg">
+          <table className="min-w-full text-sm">
+            <thead className="bg-muted/40">
+              <tr className="text-left">
+                <th className="px-3 py-2 font-semibold">{keyLabel}</th>
+                <th className="px-3 py-2 font-semibold">Calls</th>
+                <th className="px-3 py-2 font-semibold">Errors</th>
+                <th className="px-3 py-2 font-semibold">Prompt tokens</th>
+                <th className="px-3 py-2 font-semibold">Completion tokens</th>
+                <th className="px-3 py-2 font-semibold">Avg latency</th>
+                <th className="px-3 py-2 font-semibold">Cost</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((r) => (
+                <tr key={r.key} className="border-t border-border">
+                  <td className="px-3 py-2 whitespace-nowrap font-medium">{r.key}</td>
+                  <td className="px-3 py-2 whitespace-nowrap">{num(r.calls)}</td>
+                  <td className="px-3 py-2 whitespace-nowrap">{num(r.errors)}</td>
+                  <td className="px-3 py-2 whitespace-nowrap">{num(r.promptTokens)}</td>
+                  <td className="px-3 py-2 whitespace-nowrap">{num(r.completionTokens)}</td>
+                  <td className="px-3 py-2 whitespace-nowrap">{num(r.avgLatencyMs)} ms</td>
+                  <td className="px-3 py-2 whitespace-nowrap">{usd(r.costUsd)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function UsagePage() {
+  const [uid, setUid] = useState<string | null>(null);
+  const [perm, setPerm] = useState<UsagePerm | null>(null);
+  const [days, setDays] = useState(30);
+  const [scope, setScope] = useState<"me" | "org">("me");
+  const [summary, setSummary] = useState<UsageSummary | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  // auth
+  useEffect(() => {
+    return auth.onAuthStateChanged((u) => setUid(u?.uid ?? null));
+  }, []);
+
+  // gate by featurePermissions/usage.enabled (manager → org scope)
+  useEffect(() => {
+    if (!uid) {
+      setPerm(null);
+      return;
+    }
+    getDoc(doc(db, "users", uid, "featurePermissions", "usage"))
+      .then((snap) => setPerm((snap.data() as UsagePerm | undefined) ?? {}))
+      .catch(() => setPerm({}));
+  }, [uid]);
+
+  // load summary
+  useEffect(() => {
+    if (!uid || !perm?.enabled) {
+      setLoading(false);
+      return;
+    }
+    let cancelled = false;
+    (async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const idToken = await auth.currentUser?.getIdToken();
+        const res = await fetch(`/api/usage?days=${days}&scope=${scope}`, {
+          headers: idToken ? { Authorization: `Bearer ${idToken}` } : {},
+        });
+        const data = await res.json();
+        if (cancelled) return;
+        if (!res.ok) {
+          setError(data?.error ?? "Failed to load usage.");
+          setSummary(null);
+        } else {
+          setSummary(data.summary as UsageSummary);
+        }
+      } catch {
+        if (!cancelled) setError("Failed to load usage.");
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [uid, perm, days, scope]);
+
+  if (!uid) {
+    return (
+      <div className="p-6 max-w-4xl mx-auto">
+        <h1 className="text-xl font-semibold mb-2">Usage</h1>
+        <p className="text-sm text-muted-foreground">Please sign in to view usage.</p>
+      </div>
+    );
+  }
+
+  if (perm && !perm.enabled) {
+    return (
+      <div className="p-6 max-w-4xl mx-auto">
+        <h1 className="text-xl font-semibold mb-2">Usage</h1>
+        <p className="text-sm text-muted-foreground">
+          You don’t have access to Usage. If you believe this is a mistake, contact your admin.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 max-w-5xl mx-auto">
+      <div className="flex items-center justify-between mb-4">
+        <h1 className="text-xl font-semibold">Usage</h1>
+        <div className="flex items-center gap-4">
+          <Link href="/activity" className="text-sm text-primary hover:underline">Activity</Link>
+          <Link href="/" className="text-sm text-primary hover:underline">Back to chat</Link>
+        </div>
+      </div>
+
+      <div className="flex items-center gap-3 mb-4 text-sm">
+        <select
+          value={days}
+          onChange={(e) => setDays(Number(e.target.value))}
+          className="px-2 py-1 rounded-md border border-border bg-background"
+          aria-label="Date range"
+        >
+          <option value={7}>Last 7 days</option>
+          <option value={30}>Last 30 days</option>
+          <option value={90}>Last 90 days</option>
+        </select>
+        {perm?.manager && (
+          <select
+            value={scope}
+            onChange={(e) => setScope(e.target.value as "me" | "org")}
+            className="px-2 py-1 rounded-md border border-border bg-background"
+            aria-label="Scope"
+          >
+            <option value="me">My usage</option>
+            <option value="org">Whole organization</option>
+          </select>
+        )}
+      </div>
+
+      {loading ? (
+        <div className="text-sm text-muted-foreground">Loading…</div>
+      ) : error ? (
+        <div className="text-sm text-destructive">{error}</div>
+      ) : !summary || summary.totals.calls === 0 ? (
+        <div className="text-sm text-muted-foreground">No usage in this period.</div>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-6">
+            <div className="border border-border rounded-lg p-3">
+              <div className="text-xs text-muted-foreground">Total spend</div>
+              <div className="text-lg font-semibold">{usd(summary.totals.costUsd)}</div>
+            </div>
+            <div className="border border-border rounded-lg p-3">
+              <div className="text-xs text-muted-foreground">Calls</div>
+              <div className="text-lg font-semibold">{num(summary.totals.calls)}</div>
+            </div>
+            <div className="border border-border rounded-lg p-3">
+              <div className="text-xs text-muted-foreground">Prompt tokens</div>
+              <div className="text-lg font-semibold">{num(summary.totals.promptTokens)}</div>
+            </div>
+            <div className="border border-border rounded-lg p-3">
+              <div className="text-xs text-muted-foreground">Completion tokens</div>
+              <div className="text-lg font-semibold">{num(summary.totals.completionTokens)}</div>
+            </div>
+          </div>
+
+          {summary.truncated && (
+            <p className="text-xs text-muted-foreground mb-4">
+              Showing the most recent records only; narrow the date range for exact totals.
+            </p>
+          )}
+
+          {summary.scope === "org" && <BucketTable title="By user" keyLabel="User" rows={summary.byUser} />}
+          <BucketTable title="By model" keyLabel="Model" rows={summary.byModel} />
+          <BucketTable title="By tool" keyLabel="Tool" rows={summary.byTool} />
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,24 +1,35 @@
 "use client";
 
 import SideMenu from "@/components/sideMenu";
-import { FileText, Edit3, X, Check, ChevronRight } from "lucide-react";
+import { FileText, Edit3, X, Check, ChevronRight, Paperclip } from "lucide-react";
 import { useState, useRef, useEffect, useMemo, useCallback } from "react";
 import { useChats } from "@/hooks/useChats";
-import { Message, Artifact, ModelConfig, KingaCard, ToolEnvelope } from "@/types/types";
-import { AVAILABLE_MODELS } from "../config/modelConfig";
+import { Message, Artifact, ModelConfig, KingaCard, ToolApproval, ToolEnvelope, BatchEnrichment } from "@/types/types";
+import { AVAILABLE_MODELS, getAvailableModels } from "../config/modelConfig";
 import { ExportMenu } from "./exportMenu";
 import MarkdownRenderer from "./markdown";
 import ChatInputBox from "@/components/chatInputBox";
 import StructuredCard from "@/components/markdown/structuredCard";
+import ToolApprovalCard from "@/components/toolApprovalCard";
+import EnrichmentTable from "@/components/enrichmentTable";
 import type { ExportFormat } from "./exportMenu";
 import { exportToPDF } from "@/services/pdfExport";
 
-import { callChatApi } from "@/lib/client/callChatApi";
-import { buildConversationHistory } from "@/lib/chat/buildConversationHistory";
+import { callChatApiStream } from "@/lib/client/callChatApi";
+import { decideToolApproval, type ToolApprovalDecision } from "@/lib/client/decideToolApproval";
+import { uploadAttachments } from "@/lib/client/uploadAttachments";
+import { splitConversationHistory } from "@/lib/chat/buildConversationHistory";
 
 import { auth, db } from "@/services/firebase";
 import { collection, getDocs } from "firebase/firestore";
 
+/** Friendly labels for the live status line while a tool runs. */
+const TOOL_STATUS_LABELS: Record<string, string> = {
+  search: "Searching the web",
+  email_finder: "Looking up the email",
+  crm: "Working in the CRM",
+};
+
 type ChatLike = {
   messages?: Message[];
   modelConfig?: Partial<ModelConfig>;
@@ -31,8 +42,15 @@ export function ChatApplication() {
   const [currentArtifact, setCurrentArtifact] = useState<Artifact | null>(null);
   const [isEditing, setIsEditing] = useState(false);
   const [selectedModel, setSelectedModel] = useState<ModelConfig>(AVAILABLE_MODELS[0]);
+  // Models this user may use (server registry); static list until it loads
+  const [availableModels, setAvailableModels] = useState<ModelConfig[]>(AVAILABLE_MODELS);
   const [currentVersionIndex, setCurrentVersionIndex] = useState(0);
   const [editedContent, setEditedContent] = useState("");
+  // Live status line for the in-flight (thinking) message, e.g. "Searching the web…"
+  const [liveStatus, setLiveStatus] = useState<{ id: string; text: string } | null>(null);
+  // In-flight request; Stop aborts it (the server cancels the turn when the stream closes)
+  const abortRef = useRef<AbortController | null>(null);
+  const [isSending, setIsSending] = useState(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
 
   // App data (from Firestore via your hook)
@@ -42,6 +60,7 @@ export function ChatApplication() {
     createNewChat,
     deleteChat,
     saveMessagesToCurrentChat,
+    updateChatMessages,
     saveArtifactToCurrentChat,
     loadChat,
   } = useChats();
@@ -54,21 +73,43 @@ export function ChatApplication() {
 
   
   const pendingIdsRef = useRef<Set<string>>(new Set());
+
+  // The chat on screen now, for async handlers that started on another one
+  const currentChatIdRef = useRef(currentChatId);
+  useEffect(() => {
+    currentChatIdRef.current = currentChatId;
+  }, [currentChatId]);
   
 
 
+  // Load the allowed model list once signed in
   useEffect(() => {
-    const chat = chats.find((c) => c.id === currentChatId);
-    if (!chat) return; 
-  
-    const c = chat as ChatLike;
-    const mc = c.modelConfig;
-    const byId   = mc?.id   ? AVAILABLE_MODELS.find((m) => m.id === mc.id)   : null;
-    const byName = mc?.name ? AVAILABLE_MODELS.find((m) => m.name === mc.name) : null;
-    setSelectedModel(byId || byName || AVAILABLE_MODELS[0]);
-  
-    // only on chat change
-    closeArtifact();
+    return auth.onAuthStateChanged(async (u) => {
+      if (!u) return;
+      const models = await getAvailableModels(await u.getIdToken());
+      if (models.length === 0) return; // server will explain on send
+      setAvailableModels(models);
+      setSelectedModel((curr) => models.find((m) => m.id === curr.id) ?? models[0]);
+    });
+  }, []);
+
+  // The chat's saved model, as primitives so other chat updates don't reset the picker
+  const chatModel = (currentChat as ChatLike | null)?.modelConfig;
+  const chatModelId = chatModel?.id;
+  const chatModelName = chatModel?.name;
+  const hasCurrentChat = !!currentChat;
+
+  useEffect(() => {
+    if (!hasCurrentChat) return;
+    const byId   = chatModelId   ? availableModels.find((m) => m.id === chatModelId)     : null;
+    const byName = chatModelName ? availableModels.find((m) => m.name === chatModelName) : null;
+    setSelectedModel(byId || byName || availableModels[0]);
+  }, [currentChatId, hasCurrentChat, chatModelId, chatModelName, availableModels]);
+
+  // only on chat change
+  useEffect(() => {
+    setCurrentArtifact(null);
+    setIsEditing(false);
   }, [currentChatId]);
   
   useEffect(() => {
@@ -196,6 +237,17 @@ export function ChatApplication() {
     loadChat(chatId);
   };
 
+  // Deep link from the Activity page: /?chat=<id> opens that chat once chats have loaded
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    const linked = params.get("chat");
+    if (!linked || !chats.some((c) => c.id === linked)) return;
+    loadChat(linked);
+    params.delete("chat");
+    const rest = params.toString();
+    window.history.replaceState(null, "", window.location.pathname + (rest ? `?${rest}` : ""));
+  }, [chats, loadChat]);
+
   const handleEditClick = () => {
     if (!currentArtifact) return;
     setEditedContent(currentArtifact.versions[currentVersionIndex].content);
@@ -330,8 +382,43 @@ export function ChatApplication() {
     }
     return defaults;
   }
-  const handleSend = async (messageContent: string) => {
-    if (!messageContent.trim()) return;
+  const handleStop = () => {
+    abortRef.current?.abort();
+  };
+
+  // Approve / Reject a held write (CRM); the result lands on the same message, in the chat
+  // it was asked in (the user may have sent more or switched chats while it ran)
+  const handleApprovalDecision = async (
+    messageId: string,
+    approval: ToolApproval,
+    decision: ToolApprovalDecision,
+    edits?: Record<string, string>,
+    skip?: string[]
+  ): Promise<string | null> => {
+    const chatId = currentChatId;
+    const res = await decideToolApproval(approval.id, decision, edits, skip).catch(() => null);
+    if (!res) return "Couldn’t reach the server. Please try again.";
+
+    if (res.approval) {
+      const updated = res.approval;
+      const apply = (list: Message[]) =>
+        list.map((m) =>
+          m.id === messageId
+            ? {
+                ...m,
+                approval: updated,
+                ...(res.envelope ? { rawEnvelopes: [...(m.rawEnvelopes ?? []), res.envelope] } : {}),
+              }
+            : m
+        );
+      if (currentChatIdRef.current === chatId) setMessages(apply);
+      if (chatId) await updateChatMessages(chatId, apply).catch(() => {});
+    }
+    return res.error ?? null;
+  };
+
+  const handleSend = async (messageContent: string, files?: File[]) => {
+    if (!messageContent.trim() || abortRef.current) return;
   
     // Ensure chatId (create one if needed)
     let chatId = currentChatId;
@@ -358,7 +445,7 @@ export function ChatApplication() {
     pendingIdsRef.current.add(thinkingMessageId);
   
     // 2) Prepare request
-    const conversationHistoryForAPI = buildConversationHistory(updatedMessages);
+    const { kept: conversationHistoryForAPI, trimmed } = splitConversationHistory(updatedMessages);
   
     const fallbackArtifact =
       currentArtifact ??
@@ -366,7 +453,10 @@ export function ChatApplication() {
         ? currentChatArtifacts[currentChatArtifacts.length - 1]
         : null);
   
-    function buildDocumentContext(art?: Artifact | null, budget = 12000): string | undefined {
+    // ~4 chars/token, up to ~35% of the model window; the server trims precisely by tokens
+    const docCharBudget = Math.floor((selectedModel.contextLength ?? 8192) * 4 * 0.35);
+
+    function buildDocumentContext(art?: Artifact | null, budget = docCharBudget): string | undefined {
       if (!art) return undefined;
       const versions = art.versions ?? [];
       const index = versions
@@ -399,15 +489,97 @@ export function ChatApplication() {
       message: userMessage.content,
       modelConfig: selectedModel,
       conversationHistory: conversationHistoryForAPI,
+      // Where that window starts in the chat; the server's summary lines up with it
+      historyStart: trimmed.length,
       documentContext,
       currentArtifactId: fallbackArtifact?.id,
       currentArtifactTitle: fallbackArtifact?.title,
       toolFlags,
     };
   
+    const abort = new AbortController();
+    abortRef.current = abort;
+    setIsSending(true);
+    let streamed = "";
+    // Tool calls in flight (the model may fan out several at once)
+    const running = new Set<string>();
+    // Batch email lookup progress (table under the thinking bubble)
+    let enrichment: BatchEnrichment | undefined;
+    const showEnrichment = (next: BatchEnrichment) => {
+      enrichment = next;
+      setMessages((prev) => prev.map((m) => (m.id === thinkingMessageId ? { ...m, enrichment: next } : m)));
+    };
+
+    // Files that couldn't be attached (too large, no text, …); shown above the answer
+    let uploadErrors: string[] = [];
+
     try {
-      // 3) Call API
-      const { result } = await callChatApi({ ...requestBody, chatId });
+      // 2b) Attached files: parsed and stored with the chat server-side; the message keeps their metadata
+      let attachmentIds: string[] = [];
+      if (files?.length) {
+        setLiveStatus({ id: thinkingMessageId, text: `Reading ${files.length} file${files.length > 1 ? "s" : ""}…` });
+        const uploaded = await uploadAttachments(chatId, files).catch(() => ({
+          attachments: [],
+          errors: ["Couldn’t upload the attached files."],
+        }));
+        abort.signal.throwIfAborted();
+        uploadErrors = uploaded.errors;
+        attachmentIds = uploaded.attachments.map((a) => a.id);
+        if (uploaded.attachments.length) {
+          userMessage.attachments = uploaded.attachments;
+          setMessages((prev) =>
+            prev.map((m) => (m.id === userMessage.id ? { ...m, attachments: uploaded.attachments } : m))
+          );
+        }
+        setLiveStatus(null);
+      }
+
+      // 3) Call API (streamed: deltas + tool progress update the thinking bubble)
+      const body = { ...requestBody, chatId, ...(attachmentIds.length ? { attachmentIds } : {}) };
+      const { result } = await callChatApiStream(body, (event) => {
+        if (event.type === "delta") {
+          streamed += event.text;
+          const text = streamed;
+          setMessages((prev) =>
+            prev.map((m) => (m.id === thinkingMessageId ? { ...m, content: text } : m))
+          );
+        } else if (event.type === "tool_start") {
+          // A new tool step starts; the answer will be rewritten after it
+          streamed = "";
+          running.add(event.toolCallId);
+          setLiveStatus({
+            id: thinkingMessageId,
+            text:
+              running.size > 1
+                ? `Running ${running.size} lookups in parallel…`
+                : `${TOOL_STATUS_LABELS[event.toolName] ?? `Running ${event.toolName}`}…`,
+          });
+        } else if (event.type === "tool_progress") {
+          // Several calls at once: their progress lines would just flicker
+          if (running.size > 1) return;
+          // "Searching 3 sources… 2/3" from the MCP server's progress / log notifications
+          const label = event.message || TOOL_STATUS_LABELS[event.toolName] || `Running ${event.toolName}`;
+          const count = event.progress != null && event.total ? ` ${event.progress}/${event.total}` : "";
+          setLiveStatus({ id: thinkingMessageId, text: `${label.replace(/…$/, "")}…${count}` });
+        } else if (event.type === "enrichment_start") {
+          showEnrichment({ status: "running", rows: event.rows });
+        } else if (event.type === "enrichment_row" && enrichment) {
+          const rows = enrichment.rows.slice();
+          rows[event.index] = event.row;
+          showEnrichment({ ...enrichment, rows });
+        } else if (event.type === "tool_finish") {
+          running.delete(event.toolCallId);
+          setLiveStatus({
+            id: thinkingMessageId,
+            text:
+              running.size > 0
+                ? `Waiting on ${running.size} more lookup${running.size > 1 ? "s" : ""}…`
+                : event.ok
+                ? "Putting the answer together…"
+                : "A tool had a problem; continuing…",
+          });
+        }
+      }, abort.signal);
   
       // 4) Build assistant message
       const aiMessage: Message = {
@@ -417,6 +589,9 @@ export function ChatApplication() {
       };
       aiMessage.rawEnvelopes = (result.rawEnvelopes ?? undefined) as ToolEnvelope[] | undefined;
       if (result.card) aiMessage.card = result.card as KingaCard;
+      if (result.approval) aiMessage.approval = result.approval;
+      if (result.enrichment) aiMessage.enrichment = result.enrichment;
+      if (uploadErrors.length) aiMessage.content = `_${uploadErrors.join(" ")}_\n\n${aiMessage.content}`;
   
       // 5) Artifact handling (replace/append strategy)
       if (result.artifact) {
@@ -458,11 +633,38 @@ export function ChatApplication() {
       setMessages(finalMessages);
       await saveMessagesToCurrentChat(finalMessages, { suggestedTitle: result.suggestedTitle });
     } catch {
-      setMessages((prev) =>
-        prev.map((m) => (m.id === thinkingMessageId ? { ...m, content: "An error occurred." } : m))
-      );
-      
+      if (abort.signal.aborted) {
+        // Stopped by the user: keep what streamed in and save the turn as cancelled
+        const stoppedMessage: Message = {
+          id: thinkingMessageId,
+          role: "ai",
+          content: streamed || "Stopped.",
+          cancelled: true,
+          ...(enrichment
+            ? {
+                enrichment: {
+                  status: "cancelled" as const,
+                  rows: enrichment.rows.map((r) =>
+                    r.status === "queued" || r.status === "running"
+                      ? { ...r, status: "skipped" as const, note: "Stopped" }
+                      : r
+                  ),
+                },
+              }
+            : {}),
+        };
+        const finalMessages = [...updatedMessages, stoppedMessage];
+        setMessages(finalMessages);
+        await saveMessagesToCurrentChat(finalMessages).catch(() => {});
+      } else {
+        setMessages((prev) =>
+          prev.map((m) => (m.id === thinkingMessageId ? { ...m, content: "An error occurred." } : m))
+        );
+      }
     } finally {
+      abortRef.current = null;
+      setIsSending(false);
+      setLiveStatus(null);
       // Always release optimistic protection so snapshots can take over
       pendingIdsRef.current.delete(userMessage.id);
       pendingIdsRef.current.delete(thinkingMessageId);
@@ -547,6 +749,9 @@ export function ChatApplication() {
                       className={`flex ${isUser ? "justify-end" : "justify-start"}`}
                     >
                       <div className={bubbleClass}>
+                        {liveStatus?.id === message.id && (
+                          <div className="mb-2 text-xs text-muted-foreground">{liveStatus.text}</div>
+                        )}
                         {message.content === "..."
                         ? (
                             // typing dots
@@ -608,7 +813,35 @@ export function ChatApplication() {
                           )
                         }
 
-                        
+                        {message.attachments && message.attachments.length > 0 && (
+                          <div className="mt-2 flex flex-wrap gap-1.5">
+                            {message.attachments.map((a) => (
+                              <span
+                                key={a.id}
+                                className="inline-flex items-center gap-1 rounded-md bg-white/15 px-2 py-0.5 text-xs"
+                                title={a.rows !== undefined ? `${a.rows} rows` : a.pages ? `${a.pages} pages` : undefined}
+                              >
+                                <Paperclip className="h-3 w-3" />
+                                {a.name}
+                              </span>
+                            ))}
+                          </div>
+                        )}
+
+                        {message.approval && (
+                          <ToolApprovalCard
+                            approval={message.approval}
+                            onDecide={(decision, edits, skip) =>
+                              handleApprovalDecision(message.id, message.approval!, decision, edits, skip)
+                            }
+                          />
+                        )}
+
+                        {message.enrichment && <EnrichmentTable enrichment={message.enrichment} />}
+
+                        {message.cancelled && (
+                          <div className="mt-2 text-xs italic text-muted-foreground">Stopped</div>
+                        )}
 
                         {message.artifactId && (
                           <button
@@ -647,7 +880,7 @@ export function ChatApplication() {
           </div>
 
           {/* Chat input */}
-          <ChatInputBox onSend={handleSend} />
+          <ChatInputBox onSend={handleSend} busy={isSending} onStop={handleStop} />
         </div>
 
         {currentArtifact && (
@@ -1,10 +1,20 @@
 "use client";
 
 import { useEffect, useRef, useState } from "react";
-import { Send } from "lucide-react";
+import { FileSpreadsheet, FileText, Paperclip, Send, Square, X } from "lucide-react";
+import {
+  ATTACHMENT_ACCEPT,
+  ATTACHMENT_MAX_FILES,
+  attachmentKindOf,
+  checkAttachmentFile,
+} from "@/lib/attachments/limits";
 
 type Props = {
-  onSend: (text: string) => void;
+  /** `files` are uploaded by the caller (/api/attachments) before the message is sent. */
+  onSend: (text: string, files?: File[]) => void;
+  /** A reply is in flight: the Send button becomes Stop (calls onStop). */
+  busy?: boolean;
+  onStop?: () => void;
   disabled?: boolean;
   placeholder?: string;
   maxRows?: number; // optional, default caps via px value below
@@ -12,11 +22,16 @@ type Props = {
 
 export default function ChatInputBox({
   onSend,
+  busy = false,
+  onStop,
   disabled = false,
   placeholder = "Start typing...",
 }: Props) {
   const [value, setValue] = useState("");
+  const [files, setFiles] = useState<File[]>([]);
+  const [fileError, setFileError] = useState<string | null>(null);
   const taRef = useRef<HTMLTextAreaElement>(null);
+  const fileRef = useRef<HTMLInputElement>(null);
 
   // Smooth auto-resize (cap height ~ 208px ≈ 13rem)
   useEffect(() => {
@@ -26,11 +41,27 @@ export default function ChatInputBox({
     el.style.height = `${Math.min(el.scrollHeight, 208)}px`; // 208px ≈ h-52
   }, [value]);
 
+  const pickFiles = (picked: FileList | null) => {
+    const list = Array.from(picked ?? []);
+    if (fileRef.current) fileRef.current.value = ""; // same file can be picked again
+    if (!list.length) return;
+    // Same checks as /api/attachments, so a bad file is refused before it's uploaded
+    const refused = list.map(checkAttachmentFile).filter((e): e is string => !!e);
+    const ok = list.filter((f) => !checkAttachmentFile(f));
+    const next = [...files, ...ok.filter((f) => !files.some((g) => g.name === f.name && g.size === f.size))];
+    if (next.length > ATTACHMENT_MAX_FILES) refused.push(`Attach at most ${ATTACHMENT_MAX_FILES} files at once.`);
+    setFiles(next.slice(0, ATTACHMENT_MAX_FILES));
+    setFileError(refused[0] ?? null);
+  };
+
   const doSend = () => {
-    const text = value.trim();
-    if (!text || disabled) return;
-    onSend(text);
+    // Files on their own are enough: the model sees their contents
+    const text = value.trim() || (files.length ? `Attached: ${files.map((f) => f.name).join(", ")}` : "");
+    if (!text || disabled || busy) return;
+    onSend(text, files.length ? files : undefined);
     setValue("");
+    setFiles([]);
+    setFileError(null);
     const el = taRef.current;
     if (el) {
       el.style.height = "auto";
@@ -48,6 +79,33 @@ export default function ChatInputBox({
   return (
     <div className="border-t border-border bg-background">
       <div className="mx-auto w-full max-w-3xl px-4 py-4">
+        {(files.length > 0 || fileError) && (
+          <div className="mb-2 flex flex-wrap items-center gap-2 text-xs">
+            {files.map((f) => {
+              const kind = attachmentKindOf(f.name);
+              const Icon = kind === "csv" || kind === "xlsx" ? FileSpreadsheet : FileText;
+              return (
+                <span
+                  key={`${f.name}:${f.size}`}
+                  className="inline-flex items-center gap-1.5 rounded-md border border-border bg-secondary px-2 py-1 text-foreground"
+                >
+                  <Icon className="h-3.5 w-3.5" />
+                  {f.name}
+                  <button
+                    type="button"
+                    onClick={() => setFiles((prev) => prev.filter((g) => g !== f))}
+                    aria-label={`Remove ${f.name}`}
+                    className="text-muted-foreground hover:text-foreground"
+                  >
+                    <X className="h-3.5 w-3.5" />
+                  </button>
+                </span>
+              );
+            })}
+            {fileError && <span className="text-red-600">{fileError}</span>}
+          </div>
+        )}
+
         {/* ChatGPT-like wrapper: not rounded-full */}
         <div
           className="
@@ -57,6 +115,31 @@ export default function ChatInputBox({
             focus-within:border-[#FF3000] focus-within:ring-1 focus-within:ring-[#FF3000]/50
           "
         >
+          <input
+            ref={fileRef}
+            type="file"
+            accept={ATTACHMENT_ACCEPT}
+            multiple
+            className="hidden"
+            onChange={(e) => pickFiles(e.target.files)}
+          />
+          <button
+            type="button"
+            onClick={() => fileRef.current?.click()}
+            disabled={disabled || busy}
+            className="
+              h-10 w-10 shrink-0
+              rounded-lg text-muted-foreground
+              hover:bg-border hover:text-foreground
+              disabled:opacity-50 disabled:cursor-not-allowed
+              flex items-center justify-center
+            "
+            aria-label="Attach files"
+            title="Attach CSV, Excel, text, Markdown or PDF files"
+          >
+            <Paperclip className="h-5 w-5" />
+          </button>
+
           <textarea
             ref={taRef}
             value={value}
@@ -75,22 +158,39 @@ export default function ChatInputBox({
             aria-label="Message input"
           />
 
-          <button
-            type="button"
-            onClick={doSend}
-            disabled={disabled || !value.trim()}
-            className="
-              h-10 w-10 shrink-0
-              rounded-lg bg-[#FF3000] text-white
-              hover:bg-[#e62b00]
-              disabled:opacity-50 disabled:cursor-not-allowed
-              flex items-center justify-center
-            "
-            aria-label="Send message"
-            title="Send"
-          >
-            <Send className="h-5 w-5" />
-          </button>
+          {busy && onStop ? (
+            <button
+              type="button"
+              onClick={onStop}
+              className="
+                h-10 w-10 shrink-0
+                rounded-lg bg-foreground text-background
+                hover:opacity-90
+                flex items-center justify-center
+              "
+              aria-label="Stop generating"
+              title="Stop"
+            >
+              <Square className="h-4 w-4 fill-current" />
+            </button>
+          ) : (
+            <button
+              type="button"
+              onClick={doSend}
+              disabled={disabled || (!value.trim() && files.length === 0)}
+              className="
+                h-10 w-10 shrink-0
+                rounded-lg bg-[#FF3000] text-white
+                hover:bg-[#e62b00]
+                disabled:opacity-50 disabled:cursor-not-allowed
+                flex items-center justify-center
+              "
+              aria-label="Send message"
+              title="Send"
+            >
+              <Send className="h-5 w-5" />
+            </button>
+          )}
         </div>
 
         <p className="mt-2 text-center text-xs text-muted-foreground">
@@ -0,0 +1,116 @@
+"use client";
+
+import * as React from "react";
+import { Download } from "lucide-react";
+import type { BatchEnrichment, EnrichmentRow } from "@/types/types";
+
+type Props = {
+  enrichment: BatchEnrichment;
+};
+
+const STATUS_TEXT: Record<EnrichmentRow["status"], string> = {
+  queued: "Queued",
+  running: "Looking up…",
+  found: "Found",
+  not_found: "No email",
+  error: "Failed",
+  skipped: "Skipped",
+};
+
+const STATUS_CLASS: Record<EnrichmentRow["status"], string> = {
+  queued: "text-muted-foreground",
+  running: "text-[#FF3000]",
+  found: "text-green-600",
+  not_found: "text-muted-foreground",
+  error: "text-red-600",
+  skipped: "text-muted-foreground",
+};
+
+/** "in/jane-doe" for display. */
+function shortProfile(url: string) {
+  return url.replace(/^https?:\/\/(www\.)?linkedin\.com\//i, "");
+}
+
+function downloadCsv(csv: string) {
+  const blob = new Blob([csv], { type: "text/csv;charset=utf-8" });
+  const href = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = href;
+  a.download = `email-lookup-${new Date().toISOString().slice(0, 10)}.csv`;
+  a.click();
+  URL.revokeObjectURL(href);
+}
+
+export default function EnrichmentTable({ enrichment }: Props) {
+  const { rows, status, csv } = enrichment;
+  const finished = rows.filter((r) => r.status !== "queued" && r.status !== "running").length;
+  const found = rows.filter((r) => r.status === "found").length;
+
+  return (
+    <div className="mt-3 rounded-2xl border border-border bg-card text-card-foreground shadow-sm p-4 md:p-5">
+      <div className="mb-3 flex items-center justify-between gap-3">
+        <div>
+          <div className="text-base font-semibold">Email lookup · {rows.length} profiles</div>
+          <div className="text-xs text-muted-foreground">
+            {status === "running"
+              ? `${finished}/${rows.length} done · ${found} found`
+              : status === "cancelled"
+              ? `Stopped after ${finished}/${rows.length} · ${found} found`
+              : `${found} of ${rows.length} emails found`}
+          </div>
+        </div>
+        {csv && (
+          <button
+            type="button"
+            onClick={() => downloadCsv(csv)}
+            className="px-3 py-1.5 text-sm bg-secondary hover:bg-border text-secondary-foreground rounded-md transition-colors flex items-center gap-1.5"
+          >
+            <Download className="w-4 h-4" /> CSV
+          </button>
+        )}
+      </div>
+
+      {status === "running" && (
+        <div className="mb-3 h-1.5 w-full overflow-hidden rounded-full bg-muted">
+          <div
+            className="h-full bg-[#FF3000] transition-all"
+            style={{ width: `${rows.length ? Math.round((finished / rows.length) * 100) : 0}%` }}
+          />
+        </div>
+      )}
+
+      <div className="max-h-96 overflow-auto">
+        <table className="w-full text-left text-sm">
+          <thead className="sticky top-0 bg-card text-xs text-muted-foreground">
+            <tr>
+              <th className="py-1.5 pr-3 font-medium">Profile</th>
+              <th className="py-1.5 pr-3 font-medium">Name</th>
+              <th className="py-1.5 pr-3 font-medium">Title</th>
+              <th className="py-1.5 pr-3 font-medium">Email</th>
+              <th className="py-1.5 font-medium">Status</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((r) => (
+              <tr key={r.linkedinUrl} className="border-t border-border align-top">
+                <td className="py-1.5 pr-3">
+                  <a href={r.linkedinUrl} target="_blank" rel="noreferrer" className="hover:underline break-all">
+                    {shortProfile(r.linkedinUrl)}
+                  </a>
+                </td>
+                <td className="py-1.5 pr-3">{r.name ?? ""}</td>
+                <td className="py-1.5 pr-3 text-muted-foreground">{r.title ?? ""}</td>
+                <td className="py-1.5 pr-3 break-all">{r.email ?? ""}</td>
+                <td className={`py-1.5 whitespace-nowrap ${STATUS_CLASS[r.status]}`} title={r.note}>
+                  {STATUS_TEXT[r.status]}
+                  {r.emailStatus && r.status === "found" ? ` · ${r.emailStatus}` : ""}
+                  {r.cached ? " · cached" : ""}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
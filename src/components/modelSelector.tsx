@@ -10,6 +10,8 @@ interface ModelSelectorProps {
   selectedModel: ModelConfig;
   onModelChange: (model: ModelConfig) => void;
   disabled?: boolean;
+  /** Models the user may pick (from /api/availableModels); defaults to the static list */
+  models?: ModelConfig[];
 }
 
 const getProviderIcon = (provider: string) => {
@@ -38,7 +40,7 @@ const getProviderColor = (provider: string) => {
   }
 };
 
-export default function ModelSelector({ selectedModel, onModelChange, disabled }: ModelSelectorProps) {
+export default function ModelSelector({ selectedModel, onModelChange, disabled, models = AVAILABLE_MODELS }: ModelSelectorProps) {
   const [isOpen, setIsOpen] = useState(false);
   
   // Use the passed model or fall back to default
@@ -73,7 +75,7 @@ export default function ModelSelector({ selectedModel, onModelChange, disabled }
               <div className="text-xs text-gray-400 px-2 py-1 font-medium">
                 Available Models
               </div>
-              {AVAILABLE_MODELS.map((model) => (
+              {models.map((model) => (
                 <button
                   key={model.id}
                   onClick={() => {
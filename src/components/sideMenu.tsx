@@ -4,7 +4,7 @@ import { useState, useEffect } from "react";
 import Link from "next/link";
 import Image from "next/image";
 import { useTheme } from "next-themes";
-import { Trash2, Menu, Plus, Sun, Moon, LineChart } from "lucide-react";
+import { Trash2, Menu, Plus, Sun, Moon, LineChart, DollarSign } from "lucide-react";
 import { Chat } from "@/types/types";
 import { Auth } from "./Auth";
 
@@ -39,41 +39,46 @@ export default function SideMenu({
 
   // NEW: permission flag for Activity page
   const [canSeeActivity, setCanSeeActivity] = useState<boolean | null>(null);
+  const [canSeeUsage, setCanSeeUsage] = useState<boolean | null>(null);
 
   // mount flag for theme icon
   const [mounted, setMounted] = useState(false);
   useEffect(() => setMounted(true), []);
 
-  // Subscribe to featurePermissions/activity for current user
+  // Subscribe to featurePermissions/{activity,usage} for current user
   useEffect(() => {
-    let unsubPerm: (() => void) | null = null;
+    let unsubPerms: Array<() => void> = [];
 
-    const unsubAuth = auth.onAuthStateChanged((u) => {
-      if (unsubPerm) {
-        unsubPerm();
-        unsubPerm = null;
-      }
-      if (!u) {
-        setCanSeeActivity(false);
-        return;
-      }
-
-      const ref = doc(db, "users", u.uid, "featurePermissions", "activity");
-      unsubPerm = onSnapshot(
-        ref,
+    const watch = (uid: string, feature: string, set: (ok: boolean) => void) =>
+      onSnapshot(
+        doc(db, "users", uid, "featurePermissions", feature),
         (snap) => {
           const ok =
             snap.exists() &&
             ((snap.data() as { enabled?: boolean } | undefined)?.enabled === true);
-          setCanSeeActivity(!!ok);
+          set(!!ok);
         },
-        () => setCanSeeActivity(false)
+        () => set(false)
       );
+
+    const unsubAuth = auth.onAuthStateChanged((u) => {
+      unsubPerms.forEach((fn) => fn());
+      unsubPerms = [];
+      if (!u) {
+        setCanSeeActivity(false);
+        setCanSeeUsage(false);
+        return;
+      }
+
+      unsubPerms = [
+        watch(u.uid, "activity", setCanSeeActivity),
+        watch(u.uid, "usage", setCanSeeUsage),
+      ];
     });
 
     return () => {
       unsubAuth();
-      if (unsubPerm) unsubPerm();
+      unsubPerms.forEach((fn) => fn());
     };
   }, []);
 
@@ -206,6 +211,20 @@ export default function SideMenu({
           </Link>
         )}
 
+        {/* [USAGE] spend per model/tool (managers also see per user) */}
+        {canSeeUsage && (
+          <Link
+            href="/usage"
+            className={`mt-2 w-full flex items-center gap-3 px-3 py-2 rounded-md
+                        text-foreground hover:bg-secondary hover:text-foreground transition-colors
+                        ${collapsed ? "justify-center" : ""}`}
+            aria-label="Open Usage"
+          >
+            <DollarSign className="w-5 h-5" />
+            {!collapsed && <span>Usage</span>}
+          </Link>
+        )}
+
         {/* Theme toggle (kept as-is) */}
         <button
           onClick={() => setTheme(theme === "dark" ? "light" : "dark")}
@@ -0,0 +1,187 @@
+"use client";
+
+import * as React from "react";
+import { Check, Edit3, X } from "lucide-react";
+import type { ToolApproval, ToolApprovalField } from "@/types/types";
+import type { ToolApprovalDecision } from "@/lib/client/decideToolApproval";
+
+type Props = {
+  approval: ToolApproval;
+  /** Resolves with an error message to show, or null when the decision went through. */
+  onDecide: (
+    decision: ToolApprovalDecision,
+    edits?: Record<string, string>,
+    skip?: string[]
+  ) => Promise<string | null>;
+};
+
+const STATUS_TEXT: Record<ToolApproval["status"], string> = {
+  pending: "Waiting for your approval",
+  approved: "Approved",
+  rejected: "Rejected",
+  failed: "Approved, but the tool failed",
+  expired: "Expired",
+};
+
+const RECORD_TEXT: Record<NonNullable<ToolApproval["currentRecord"]>, string> = {
+  found: "Compared with the current record. Untick any change you don’t want written.",
+  none: "No existing record — this creates a new one. Untick any field you don’t want written.",
+  unavailable: "Couldn’t load the current record, so these are the values that will be written.",
+};
+
+/** Fields grouped by section, in their original order. */
+function groupFields(fields: ToolApprovalField[]) {
+  const groups: Array<{ title?: string; fields: ToolApprovalField[] }> = [];
+  for (const f of fields) {
+    const last = groups[groups.length - 1];
+    if (last && last.title === f.section) last.fields.push(f);
+    else groups.push({ title: f.section, fields: [f] });
+  }
+  return groups;
+}
+
+export default function ToolApprovalCard({ approval, onDecide }: Props) {
+  const [editing, setEditing] = React.useState(false);
+  const [draft, setDraft] = React.useState<Record<string, string>>({});
+  // Paths the user unticked; left out of the write
+  const [skipped, setSkipped] = React.useState<Set<string>>(new Set());
+  const [busy, setBusy] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+
+  const pending = approval.status === "pending";
+  const groups = React.useMemo(() => groupFields(approval.fields), [approval.fields]);
+
+  const decide = async (decision: ToolApprovalDecision) => {
+    setBusy(true);
+    setError(null);
+    // Only send fields that actually changed (and are still ticked)
+    const edits = Object.fromEntries(
+      Object.entries(draft).filter(
+        ([path, v]) => !skipped.has(path) && approval.fields.find((f) => f.path === path)?.value !== v
+      )
+    );
+    const skip = Array.from(skipped);
+    const err =
+      decision === "approve"
+        ? await onDecide(decision, Object.keys(edits).length ? edits : undefined, skip.length ? skip : undefined)
+        : await onDecide(decision);
+    setBusy(false);
+    if (err) return setError(err);
+    // The returned approval carries the values that ran
+    setEditing(false);
+    setDraft({});
+    setSkipped(new Set());
+  };
+
+  const toggleSkip = (path: string) =>
+    setSkipped((prev) => {
+      const next = new Set(prev);
+      if (next.has(path)) next.delete(path);
+      else next.add(path);
+      return next;
+    });
+
+  const statusClass =
+    approval.status === "approved"
+      ? "text-green-600"
+      : approval.status === "pending"
+      ? "text-[#FF3000]"
+      : "text-muted-foreground";
+
+  return (
+    <div className="mt-3 rounded-2xl border border-border bg-card text-card-foreground shadow-sm p-4 md:p-5">
+      <div className="mb-1 flex items-center justify-between gap-3">
+        <div className="text-base font-semibold">{approval.label} · review changes</div>
+        <span className={`text-xs font-medium ${statusClass}`}>{STATUS_TEXT[approval.status]}</span>
+      </div>
+      {approval.outcome && <div className="mb-3 text-sm text-muted-foreground">{approval.outcome}</div>}
+      {pending && approval.currentRecord && (
+        <div className="mb-3 text-xs text-muted-foreground">{RECORD_TEXT[approval.currentRecord]}</div>
+      )}
+
+      <div className="space-y-4">
+        {groups.map((g, gi) => (
+          <div key={gi}>
+            {g.title && <div className="mb-1 text-sm font-medium text-foreground">{g.title}</div>}
+            <dl className="grid grid-cols-1 md:grid-cols-[160px_1fr] gap-x-4 gap-y-1.5 text-sm">
+              {g.fields.map((f) => {
+                const selectable = pending && (f.change === "new" || f.change === "changed");
+                const off = skipped.has(f.path);
+                return (
+                  <React.Fragment key={f.path}>
+                    <dt className="text-muted-foreground flex items-start gap-1.5">
+                      {selectable && (
+                        <input
+                          type="checkbox"
+                          checked={!off}
+                          disabled={busy}
+                          onChange={() => toggleSkip(f.path)}
+                          className="mt-1 accent-[#FF3000]"
+                          aria-label={`Write ${f.label}`}
+                        />
+                      )}
+                      <span>{f.label}:</span>
+                    </dt>
+                    <dd className={`min-w-0 break-words ${off || f.change === "same" ? "text-muted-foreground" : ""}`}>
+                      {f.change === "changed" && f.previous !== undefined && (
+                        <span className="mr-1.5">
+                          <s className="text-muted-foreground">{f.previous || "(empty)"}</s> →
+                        </span>
+                      )}
+                      {editing && f.editable && !off ? (
+                        <input
+                          value={draft[f.path] ?? f.value}
+                          onChange={(e) => setDraft((d) => ({ ...d, [f.path]: e.target.value }))}
+                          className="w-full rounded-md border border-border bg-background px-2 py-1 text-sm outline-none focus:border-[#FF3000]"
+                          aria-label={f.label}
+                        />
+                      ) : (
+                        <span className={`whitespace-pre-wrap ${off ? "line-through" : ""}`}>{draft[f.path] ?? f.value}</span>
+                      )}
+                      {f.change === "new" && <span className="ml-1.5 text-xs text-green-600">new</span>}
+                      {f.change === "same" && <span className="ml-1.5 text-xs">unchanged</span>}
+                    </dd>
+                  </React.Fragment>
+                );
+              })}
+            </dl>
+          </div>
+        ))}
+        {approval.fields.length === 0 && (
+          <div className="text-sm text-muted-foreground">No fields to show.</div>
+        )}
+      </div>
+
+      {error && <div className="mt-3 text-sm text-red-600">{error}</div>}
+
+      {pending && (
+        <div className="mt-4 flex flex-wrap justify-end gap-2">
+          <button
+            type="button"
+            disabled={busy}
+            onClick={() => decide("reject")}
+            className="px-3 py-1.5 text-sm bg-muted hover:bg-border text-muted-foreground rounded-md transition-colors flex items-center gap-1.5 disabled:opacity-50"
+          >
+            <X className="w-4 h-4" /> Reject
+          </button>
+          <button
+            type="button"
+            disabled={busy}
+            onClick={() => setEditing((e) => !e)}
+            className="px-3 py-1.5 text-sm bg-secondary hover:bg-border text-secondary-foreground rounded-md transition-colors flex items-center gap-1.5 disabled:opacity-50"
+          >
+            <Edit3 className="w-3 h-3" /> {editing ? "Done editing" : "Edit"}
+          </button>
+          <button
+            type="button"
+            disabled={busy}
+            onClick={() => decide("approve")}
+            className="px-3 py-1.5 text-sm bg-green-600 hover:bg-green-700 text-white rounded-md transition-colors flex items-center gap-1.5 disabled:opacity-50"
+          >
+            <Check className="w-4 h-4" /> {busy ? "Working…" : "Approve"}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -22,24 +22,25 @@ const ALL_MODELS: ModelConfig[] = [
 ];
 
 
-// Function to get available models based on API keys
-export async function getAvailableModels(): Promise<ModelConfig[]> {
+// Models the signed-in user may use, from the server registry (/api/availableModels).
+// Pass the Firebase ID token so per-user/org policy applies.
+export async function getAvailableModels(idToken?: string): Promise<ModelConfig[]> {
   try {
-    const response = await fetch('/api/available-models');
-    const data = await response.json();
-    
-    return ALL_MODELS.filter(model => {
-      return data.availableProviders.includes(model.provider);
+    const response = await fetch('/api/availableModels', {
+      headers: idToken ? { Authorization: `Bearer ${idToken}` } : {},
     });
+    const data = await response.json();
+
+    return Array.isArray(data.models) ? (data.models as ModelConfig[]) : [];
   } catch (error) {
     console.error('Failed to fetch available models:', error);
-    // Fallback to Gemini if we can't determine available models
-    return ALL_MODELS.filter(model => model.provider === 'Google');
+    // Fallback to the full list; /api/chat still remaps anything not allowed
+    return ALL_MODELS;
   }
 }
 
 // Export all models for components that need the full list
 export const AVAILABLE_MODELS = ALL_MODELS;
 
-// Default fallback model (assuming Gemini is most likely to be configured)
-export const DEFAULT_MODEL = ALL_MODELS.find(m => m.id === 'gemini-flash') || ALL_MODELS[0];
\ No newline at end of file
+// Default fallback model
+export const DEFAULT_MODEL = ALL_MODELS.find(m => m.id === 'gpt-4-turbo') || ALL_MODELS[0];
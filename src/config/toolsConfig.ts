@@ -6,17 +6,27 @@
  * - MCP_SERVER_TOOL: a single “gateway” tool (kinga_agent) that represents your n8n MCP server.
  * - toolCatalogForLLM(): merges internal tools + gateway for model exposure.
  * - MCP_SERVER: endpoint + auth header for the n8n MCP gateway (from env).
- * - MCP_TOOL_IDS: stable mapping of friendly tool names → actual MCP ids:
- *     email_finder → "email_finder"
- *     search → "search"
- *     crm    → "crm"
+ * - MCP_SERVERS: every MCP server (n8n + env MCP_SERVERS) with transport, auth headers,
+ *   enabled tools, namespace and which orgs/users may use it.
+ * - MCP_TOOL_IDS: friendly tool names → actual MCP ids (env-overridable):
+ *     email_finder → MCP_TOOL_ID_EMAIL_FINDER (default "TestEmailFinder")
+ *     search       → MCP_TOOL_ID_SEARCH       (default "TestSearch")
+ *     crm          → MCP_TOOL_ID_CRM          (default "TestCRM")
+ *     crm_lookup   → MCP_TOOL_ID_CRM_LOOKUP   (no default: read-only record lookup for the
+ *                    CRM approval preview; unset = no preview)
+ * - MCP_TOOLS: the declarative registry of MCP tools (schema, MCP id, permission key,
+ *   argument check, timeout, failure message, title, approval hooks for writes).
+ *   /api/chat dispatches from it.
+ * - MCP_TOOL_OVERRIDES: description/permission/hidden tweaks for tools the server
+ *   advertises via tools/list (merged in lib/tools/discovery.ts).
  *
  * Notes:
- * - Keep MCP_TOOL_IDS as the single source of truth; runners import it to hit
- *   the correct n8n workflow.
+ * - Adding an n8n workflow = one MCP_TOOLS entry; the generic runner
+ *   (lib/tools/runners/mcpTool.ts) and the route need no changes.
  * - Don’t put secrets here (read from env via MCP_SERVER).
  */
 
+import { jsonArgApproval, type ToolApprovalHooks } from "@/lib/tools/approvalFields";
 
 export type AITool = {
   name: string;
@@ -32,7 +42,7 @@ export const INTERNAL_TOOLS: AITool[] = [
     parameters: {
       type: "object",
       properties: {
-        title: { type: "string" },
+        title: { type: "string", minLength: 1 },
         content: { type: "string" },
       },
       required: ["title", "content"],
@@ -90,65 +100,337 @@ export const MCP_SERVER = {
   authHeaderName: process.env.N8N_AUTH_HEADER_NAME || "kinga_key",
   authHeaderValue: process.env.N8N_AUTH_HEADER_VALUE || "",
 };
+
+/**
+ * How we talk to an MCP server (see mcpClient.ts):
+ * "streamable-http", legacy "sse", or "auto" (Streamable HTTP, falling back to SSE).
+ */
+export type McpTransport = "streamable-http" | "sse" | "auto";
+
+const MCP_TRANSPORTS: McpTransport[] = ["streamable-http", "sse", "auto"];
+
+const readTransport = (v: unknown, fallback: McpTransport): McpTransport =>
+  MCP_TRANSPORTS.includes(v as McpTransport) ? (v as McpTransport) : fallback;
+
+/**
+ * One MCP server the tool dispatcher can route to.
+ * The n8n gateway above is always present as DEFAULT_MCP_SERVER_ID; more come from
+ * env MCP_SERVERS (JSON array of this shape, secrets via `headersFromEnv`).
+ */
+export type McpServerConfig = {
+  id: string;
+  label: string;
+  endpoint: string;
+  transport: McpTransport;
+  /** Sent on every request, e.g. { kinga_key: "…" }. */
+  headers: Record<string, string>;
+  /** LLM tool name prefix: "warehouse" → "warehouse__run_query". None for the default server. */
+  namespace?: string;
+  /** MCP ids exposed from this server; omitted = everything it lists. */
+  enabledTools?: string[];
+  /** Access: omitted/empty both = everyone; otherwise the user or their org must be listed. */
+  allowedOrgs?: string[];
+  allowedUsers?: string[];
+};
+
+export const DEFAULT_MCP_SERVER_ID = "n8n";
+
+const stringList = (v: unknown): string[] | undefined =>
+  Array.isArray(v) ? v.filter((x): x is string => typeof x === "string") : undefined;
+
+/** Parse env MCP_SERVERS; invalid entries are skipped with a warning. */
+function readExtraMcpServers(): McpServerConfig[] {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(process.env.MCP_SERVERS || "[]");
+  } catch {
+    console.warn("[mcp] MCP_SERVERS is not valid JSON; ignored");
+    return [];
+  }
+  if (!Array.isArray(raw)) return [];
+
+  const out: McpServerConfig[] = [];
+  for (const entry of raw as Array<Record<string, unknown>>) {
+    const id = typeof entry?.id === "string" ? entry.id.trim() : "";
+    const endpoint = typeof entry?.endpoint === "string" ? entry.endpoint : "";
+    if (!id || !endpoint || id === DEFAULT_MCP_SERVER_ID) {
+      console.warn("[mcp] MCP_SERVERS entry needs a unique id and an endpoint; skipped", id);
+      continue;
+    }
+
+    // { "Authorization": "WAREHOUSE_MCP_TOKEN" } → header value read from that env var
+    const headers: Record<string, string> = {};
+    for (const [k, v] of Object.entries((entry.headers as Record<string, unknown>) ?? {})) {
+      if (typeof v === "string") headers[k] = v;
+    }
+    for (const [k, envName] of Object.entries((entry.headersFromEnv as Record<string, unknown>) ?? {})) {
+      if (typeof envName === "string" && process.env[envName]) headers[k] = process.env[envName]!;
+    }
+
+    out.push({
+      id,
+      label: typeof entry.label === "string" ? entry.label : id,
+      endpoint,
+      transport: readTransport(entry.transport, "auto"),
+      headers,
+      namespace: typeof entry.namespace === "string" && entry.namespace ? entry.namespace : id,
+      enabledTools: stringList(entry.enabledTools),
+      allowedOrgs: stringList(entry.allowedOrgs),
+      allowedUsers: stringList(entry.allowedUsers),
+    });
+  }
+  return out;
+}
+
+export const MCP_SERVERS: McpServerConfig[] = [
+  {
+    id: DEFAULT_MCP_SERVER_ID,
+    label: "n8n",
+    endpoint: MCP_SERVER.endpoint,
+    // n8n's MCP trigger speaks legacy SSE; N8N_MCP_TRANSPORT=auto once it serves Streamable HTTP
+    transport: readTransport(process.env.N8N_MCP_TRANSPORT, "sse"),
+    headers: MCP_SERVER.authHeaderValue ? { [MCP_SERVER.authHeaderName]: MCP_SERVER.authHeaderValue } : {},
+  },
+  ...readExtraMcpServers(),
+];
+
+export function getMcpServer(id: string): McpServerConfig | undefined {
+  return MCP_SERVERS.find((srv) => srv.id === id);
+}
+
+/** Servers this user may use (per-server allowedUsers / allowedOrgs). */
+export function mcpServersForUser(userId: string, orgId: string | null): McpServerConfig[] {
+  return MCP_SERVERS.filter((srv) => {
+    const users = srv.allowedUsers ?? [];
+    const orgs = srv.allowedOrgs ?? [];
+    if (!users.length && !orgs.length) return true;
+    return users.includes(userId) || (!!orgId && orgs.includes(orgId));
+  });
+}
+/**
+ * MCP ids of the n8n workflows, overridable per deployment.
+ * Defaults are the ids the n8n server currently exposes.
+ */
 export const MCP_TOOL_IDS = {
-  email_finder: "email_finder",
-  search: "search",
-  crm: "crm",
+  email_finder: process.env.MCP_TOOL_ID_EMAIL_FINDER || "TestEmailFinder",
+  search: process.env.MCP_TOOL_ID_SEARCH || "TestSearch",
+  crm: process.env.MCP_TOOL_ID_CRM || "TestCRM",
+  crm_lookup: process.env.MCP_TOOL_ID_CRM_LOOKUP || "",
 } as const;
 
+/** Result of a tool's argument check: normalized args, or a message for the user/model. */
+export type ToolArgsCheck =
+  | { ok: true; args: Record<string, unknown> }
+  | { ok: false; message: string };
 
-// === LLM-visible MCP tools (names the model will call) ===
-export const EXTERNAL_MCP_TOOLS_FOR_LLM = [
+/**
+ * One MCP-backed tool, end to end. /api/chat dispatches purely from this, so a new
+ * n8n workflow is one entry here (no route changes).
+ */
+export type McpToolDefinition = {
+  /** Name the model calls (also the Activity/usage tool id); namespaced for non-default servers. */
+  name: string;
+  /** Which MCP_SERVERS entry runs it. */
+  serverId: string;
+  /** Tool id on the MCP server. */
+  mcpId: string;
+  /** Doc id under users/{uid}/toolPermissions that enables it. */
+  permissionKey: string;
+  /** Human label, e.g. "Search" → “You don’t have access to the Search tool.” */
+  label: string;
+  /** Offered to the model; `parameters` is enforced on its arguments (lib/tools/schema.ts). */
+  llm: AITool;
+  timeoutMs?: number;
+  /** Normalize/validate the model's arguments before anything is sent to n8n. */
+  validateArgs: (args: Record<string, unknown>) => ToolArgsCheck;
+  /** Said (and fed back to the model) when the MCP call fails. */
+  failureMessage: string;
+  /** Chat title when the LLM doesn't suggest one. */
+  fallbackTitle: (args: Record<string, unknown>, envelope: { data?: unknown }) => string;
+  /** Registered/discovered but never offered to the model. */
+  hidden?: boolean;
+  /** Safe to call twice with the same args (reads); transient failures are retried. */
+  idempotent?: boolean;
+  /**
+   * For writes: the idempotency key carried in these args, if any. The server dedupes on it,
+   * so a call that has one may be retried like an idempotent tool (lib/tools/retry.ts).
+   */
+  idempotencyKey?: (args: Record<string, unknown>) => string | undefined;
+  /**
+   * Write tool: the model's call becomes a pending approval card; it only runs once the user
+   * approves (or edits, then approves) the fields in chat (lib/tools/approvals.ts).
+   */
+  approval?: ToolApprovalHooks;
+};
+
+/**
+ * Local tweaks for tools discovered via MCP tools/list, keyed by "<serverId>:<MCP id>"
+ * (plain MCP id also works for the default server).
+ * Also read from env MCP_TOOL_OVERRIDES (JSON, same shape; env wins).
+ */
+export type McpToolOverride = {
+  /** LLM-visible name before namespacing (default: MCP id in snake_case). */
+  name?: string;
+  label?: string;
+  description?: string;
+  permissionKey?: string;
+  hidden?: boolean;
+  /** Mark a discovered tool safe to retry (default: the server's idempotentHint / readOnlyHint). */
+  idempotent?: boolean;
+  /** Hold calls for the user's approval (default: the server's destructiveHint). */
+  requiresApproval?: boolean;
+};
+
+export const MCP_TOOL_OVERRIDES: Record<string, McpToolOverride> = {};
+
+const str = (v: unknown) => (typeof v === "string" ? v : v == null ? "" : String(v)).trim();
+
+export const MCP_TOOLS: McpToolDefinition[] = [
   {
     name: "search",
-    description:
-      "Search the current web and extract facts with citations. Input: agent_query (a search-style query). Returns structured findings and source links.",
-    parameters: {
-      type: "object",
-      properties: {
-        agent_query: { type: "string", description: "Web search query/topic." },
+    serverId: DEFAULT_MCP_SERVER_ID,
+    mcpId: MCP_TOOL_IDS.search,
+    permissionKey: "search",
+    label: "Search",
+    timeoutMs: 30_000,
+    idempotent: true,
+    llm: {
+      name: "search",
+      description:
+        "Search the current web and extract facts with citations. Input: agent_query (a search-style query). Returns structured findings and source links.",
+      parameters: {
+        type: "object",
+        properties: {
+          agent_query: { type: "string", minLength: 1, description: "Web search query/topic." },
+        },
+        required: ["agent_query"],
       },
-      required: ["agent_query"],
+    },
+    validateArgs: (args) => {
+      const agent_query = str(args.agent_query);
+      return agent_query
+        ? { ok: true, args: { agent_query } }
+        : { ok: false, message: "I need a search query. Try: “Search for <topic>…”" };
+    },
+    failureMessage:
+      "Search tool failed. I can still summarize what I know, or you can try rephrasing the query.",
+    fallbackTitle: (args) => {
+      const q = str(args.agent_query);
+      return (q.length > 60 ? q.slice(0, 57) + "…" : q) || "Search";
     },
   },
   {
     name: "email_finder",
-    description:
-      "Find a professional email from a LinkedIn /in/ profile URL. Requires a direct LinkedIn profile URL.",
-    parameters: {
-      type: "object",
-      properties: {
-        linkedin_url: { type: "string", description: "https://www.linkedin.com/in/..." },
+    serverId: DEFAULT_MCP_SERVER_ID,
+    mcpId: MCP_TOOL_IDS.email_finder,
+    permissionKey: "email_finder",
+    label: "Email Finder",
+    timeoutMs: 30_000,
+    idempotent: true,
+    llm: {
+      name: "email_finder",
+      description:
+        "Find a professional email from a LinkedIn /in/ profile URL. Requires a direct LinkedIn profile URL.",
+      parameters: {
+        type: "object",
+        properties: {
+          linkedin_url: {
+            type: "string",
+            pattern: "^https?://([a-z0-9-]+\\.)?linkedin\\.com/in/[^/?#\\s]+",
+            description: "https://www.linkedin.com/in/...",
+          },
+        },
+        required: ["linkedin_url"],
       },
-      required: ["linkedin_url"],
     },
+    validateArgs: (args) => {
+      const linkedin_url = str(args.linkedin_url);
+      return linkedin_url
+        ? { ok: true, args: { linkedin_url } }
+        : {
+            ok: false,
+            message:
+              "Please paste a LinkedIn profile URL (e.g., https://www.linkedin.com/in/username/) so I can look up the email.",
+          };
+    },
+    failureMessage:
+      "The email lookup tool had a problem. You can ask me to try again, or I can draft an outreach email instead.",
+    fallbackTitle: () => "Email result",
   },
   {
     name: "crm",
-    description:
-      "Create/update/search contacts/companies in CRM with safe upsert semantics. Input a crm_handoff_package (stringified JSON).",
-    parameters: {
-      type: "object",
-      properties: {
-        crm_handoff_package: {
-          type: "string",
-          description: "Stringified JSON describing the CRM action and fields.",
+    serverId: DEFAULT_MCP_SERVER_ID,
+    mcpId: MCP_TOOL_IDS.crm,
+    permissionKey: "crm",
+    label: "CRM",
+    timeoutMs: 30_000,
+    llm: {
+      name: "crm",
+      description:
+        "Create/update/search contacts/companies in CRM with safe upsert semantics. Input a crm_handoff_package (stringified JSON).",
+      parameters: {
+        type: "object",
+        properties: {
+          crm_handoff_package: {
+            type: "string",
+            description: "Stringified JSON describing the CRM action and fields.",
+            // Must parse to a non-empty object; anything else is bounced back to the model
+            contentMediaType: "application/json",
+            contentSchema: { type: "object", minProperties: 1 },
+          },
         },
+        required: ["crm_handoff_package"],
       },
-      required: ["crm_handoff_package"],
+    },
+    validateArgs: (args) => {
+      const raw = args.crm_handoff_package;
+      // A package sent as an object instead of a JSON string is still usable when non-empty
+      const pkg =
+        raw && typeof raw === "object" ? (Object.keys(raw).length ? JSON.stringify(raw) : "") : str(raw);
+      return pkg
+        ? { ok: true, args: { crm_handoff_package: pkg } }
+        : {
+            ok: false,
+            message:
+              "I need CRM details to proceed (contact/company fields, intent, etc.). Tell me what you want to add/update.",
+          };
+    },
+    // Upserts wait for the user's approval. With a read-only lookup workflow configured, the card
+    // diffs the package against the CRM record (the lookup answers data.existing)
+    approval: jsonArgApproval("crm_handoff_package", ["idempotency_key"], MCP_TOOL_IDS.crm_lookup || undefined),
+    // Upserts: only retried when the handoff package carries an idempotency_key
+    idempotencyKey: (args) => {
+      try {
+        const pkg = JSON.parse(String(args.crm_handoff_package ?? "")) as { idempotency_key?: unknown };
+        return str(pkg?.idempotency_key) || undefined;
+      } catch {
+        return undefined;
+      }
+    },
+    failureMessage:
+      "CRM tool failed after the request. If partial data was prepared, I can still present it—otherwise try again with clearer details.",
+    fallbackTitle: (_args, envelope) => {
+      const entity = (envelope.data as { entity?: unknown } | undefined)?.entity;
+      return `CRM · ${String(entity || "CRM").replace(/_/g, " ")}`;
     },
   },
 ];
 
-// Build tool list for a given user's permissions (adds only allowed MCP tools)
-export function llmToolsForPermissions(perms?: Record<string, boolean>) {
-  const allow = (k: string) => !!perms?.[k];
-  const mcpTools = EXTERNAL_MCP_TOOLS_FOR_LLM.filter((t) => {
-    // map tool -> permission key
-    if (t.name === "search") return allow("search");
-    if (t.name === "email_finder") return allow("email_finder");
-    if (t.name === "crm") return allow("crm");
-    return false;
-  });
+export function getMcpTool(name: string): McpToolDefinition | undefined {
+  return MCP_TOOLS.find((t) => t.name === name);
+}
+
+// === LLM-visible MCP tools (names the model will call) ===
+export const EXTERNAL_MCP_TOOLS_FOR_LLM: AITool[] = MCP_TOOLS.map((t) => t.llm);
+
+// Build tool list for a given user's permissions (adds only allowed MCP tools).
+// Pass the discovered registry (lib/tools/discovery.ts) to include new workflows.
+export function llmToolsForPermissions(
+  perms?: Record<string, boolean>,
+  registry: McpToolDefinition[] = MCP_TOOLS
+) {
+  const mcpTools = registry
+    .filter((t) => !t.hidden && !!perms?.[t.permissionKey])
+    .map((t) => t.llm);
   return [...INTERNAL_TOOLS, ...mcpTools];
 }
@@ -55,6 +55,7 @@ const toChat = (d: ChatDoc): Chat => ({
   messages:d.messages as unknown as Message[],
   artifacts: d.artifacts,
   modelConfig: d.modelConfig,
+  summary: d.summary,
   createdAt: toMillis(d.createdAt),
   updatedAt: toMillis(d.updatedAt),
 });
@@ -77,6 +78,7 @@ const chatDocConverter: FirestoreDataConverter<ChatDoc> = {
       id: snap.id,
       title: typeof data.title === "string" ? data.title : "New chat",
       modelConfig: data.modelConfig as Chat["modelConfig"],
+      ...(data.summary ? { summary: data.summary as Chat["summary"] } : {}),
       messages,
       artifacts,
       createdAt: (data.createdAt as Timestamp) ?? Date.now(),
@@ -268,6 +270,25 @@ export function useChats() {
     [userId, currentChatId, getChatRef]
   );
 
+  /* ------- Rewrite one chat's stored messages (not necessarily the current one) ------- */
+  const updateChatMessages = useCallback(
+    async (chatId: string, update: (messages: Message[]) => Message[]) => {
+      if (!userId) return;
+
+      const ref = getChatRef(chatId);
+      const snap = await getDoc(ref);
+      if (!snap.exists()) return;
+
+      const stored = snap.data().messages as unknown as Message[];
+      const payload: UpdateData<ChatDoc> = {
+        messages: update(stored).map(toFirestoreMessage) as unknown as DocumentData[],
+        updatedAt: serverTimestamp(),
+      };
+      await updateDoc(ref, payload);
+    },
+    [userId, getChatRef]
+  );
+
   /* --------------- Save/merge artifact (append version or replace) --------------- */
   const saveArtifactToCurrentChat = useCallback(
     async (incoming: Artifact) => {
@@ -356,6 +377,7 @@ export function useChats() {
       deleteChat,
       updateCurrentChatModel,
       saveMessagesToCurrentChat,
+      updateChatMessages,
       saveArtifactToCurrentChat,
       loadChat,
       updateChatTitle,
@@ -368,6 +390,7 @@ export function useChats() {
       deleteChat,
       updateCurrentChatModel,
       saveMessagesToCurrentChat,
+      updateChatMessages,
       saveArtifactToCurrentChat,
       loadChat,
       updateChatTitle,
@@ -0,0 +1,211 @@
+/**
+ * fakeMcpServer.ts — a small in-process MCP server for the mcpClient tests.
+ *
+ * Transports:
+ * - "streamable-http": POST on "/"; initialize hands out an Mcp-Session-Id, tools/call answers
+ *   as an SSE stream on its response, everything else as plain JSON. DELETE ends the session.
+ * - "sse" (legacy): GET "/" opens the stream and sends the `endpoint` event; messages are
+ *   POSTed to /messages?sessionId=… and every answer goes out on the stream. POST "/" is a 405.
+ *
+ * Tools:
+ * - echo: answers with its arguments as text.
+ * - progress: two notifications/progress, a log line and a server ping, then the result.
+ * - slow: never answers; ends quietly once notifications/cancelled arrives for it.
+ * - hang_up: ends the session's stream instead of answering (legacy only).
+ *
+ * Gotchas:
+ * - Unknown session ids get a 404, like a server that restarted; expireSessions() forces that
+ *   (legacy streams stay open, only their POSTs start failing).
+ * - `received` records every JSON-RPC message (client replies to pings included), in order.
+ */
+
+import { createServer, type IncomingMessage, type ServerResponse } from "node:http";
+import type { AddressInfo } from "node:net";
+
+export type FakeMcpMessage = {
+  jsonrpc: "2.0";
+  id?: string | number | null;
+  method?: string;
+  params?: Record<string, unknown>;
+  result?: unknown;
+  error?: { code: number; message: string };
+};
+
+export type ReceivedMessage = FakeMcpMessage & { session?: string };
+
+export type FakeMcpServer = {
+  url: string;
+  /** Every JSON-RPC message received, with the session it came on. */
+  received: ReceivedMessage[];
+  /** HTTP requests as "METHOD /path". */
+  requests: string[];
+  /** tools/call requests received for `tool` (all tools when omitted). */
+  calls(tool?: string): ReceivedMessage[];
+  /** Forget every session: the next message on one gets a 404. */
+  expireSessions(): void;
+  close(): Promise<void>;
+};
+
+type Emit = (msg: FakeMcpMessage) => void;
+
+const TOOLS = [
+  { name: "echo", description: "Echo the arguments.", inputSchema: { type: "object" } },
+  { name: "progress", description: "Report progress, then answer.", inputSchema: { type: "object" } },
+  { name: "slow", description: "Never answers.", inputSchema: { type: "object" } },
+  { name: "hang_up", description: "Drop the stream.", inputSchema: { type: "object" } },
+];
+
+const sseFrame = (msg: FakeMcpMessage) => `event: message\ndata: ${JSON.stringify(msg)}\n\n`;
+
+async function readBody(req: IncomingMessage): Promise<string> {
+  let body = "";
+  for await (const chunk of req) body += chunk;
+  return body;
+}
+
+export async function startFakeMcpServer(transport: "streamable-http" | "sse"): Promise<FakeMcpServer> {
+  const received: FakeMcpServer["received"] = [];
+  const requests: string[] = [];
+  const sessions = new Map<string, ServerResponse | null>();
+  const cancelled = new Map<string | number, () => void>();
+  let nextSession = 1;
+
+  /** Answer one client message; resolves once nothing more will be emitted for it. */
+  async function handle(msg: FakeMcpMessage, emit: Emit, session: string, hangUp: () => void) {
+    if (msg.method === "notifications/cancelled") {
+      cancelled.get(msg.params?.requestId as string)?.();
+      return;
+    }
+    if (msg.id == null || !msg.method) return; // notifications, replies to our pings
+
+    const reply = (result: unknown) => emit({ jsonrpc: "2.0", id: msg.id, result });
+    switch (msg.method) {
+      case "initialize":
+        return reply({
+          protocolVersion: "2025-03-26",
+          serverInfo: { name: "fake-mcp", version: "0.0.1" },
+          capabilities: { tools: {} },
+        });
+      case "tools/list": {
+        // Two pages, to exercise nextCursor
+        const second = msg.params?.cursor === "page-2";
+        return reply(second ? { tools: TOOLS.slice(2) } : { tools: TOOLS.slice(0, 2), nextCursor: "page-2" });
+      }
+      case "tools/call":
+        break;
+      default:
+        return emit({ jsonrpc: "2.0", id: msg.id, error: { code: -32601, message: `Method not found: ${msg.method}` } });
+    }
+
+    const name = msg.params?.name;
+    const args = msg.params?.arguments;
+    const token = (msg.params?._meta as { progressToken?: string } | undefined)?.progressToken;
+    const text = (t: string) => reply({ content: [{ type: "text", text: t }] });
+
+    if (name === "echo") return text(JSON.stringify(args));
+    if (name === "progress") {
+      emit({ jsonrpc: "2.0", method: "notifications/progress", params: { progressToken: token, progress: 1, total: 2, message: "Searching" } });
+      emit({ jsonrpc: "2.0", method: "notifications/message", params: { level: "info", data: "Looking up Acme" } });
+      emit({ jsonrpc: "2.0", method: "notifications/progress", params: { progressToken: token, progress: 2, total: 2 } });
+      emit({ jsonrpc: "2.0", id: `ping-${session}`, method: "ping" });
+      return text("done");
+    }
+    if (name === "slow") {
+      await new Promise<void>((resolve) => cancelled.set(msg.id!, resolve));
+      return;
+    }
+    if (name === "hang_up") return hangUp();
+    return emit({ jsonrpc: "2.0", id: msg.id, error: { code: -32602, message: `Unknown tool: ${String(name)}` } });
+  }
+
+  async function streamable(req: IncomingMessage, res: ServerResponse) {
+    const sessionHeader = req.headers["mcp-session-id"] as string | undefined;
+    if (req.method === "DELETE") {
+      if (sessionHeader) sessions.delete(sessionHeader);
+      return res.writeHead(200).end();
+    }
+    if (req.method !== "POST") return res.writeHead(405).end();
+
+    const msg = JSON.parse(await readBody(req)) as FakeMcpMessage;
+    let session = sessionHeader;
+    if (msg.method === "initialize") {
+      session = `s-${nextSession++}`;
+      sessions.set(session, null);
+    } else if (!session || !sessions.has(session)) {
+      return res.writeHead(404).end("Session not found");
+    }
+    received.push({ ...msg, session });
+
+    if (msg.id == null || !msg.method) {
+      await handle(msg, () => {}, session, () => {});
+      return res.writeHead(202).end();
+    }
+
+    if (msg.method !== "tools/call") {
+      let answer: FakeMcpMessage | undefined;
+      await handle(msg, (m) => (answer = m), session, () => {});
+      return res.writeHead(200, { "Content-Type": "application/json", "Mcp-Session-Id": session }).end(JSON.stringify(answer));
+    }
+
+    res.writeHead(200, { "Content-Type": "text/event-stream", "Mcp-Session-Id": session });
+    const emit: Emit = (m) => {
+      if (!res.writableEnded && !res.destroyed) res.write(sseFrame(m));
+    };
+    await handle(msg, emit, session, () => res.end());
+    res.end();
+  }
+
+  async function legacy(req: IncomingMessage, res: ServerResponse, url: URL) {
+    if (req.method === "GET" && url.pathname === "/") {
+      const session = `s-${nextSession++}`;
+      sessions.set(session, res);
+      res.on("close", () => {
+        if (sessions.get(session) === res) sessions.delete(session);
+      });
+      res.writeHead(200, { "Content-Type": "text/event-stream", "Cache-Control": "no-cache" });
+      res.write(`event: endpoint\ndata: /messages?sessionId=${session}\n\n`);
+      return;
+    }
+    if (req.method !== "POST" || url.pathname !== "/messages") return res.writeHead(405).end();
+
+    const session = url.searchParams.get("sessionId") ?? "";
+    const stream = sessions.get(session);
+    if (!stream) return res.writeHead(404).end("Session not found");
+    const msg = JSON.parse(await readBody(req)) as FakeMcpMessage;
+    received.push({ ...msg, session });
+    res.writeHead(202).end();
+
+    const emit: Emit = (m) => {
+      if (!stream.writableEnded && !stream.destroyed) stream.write(sseFrame(m));
+    };
+    await handle(msg, emit, session, () => {
+      sessions.delete(session);
+      stream.end();
+    });
+  }
+
+  const server = createServer((req, res) => {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    requests.push(`${req.method} ${url.pathname}`);
+    const run = transport === "sse" ? legacy(req, res, url) : streamable(req, res);
+    run.catch(() => {
+      if (!res.headersSent) res.writeHead(500).end();
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}/`,
+    received,
+    requests,
+    calls: (tool) => received.filter((m) => m.method === "tools/call" && (!tool || m.params?.name === tool)),
+    expireSessions: () => sessions.clear(),
+    close: async () => {
+      for (const resolve of cancelled.values()) resolve();
+      server.closeAllConnections();
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    },
+  };
+}
@@ -0,0 +1,196 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { startFakeMcpServer, type FakeMcpServer } from "./fixtures/fakeMcpServer";
+
+// Read once at import: short enough to watch a session go idle
+vi.hoisted(() => {
+  process.env.MCP_SESSION_IDLE_MS = "300";
+});
+
+import { MCP_PROTOCOL_VERSION, callMCPTool, closeMCPSessions, listMCPTools, type MCPProgress } from "@/lib/mcpClient";
+
+let server: FakeMcpServer | undefined;
+
+async function start(transport: "streamable-http" | "sse") {
+  server = await startFakeMcpServer(transport);
+  return server;
+}
+
+afterEach(async () => {
+  await closeMCPSessions();
+  await server?.close();
+  server = undefined;
+});
+
+const call = (s: FakeMcpServer, toolName: string, extra: Partial<Parameters<typeof callMCPTool>[0]> = {}) =>
+  callMCPTool({ baseUrl: s.url, headers: {}, toolName, args: { q: "acme" }, timeoutMs: 2000, ...extra });
+
+const text = (res: Awaited<ReturnType<typeof callMCPTool>>) =>
+  "result" in res ? (res.result as { content: { text: string }[] }).content[0].text : undefined;
+
+const methods = (s: FakeMcpServer) => s.received.map((m) => m.method ?? "(reply)");
+
+describe("initialize", () => {
+  it("handshakes once, then sends the session id and protocol version", async () => {
+    const s = await start("streamable-http");
+    await call(s, "echo");
+
+    expect(methods(s)).toEqual(["initialize", "notifications/initialized", "tools/call"]);
+    expect(s.received[0].params).toMatchObject({
+      protocolVersion: MCP_PROTOCOL_VERSION,
+      clientInfo: { name: "kinga" },
+    });
+    expect(new Set(s.received.map((m) => m.session))).toEqual(new Set(["s-1"]));
+  });
+
+  it("reports what the server said about itself with the tool list, following nextCursor", async () => {
+    const s = await start("streamable-http");
+    const { server: info, tools } = await listMCPTools({ baseUrl: s.url, headers: {} });
+
+    expect(info?.serverInfo?.name).toBe("fake-mcp");
+    expect(tools.map((t) => t.name)).toEqual(["echo", "progress", "slow", "hang_up"]);
+    expect(s.received.filter((m) => m.method === "tools/list").map((m) => m.params?.cursor)).toEqual([
+      undefined,
+      "page-2",
+    ]);
+  });
+});
+
+describe("Streamable HTTP", () => {
+  it("reads a tools/call answer from the SSE stream on its response", async () => {
+    const s = await start("streamable-http");
+    const res = await call(s, "echo", { transport: "streamable-http" });
+
+    expect(text(res)).toBe('{"q":"acme"}');
+    expect(s.requests.every((r) => r === "POST /")).toBe(true);
+  });
+
+  it("re-sends on a new session when the server forgot the old one (404 on the POST)", async () => {
+    const s = await start("streamable-http");
+    await call(s, "echo");
+    s.expireSessions();
+    const res = await call(s, "echo");
+
+    expect(text(res)).toBe('{"q":"acme"}');
+    expect(s.received.filter((m) => m.method === "initialize")).toHaveLength(2);
+    expect(s.calls().map((m) => m.session)).toEqual(["s-1", "s-2"]);
+  });
+
+  it("fails instead of falling back when the transport is pinned", async () => {
+    const s = await start("sse");
+    await expect(call(s, "echo", { transport: "streamable-http" })).rejects.toThrow(/not supported \(405\)/);
+    expect(s.requests).not.toContain("GET /");
+  });
+});
+
+describe("legacy SSE", () => {
+  it("falls back to the SSE endpoint when initialize is refused on POST", async () => {
+    const s = await start("sse");
+    const res = await call(s, "echo");
+
+    expect(text(res)).toBe('{"q":"acme"}');
+    expect(s.requests.slice(0, 2)).toEqual(["POST /", "GET /"]);
+    expect(methods(s)).toEqual(["initialize", "notifications/initialized", "tools/call"]);
+  });
+
+  it("re-sends on a new stream when its POST gets a 404", async () => {
+    const s = await start("sse");
+    await call(s, "echo", { transport: "sse" });
+    s.expireSessions();
+    const res = await call(s, "echo", { transport: "sse" });
+
+    expect(text(res)).toBe('{"q":"acme"}');
+    expect(s.calls().map((m) => m.session)).toEqual(["s-1", "s-2"]);
+  });
+
+  it("does not re-send a call the server got before the stream ended", async () => {
+    const s = await start("sse");
+    await expect(call(s, "hang_up", { transport: "sse" })).rejects.toThrow("MCP SSE stream ended");
+
+    expect(s.calls("hang_up")).toHaveLength(1);
+    expect(s.requests.filter((r) => r === "GET /")).toHaveLength(1);
+  });
+});
+
+describe("ping and keepalive", () => {
+  it.each(["streamable-http", "sse"] as const)("answers server pings (%s)", async (transport) => {
+    const s = await start(transport);
+    await call(s, "progress", { transport });
+
+    await vi.waitFor(() => expect(s.received.find((m) => m.id === "ping-s-1" && !m.method)).toBeDefined());
+    expect(s.received.find((m) => m.id === "ping-s-1" && !m.method)).toMatchObject({ result: {} });
+  });
+
+  it("closes a session after MCP_SESSION_IDLE_MS and opens a new one on the next call", async () => {
+    const s = await start("streamable-http");
+    await call(s, "echo");
+    await vi.waitFor(() => expect(s.requests).toContain("DELETE /"), { timeout: 2000 });
+    await call(s, "echo");
+
+    expect(s.received.filter((m) => m.method === "initialize")).toHaveLength(2);
+  });
+});
+
+describe("session pooling", () => {
+  it("shares one handshake between concurrent calls and reuses the session after", async () => {
+    const s = await start("streamable-http");
+    await Promise.all([call(s, "echo"), call(s, "echo"), call(s, "echo")]);
+    await call(s, "echo");
+
+    expect(s.received.filter((m) => m.method === "initialize")).toHaveLength(1);
+    expect(new Set(s.calls().map((m) => m.session))).toEqual(new Set(["s-1"]));
+  });
+
+  it("keeps separate sessions per header set", async () => {
+    const s = await start("streamable-http");
+    await call(s, "echo", { headers: { Authorization: "Bearer a" } });
+    await call(s, "echo", { headers: { Authorization: "Bearer b" } });
+
+    expect(s.calls().map((m) => m.session)).toEqual(["s-1", "s-2"]);
+  });
+});
+
+describe("progress notifications", () => {
+  it.each(["streamable-http", "sse"] as const)("passes progress and log lines to onProgress (%s)", async (transport) => {
+    const s = await start(transport);
+    const updates: MCPProgress[] = [];
+    const res = await call(s, "progress", { transport, onProgress: (u) => updates.push(u) });
+
+    expect(text(res)).toBe("done");
+    const sent = s.calls("progress")[0];
+    expect(sent.params?._meta).toEqual({ progressToken: sent.id });
+    expect(updates).toEqual([
+      { message: "Searching", progress: 1, total: 2 },
+      { message: "Looking up Acme", level: "info" },
+      { message: undefined, progress: 2, total: 2 },
+    ]);
+  });
+
+  it("sends no progress token without a listener", async () => {
+    const s = await start("streamable-http");
+    await call(s, "echo");
+    expect(s.calls("echo")[0].params?._meta).toBeUndefined();
+  });
+});
+
+describe("notifications/cancelled", () => {
+  it.each(["streamable-http", "sse"] as const)(
+    "tells the server when the caller aborts, keeping the session (%s)",
+    async (transport) => {
+      const s = await start(transport);
+      const abort = new AbortController();
+      const pending = call(s, "slow", { transport, signal: abort.signal });
+      await vi.waitFor(() => expect(s.calls("slow")).toHaveLength(1));
+      abort.abort();
+
+      await expect(pending).rejects.toThrow("MCP tools/call cancelled");
+      await vi.waitFor(() =>
+        expect(s.received.find((m) => m.method === "notifications/cancelled")?.params).toMatchObject({
+          requestId: s.calls("slow")[0].id,
+        })
+      );
+
+      expect(text(await call(s, "echo", { transport }))).toBe('{"q":"acme"}');
+      expect(s.received.filter((m) => m.method === "initialize")).toHaveLength(1);
+    }
+  );
+});
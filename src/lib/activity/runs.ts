@@ -0,0 +1,79 @@
+/**
+ * activity/runs.ts — write Activity rows to users/{uid}/runs (server-only).
+ *
+ * One document per event in a chat turn:
+ *   { kind, toolId, status, latencyMs, chatId, model, envelopeStatus, note, error,
+ *     summary, envelope, createdAt }
+ * - kind "llm":      the assistant reply that ended the turn
+ * - kind "built_in": create_document / update_document
+ * - kind "mcp":      an MCP tool call (search, crm, email_finder), ok or failed
+ * - kind "error":    the turn itself crashed
+ * A turn the user stopped is an "llm" row with status "cancelled"; a write the user rejected
+ * (lib/tools/approvals.ts) is an "mcp" row with status "cancelled" ("Approved · …" notes mark
+ * the ones that ran).
+ *
+ * The Activity page (src/app/activity/page.tsx) reads these newest-first and filters by
+ * toolId / status / chatId / createdAt range, so Firestore needs composite indexes on
+ * (field ==, createdAt desc); the console links to create each one on first use.
+ * `envelope` is stored as a clipped JSON string for the detail drawer.
+ * Writing never throws; a failed write only logs.
+ */
+
+import { FieldValue } from "firebase-admin/firestore";
+import { adminDb } from "@/services/firebaseAdmin";
+
+export type RunKind = "llm" | "built_in" | "mcp" | "error";
+
+export type RunRecord = {
+  kind: RunKind;
+  status: "ok" | "error" | "cancelled";
+  toolId?: string | null;
+  latencyMs?: number | null;
+  chatId?: string | null;
+  /** Model id from the registry (ModelConfig.id). */
+  model?: string | null;
+  /** `status` field of the tool's Kinga envelope ("ok" | "not_found" | …). */
+  envelopeStatus?: string | null;
+  note?: string | null;
+  error?: string | null;
+  /** Envelope summary line (MCP runs). */
+  summary?: string | null;
+  /** The tool's envelope; UI card stripped by the caller if desired. */
+  envelope?: unknown;
+};
+
+const NOTE_MAX_CHARS = 160;
+const ERROR_MAX_CHARS = 500;
+const SUMMARY_MAX_CHARS = 1_000;
+const ENVELOPE_MAX_CHARS = 20_000;
+
+const clip = (s: string | null | undefined, max: number) => {
+  if (!s) return null;
+  const t = s.replace(/\s+/g, " ").trim();
+  return t.length > max ? t.slice(0, max - 1) + "…" : t;
+};
+
+export async function recordRun(userId: string, run: RunRecord): Promise<void> {
+  try {
+    await adminDb
+      .collection("users")
+      .doc(userId)
+      .collection("runs")
+      .add({
+        kind: run.kind,
+        status: run.status,
+        toolId: run.toolId ?? null,
+        latencyMs: run.latencyMs ?? null,
+        chatId: run.chatId ?? null,
+        model: run.model ?? null,
+        envelopeStatus: run.envelopeStatus ?? null,
+        note: clip(run.note, NOTE_MAX_CHARS),
+        error: clip(run.error, ERROR_MAX_CHARS),
+        summary: clip(run.summary, SUMMARY_MAX_CHARS),
+        envelope: run.envelope == null ? null : JSON.stringify(run.envelope).slice(0, ENVELOPE_MAX_CHARS),
+        createdAt: FieldValue.serverTimestamp(),
+      });
+  } catch (error) {
+    console.error("[runs] write failed:", error);
+  }
+}
@@ -0,0 +1,99 @@
+/**
+ * files.ts — tiny .xlsx and .pdf builders for the parser tests (no binary fixtures).
+ */
+
+import { deflateRawSync, deflateSync } from "node:zlib";
+
+export type ZipEntry = { name: string; data: string | Buffer; store?: boolean };
+
+/** A zip archive (deflated unless `store`). CRCs are left 0: readZip doesn't check them. */
+export function zip(entries: ZipEntry[]): Buffer {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.name, "utf8");
+    const raw = Buffer.isBuffer(entry.data) ? entry.data : Buffer.from(entry.data, "utf8");
+    const data = entry.store ? raw : deflateRawSync(raw);
+    const method = entry.store ? 0 : 8;
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4);
+    local.writeUInt16LE(method, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(raw.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    locals.push(local, name, data);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(20, 4);
+    central.writeUInt16LE(20, 6);
+    central.writeUInt16LE(method, 10);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(raw.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(offset, 42);
+    centrals.push(central, name);
+
+    offset += local.length + name.length + data.length;
+  }
+
+  const directory = Buffer.concat(centrals);
+  const eocd = Buffer.alloc(22);
+  eocd.writeUInt32LE(0x06054b50, 0);
+  eocd.writeUInt16LE(entries.length, 8);
+  eocd.writeUInt16LE(entries.length, 10);
+  eocd.writeUInt32LE(directory.length, 12);
+  eocd.writeUInt32LE(offset, 16);
+  return Buffer.concat([...locals, directory, eocd]);
+}
+
+const sheetXml = (rows: string) =>
+  `<?xml version="1.0" encoding="UTF-8"?><worksheet><sheetData>${rows}</sheetData></worksheet>`;
+
+/** An .xlsx with these sheets (rows XML only) and shared strings; sheet files are listed in reverse to check the rels. */
+export function xlsx(sheets: { name: string; rows: string }[], sharedStrings: string[] = [], extra: ZipEntry[] = []): Buffer {
+  const workbook =
+    `<?xml version="1.0" encoding="UTF-8"?><workbook xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets>` +
+    sheets.map((s, i) => `<sheet name="${s.name}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`).join("") +
+    `</sheets></workbook>`;
+  const rels =
+    `<?xml version="1.0" encoding="UTF-8"?><Relationships>` +
+    sheets.map((_, i) => `<Relationship Id="rId${i + 1}" Target="worksheets/sheet${sheets.length - i}.xml"/>`).join("") +
+    `</Relationships>`;
+  const shared = `<?xml version="1.0" encoding="UTF-8"?><sst>${sharedStrings.map((s) => `<si>${s}</si>`).join("")}</sst>`;
+
+  return zip([
+    { name: "[Content_Types].xml", data: "<Types/>" },
+    { name: "xl/workbook.xml", data: workbook },
+    { name: "xl/_rels/workbook.xml.rels", data: rels },
+    { name: "xl/sharedStrings.xml", data: shared },
+    ...sheets.map((s, i) => ({ name: `xl/worksheets/sheet${sheets.length - i}.xml`, data: sheetXml(s.rows) })),
+    ...extra,
+  ]);
+}
+
+/** A PDF with one object per stream (`deflate`: FlateDecode) plus `pages` page objects. */
+export function pdf(streams: { content: string | Buffer; deflate?: boolean; dict?: string }[], pages = 1): Buffer {
+  const parts: Buffer[] = [Buffer.from("%PDF-1.4\n", "latin1")];
+  let n = 1;
+  parts.push(Buffer.from(`${n++} 0 obj\n<< /Type /Pages /Count ${pages} >>\nendobj\n`, "latin1"));
+  for (let i = 0; i < pages; i++) {
+    parts.push(Buffer.from(`${n++} 0 obj\n<< /Type /Page /Parent 1 0 R >>\nendobj\n`, "latin1"));
+  }
+  for (const s of streams) {
+    const raw = Buffer.isBuffer(s.content) ? s.content : Buffer.from(s.content, "latin1");
+    const data = s.deflate ? deflateSync(raw) : raw;
+    const dict = `${s.dict ?? ""}${s.deflate ? " /Filter /FlateDecode" : ""} /Length ${data.length}`;
+    parts.push(
+      Buffer.from(`${n++} 0 obj\n<<${dict} >>\nstream\n`, "latin1"),
+      data,
+      Buffer.from("\nendstream\nendobj\n", "latin1")
+    );
+  }
+  parts.push(Buffer.from("trailer\n<< /Root 1 0 R >>\n%%EOF\n", "latin1"));
+  return Buffer.concat(parts);
+}
@@ -0,0 +1,167 @@
+import { describe, expect, it, vi } from "vitest";
+import { parseAttachment, parseDelimited, type ParseResult } from "@/lib/attachments/parse";
+import { pdf, xlsx, zip } from "./fixtures/files";
+
+const parsed = (res: ParseResult) => {
+  if (!res.ok) throw new Error(`expected a parsed file, got: ${res.message}`);
+  return res.parsed;
+};
+
+describe("CSV", () => {
+  it("keeps quoted delimiters, doubled quotes and newlines inside one field", () => {
+    expect(parseDelimited('name,note\n"Doe, Jane","said ""hi""\nthen left"\nSmith,\n')).toEqual([
+      ["name", "note"],
+      ["Doe, Jane", 'said "hi"\nthen left'],
+      ["Smith", ""],
+    ]);
+  });
+
+  it("counts rows after the header and lists the columns", () => {
+    const file = parsed(parseAttachment("csv", "leads.csv", Buffer.from('\uFEFFname,company\r\n"Doe, Jane",Acme\r\nJohn,"Globex\r\nEU"\r\n')));
+    expect(file).toMatchObject({ kind: "csv", rows: 2, columns: ["name", "company"] });
+    expect(file.text.startsWith("name,company\n")).toBe(true);
+  });
+
+  it.each([
+    ["semicolons", "name;company;email\nJane;Acme, Inc;jane@acme.com", ["name", "company", "email"]],
+    ["tabs", "name\tcompany\nJane\tAcme; EU", ["name", "company"]],
+    ["commas", "name,company\nJane;Doe,Acme", ["name", "company"]],
+  ])("sniffs %s from the first line", (_, text, columns) => {
+    expect(parsed(parseAttachment("csv", "leads.csv", Buffer.from(text))).columns).toEqual(columns);
+  });
+
+  it("always splits .tsv files on tabs", () => {
+    const file = parsed(parseAttachment("csv", "leads.tsv", Buffer.from("name,first\tcompany\nDoe, Jane\tAcme")));
+    expect(file.columns).toEqual(["name,first", "company"]);
+  });
+
+  it("refuses an empty file", () => {
+    expect(parseAttachment("csv", "empty.csv", Buffer.from(" \n\n"))).toEqual({ ok: false, message: "The file has no rows." });
+  });
+});
+
+describe("XLSX", () => {
+  it("resolves shared strings (rich text runs included), inline strings, booleans and entities", () => {
+    const bytes = xlsx(
+      [
+        {
+          name: "Leads",
+          rows:
+            '<row r="1"><c r="A1" t="s"><v>0</v></c><c r="B1" t="s"><v>1</v></c><c r="C1" t="inlineStr"><is><t>Active</t></is></c></row>' +
+            '<row r="2"><c r="A2" t="s"><v>2</v></c><c r="B2"><v>42</v></c><c r="C2" t="b"><v>1</v></c></row>' +
+            '<row r="3"><c r="A3" t="inlineStr"><is><r><t>Tom </t></r><r><t>&amp; Jerry</t></r></is></c><c r="C3" t="b"><v>0</v></c></row>',
+        },
+      ],
+      ["<t>Name</t>", "<t>Score</t>", '<r><t xml:space="preserve">Jane </t></r><r><t>"JD" Doe</t></r>']
+    );
+    const file = parsed(parseAttachment("xlsx", "leads.xlsx", bytes));
+
+    expect(file).toMatchObject({ kind: "xlsx", rows: 2, columns: ["Name", "Score", "Active"] });
+    expect(file.text).toBe('Name,Score,Active\n"Jane ""JD"" Doe",42,TRUE\nTom & Jerry,,FALSE');
+  });
+
+  it("reads every sheet in workbook order through the relationships", () => {
+    const bytes = xlsx([
+      { name: "Q1", rows: '<row><c t="inlineStr"><is><t>month</t></is></c></row><row><c><v>1</v></c></row>' },
+      { name: "Q2 &amp; Q3", rows: '<row><c t="inlineStr"><is><t>month</t></is></c></row><row><c><v>4</v></c></row><row><c><v>7</v></c></row>' },
+      { name: "Empty", rows: "" },
+    ]);
+    const file = parsed(parseAttachment("xlsx", "quarters.xlsx", bytes));
+
+    expect(file.rows).toBe(3);
+    expect(file.text).toBe("# Sheet: Q1\nmonth\n1\n\n# Sheet: Q2 & Q3\nmonth\n4\n7");
+  });
+
+  it("reads stored (uncompressed) parts", () => {
+    const bytes = zip([
+      { name: "xl/workbook.xml", data: '<workbook><sheets><sheet name="S"/></sheets></workbook>', store: true },
+      { name: "xl/worksheets/sheet1.xml", data: "<row><c><v>1</v></c></row>", store: true },
+    ]);
+    expect(parsed(parseAttachment("xlsx", "stored.xlsx", bytes)).text).toBe("1");
+  });
+
+  it("never inflates parts the text doesn't need", () => {
+    // Past the per-entry cap: reading it would refuse the file
+    const media = { name: "xl/media/image1.png", data: Buffer.alloc(51 * 1024 * 1024) };
+    const bytes = xlsx([{ name: "S", rows: "<row><c><v>1</v></c></row>" }], [], [media]);
+    expect(parsed(parseAttachment("xlsx", "photo.xlsx", bytes)).text).toBe("1");
+  });
+
+  it("refuses a workbook whose sheets inflate past the total budget", () => {
+    const big = `<row><c><v>1</v></c></row>${" ".repeat(35 * 1024 * 1024)}`;
+    const bytes = xlsx(["A", "B", "C"].map((name) => ({ name, rows: big })));
+    const res = parseAttachment("xlsx", "bomb.xlsx", bytes);
+    expect(res).toMatchObject({ ok: false, message: expect.stringContaining("too large to read once unpacked") });
+  });
+
+  it("refuses an archive with too many entries", () => {
+    const entries = Array.from({ length: 2001 }, (_, i) => ({ name: `f${i}`, data: "", store: true }));
+    const res = parseAttachment("xlsx", "many.xlsx", xlsx([{ name: "S", rows: "<row><c><v>1</v></c></row>" }], [], entries));
+    expect(res).toMatchObject({ ok: false, message: expect.stringContaining("too large to read once unpacked") });
+  });
+
+  it("refuses files that aren't workbooks", () => {
+    expect(parseAttachment("xlsx", "doc.xlsx", zip([{ name: "word/document.xml", data: "<w/>" }]))).toEqual({
+      ok: false,
+      message: "That file isn’t an Excel workbook (.xlsx).",
+    });
+
+    const error = vi.spyOn(console, "error").mockImplementation(() => {});
+    expect(parseAttachment("xlsx", "notes.xlsx", Buffer.from("just text"))).toEqual({
+      ok: false,
+      message: "Couldn’t read notes.xlsx; is it a valid XLSX file?",
+    });
+    error.mockRestore();
+  });
+});
+
+describe("PDF", () => {
+  it("extracts Tj and TJ text, line breaks and escapes", () => {
+    const content =
+      "BT /F1 12 Tf 72 712 Td (Hello \\(world\\)) Tj 0 -14 Td [(Ke) 20 (rn) -300 (ing)] TJ ET\n" +
+      "BT 72 680 Td <4163 6d65> Tj T* (Caf\\351) Tj ET";
+    const file = parsed(parseAttachment("pdf", "memo.pdf", pdf([{ content }], 2)));
+
+    expect(file).toMatchObject({ kind: "pdf", pages: 2 });
+    expect(file.text).toBe("Hello (world)\nKern ing\n\nAcme\nCafé");
+  });
+
+  it("reads FlateDecode content streams and skips fonts and images", () => {
+    const file = parsed(
+      parseAttachment(
+        "pdf",
+        "deck.pdf",
+        pdf([
+          { content: "BT (Compressed page) Tj ET", deflate: true },
+          { content: "BT (font program) Tj ET", dict: " /Length1 100" },
+          { content: Buffer.from([0xff, 0xd8, 0xff]), dict: " /Subtype /Image" },
+        ])
+      )
+    );
+    expect(file.text).toBe("Compressed page");
+  });
+
+  it.each([
+    ["scanned pages (no text operators)", pdf([{ content: Buffer.from([0xff, 0xd8, 0xff, 0xe0]), dict: " /Subtype /Image" }])],
+    ["a custom font encoding", pdf([{ content: Buffer.from("BT <0102030405060708090a0b0c> Tj ET", "latin1") }])],
+  ])("refuses %s", (_, bytes) => {
+    expect(parseAttachment("pdf", "scan.pdf", bytes)).toEqual({
+      ok: false,
+      message: expect.stringContaining("No text could be extracted from this PDF"),
+    });
+  });
+
+  it("refuses a PDF whose streams inflate past the total budget", () => {
+    // ~1 KB each deflated, 120 MB once inflated
+    const stream = { content: `BT (x) Tj ET${" ".repeat(2 * 1024 * 1024)}`, deflate: true };
+    const res = parseAttachment("pdf", "bomb.pdf", pdf(Array.from({ length: 60 }, () => stream)));
+    expect(res).toMatchObject({ ok: false, message: expect.stringContaining("too large to read once unpacked") });
+  });
+
+  it("refuses files that aren't PDFs", () => {
+    expect(parseAttachment("pdf", "fake.pdf", Buffer.from("<html></html>"))).toEqual({
+      ok: false,
+      message: "That file isn’t a PDF.",
+    });
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * context.ts — the chat's attached files as one context block for the model (server-only).
+ *
+ * Budget: ATTACHMENTS_WINDOW_SHARE of the model window, at most ATTACHMENTS_MAX_TOKENS, split
+ * evenly between files (each capped at ATTACHMENT_FILE_MAX_TOKENS).
+ * - Files sent with this message come first, then older ones newest-first.
+ * - Each file gets a header line (name, kind, rows / columns or pages) and as much of its
+ *   text as its share allows; spreadsheets are cut on a row boundary.
+ * - When even ATTACHMENT_FILE_MIN_TOKENS per file doesn't fit, the oldest files are left out
+ *   and listed by name only.
+ *
+ * fitContext() (chat/contextBudget.ts) still has the last word: it may cut the block's tail.
+ */
+
+import { countTokens, truncateToTokens } from "@/lib/chat/tokens";
+import { DEFAULT_CONTEXT_TOKENS } from "@/lib/chat/contextBudget";
+import type { StoredAttachment } from "@/lib/attachments/store";
+
+export const ATTACHMENTS_MAX_TOKENS = 6_000;
+export const ATTACHMENT_FILE_MAX_TOKENS = 2_500;
+const ATTACHMENT_FILE_MIN_TOKENS = 200;
+const ATTACHMENTS_WINDOW_SHARE = 0.2;
+const MAX_HEADER_COLUMNS = 15;
+
+const KIND_LABEL: Record<StoredAttachment["kind"], string> = {
+  csv: "CSV",
+  xlsx: "Excel",
+  text: "Text",
+  markdown: "Markdown",
+  pdf: "PDF",
+};
+
+function header(file: StoredAttachment): string {
+  const parts = [file.name, KIND_LABEL[file.kind]];
+  if (file.rows !== undefined) parts.push(`${file.rows} row${file.rows === 1 ? "" : "s"}`);
+  if (file.columns?.length) {
+    const cols = file.columns.slice(0, MAX_HEADER_COLUMNS).join(", ");
+    parts.push(`columns: ${cols}${file.columns.length > MAX_HEADER_COLUMNS ? ", …" : ""}`);
+  }
+  if (file.pages) parts.push(`${file.pages} page${file.pages === 1 ? "" : "s"}`);
+  if (file.truncated) parts.push("cut at upload");
+  return `=== File: ${parts.join(" · ")} ===`;
+}
+
+/** `file` in `maxTokens`, header included. */
+function fileBlock(file: StoredAttachment, maxTokens: number): string {
+  const head = header(file);
+  const room = Math.max(0, maxTokens - countTokens(head) - 1);
+  let body = truncateToTokens(file.text, room, "");
+  if (body.length < file.text.length) {
+    const tabular = file.kind === "csv" || file.kind === "xlsx";
+    const nl = body.lastIndexOf("\n");
+    if (tabular && nl > 0) body = body.slice(0, nl);
+    body += tabular
+      ? `\n…[cut to fit; the file has ${file.rows ?? "more"} rows]`
+      : "\n…[cut to fit]";
+  }
+  return `${head}\n${body}`;
+}
+
+/**
+ * The ATTACHMENTS block for this turn, or undefined when the chat has no files.
+ * `currentIds`: files sent with the message being answered.
+ */
+export function buildAttachmentsContext(
+  files: StoredAttachment[],
+  opts: { contextLength?: number; currentIds?: string[] } = {}
+): string | undefined {
+  if (!files.length) return undefined;
+  const current = new Set(opts.currentIds ?? []);
+  const ordered = [
+    ...files.filter((f) => current.has(f.id)),
+    ...files.filter((f) => !current.has(f.id)).reverse(),
+  ];
+
+  const window = opts.contextLength || DEFAULT_CONTEXT_TOKENS;
+  const total = Math.min(ATTACHMENTS_MAX_TOKENS, Math.floor(window * ATTACHMENTS_WINDOW_SHARE));
+  const shown = ordered.slice(0, Math.max(1, Math.floor(total / ATTACHMENT_FILE_MIN_TOKENS)));
+  const perFile = Math.min(ATTACHMENT_FILE_MAX_TOKENS, Math.floor(total / shown.length));
+
+  const blocks = shown.map((f) => fileBlock(f, perFile));
+  const left = ordered.slice(shown.length);
+  if (left.length) blocks.push(`(Older files not shown: ${left.map((f) => f.name).join(", ")})`);
+  return blocks.join("\n\n");
+}
+
+/** Text of this message's CSV / Excel files (batch email lookup input). */
+export function spreadsheetText(files: StoredAttachment[], ids: string[]): string | undefined {
+  const text = files
+    .filter((f) => ids.includes(f.id) && (f.kind === "csv" || f.kind === "xlsx"))
+    .map((f) => f.text)
+    .join("\n");
+  return text || undefined;
+}
@@ -0,0 +1,43 @@
+/**
+ * limits.ts — chat attachment limits, shared by the input box and /api/attachments.
+ *
+ * Kept free of server imports so client components can check a file before uploading it.
+ */
+
+import type { AttachmentKind } from "@/types/types";
+
+/** Largest upload accepted per file. */
+export const ATTACHMENT_MAX_BYTES = 5 * 1024 * 1024;
+/** Files per message. */
+export const ATTACHMENT_MAX_FILES = 5;
+/** Parsed text kept per file (a Firestore document holds at most 1 MiB). */
+export const ATTACHMENT_TEXT_MAX_CHARS = 300_000;
+
+const KIND_BY_EXTENSION: Record<string, AttachmentKind> = {
+  csv: "csv",
+  tsv: "csv",
+  xlsx: "xlsx",
+  txt: "text",
+  md: "markdown",
+  markdown: "markdown",
+  pdf: "pdf",
+};
+
+/** `accept` attribute for the file picker. */
+export const ATTACHMENT_ACCEPT = Object.keys(KIND_BY_EXTENSION).map((ext) => `.${ext}`).join(",");
+
+/** Kind from the file name, or null when the type isn't supported. */
+export function attachmentKindOf(fileName: string): AttachmentKind | null {
+  const ext = fileName.toLowerCase().split(".").pop() ?? "";
+  return KIND_BY_EXTENSION[ext] ?? null;
+}
+
+/** "leads.csv is too large (max 5 MB)." style check; null when the file can be uploaded. */
+export function checkAttachmentFile(file: { name: string; size: number }): string | null {
+  if (!attachmentKindOf(file.name)) return `${file.name}: only CSV, XLSX, TXT, Markdown and PDF files can be attached.`;
+  if (file.size === 0) return `${file.name} is empty.`;
+  if (file.size > ATTACHMENT_MAX_BYTES) {
+    return `${file.name} is too large (max ${Math.round(ATTACHMENT_MAX_BYTES / 1024 / 1024)} MB).`;
+  }
+  return null;
+}
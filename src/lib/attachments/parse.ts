@@ -0,0 +1,443 @@
+/**
+ * parse.ts — turn an uploaded chat attachment into plain text (server-only).
+ *
+ * Supported kinds (limits.ts maps file extensions to these):
+ * - csv:      CSV / TSV as uploaded (delimiter sniffed from the first line); rows + header counted
+ * - xlsx:     every sheet converted to CSV, "# Sheet: <name>" between sheets
+ * - text / markdown: UTF-8 as is
+ * - pdf:      the text drawn by each page's content streams (Tj / TJ operators)
+ * Returns `{ ok: true, parsed }` or `{ ok: false, message }` with a user-facing reason.
+ *
+ * Gotchas:
+ * - No parser dependencies: .xlsx is read with a small zip reader (zlib inflate) and the
+ *   sheet XML is scanned with regexes. Formulas come through as their cached values.
+ * - Zip bombs: only the parts the text needs are inflated, each under MAX_INFLATED_BYTES and
+ *   all together under MAX_TOTAL_INFLATED_BYTES; archives past MAX_ZIP_ENTRIES are refused.
+ *   PDF streams share the same per-stream cap and total budget.
+ * - PDF extraction is best-effort: scanned PDFs have no text, and fonts with custom
+ *   encodings come out as garbage; both are refused rather than stored.
+ * - Text is cut to ATTACHMENT_TEXT_MAX_CHARS (`truncated` is set); row counts cover what was kept.
+ */
+
+import { constants as zlibConstants, inflateRawSync, inflateSync } from "node:zlib";
+import type { AttachmentKind } from "@/types/types";
+import { ATTACHMENT_TEXT_MAX_CHARS } from "@/lib/attachments/limits";
+
+export type ParsedAttachment = {
+  kind: AttachmentKind;
+  text: string;
+  rows?: number;
+  columns?: string[];
+  pages?: number;
+  truncated?: boolean;
+};
+
+export type ParseResult = { ok: true; parsed: ParsedAttachment } | { ok: false; message: string };
+
+/** Inflated size allowed for a single zip entry / PDF stream (zip bombs). */
+const MAX_INFLATED_BYTES = 50 * 1024 * 1024;
+/** Inflated size allowed for all the parts of one .xlsx / streams of one PDF. */
+const MAX_TOTAL_INFLATED_BYTES = 100 * 1024 * 1024;
+/** Entries allowed in an .xlsx (real workbooks have a few dozen). */
+const MAX_ZIP_ENTRIES = 2_000;
+/** Header cells kept in `columns`. */
+const MAX_COLUMNS = 50;
+
+export function parseAttachment(kind: AttachmentKind, fileName: string, bytes: Buffer): ParseResult {
+  try {
+    switch (kind) {
+      case "csv":
+        return tabular(kind, decodeText(bytes), fileName.toLowerCase().endsWith(".tsv") ? "\t" : undefined);
+      case "xlsx":
+        return parseXlsx(bytes);
+      case "text":
+      case "markdown":
+        return plain(kind, decodeText(bytes));
+      case "pdf":
+        return parsePdf(bytes);
+    }
+  } catch (err) {
+    console.error(`[attachments] couldn't parse ${fileName}:`, err);
+    return { ok: false, message: `Couldn’t read ${fileName}; is it a valid ${kind.toUpperCase()} file?` };
+  }
+}
+
+// -----------------------------
+// Text / CSV
+// -----------------------------
+
+function decodeText(bytes: Buffer): string {
+  return bytes.toString("utf8").replace(/^\uFEFF/, "").replace(/\r\n?/g, "\n");
+}
+
+function clipText(text: string): { text: string; truncated: boolean } {
+  if (text.length <= ATTACHMENT_TEXT_MAX_CHARS) return { text, truncated: false };
+  // Cut at a line break so a spreadsheet doesn't end on half a row
+  const cut = text.slice(0, ATTACHMENT_TEXT_MAX_CHARS);
+  const nl = cut.lastIndexOf("\n");
+  return { text: nl > 0 ? cut.slice(0, nl) : cut, truncated: true };
+}
+
+function plain(kind: AttachmentKind, raw: string): ParseResult {
+  const { text, truncated } = clipText(raw.trim());
+  if (!text) return { ok: false, message: "The file has no text." };
+  return { ok: true, parsed: { kind, text, ...(truncated ? { truncated } : {}) } };
+}
+
+/** Comma, semicolon (European Excel) or tab: whichever the first line has most of. */
+function sniffDelimiter(text: string): string {
+  const first = text.split("\n", 1)[0];
+  const count = (d: string) => first.split(d).length - 1;
+  return [",", ";", "\t"].reduce((best, d) => (count(d) > count(best) ? d : best), ",");
+}
+
+/** RFC 4180 records (quoted fields may contain delimiters, quotes and newlines). */
+export function parseDelimited(text: string, delimiter = ","): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch !== '"') field += ch;
+      else if (text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else quoted = false;
+    } else if (ch === '"' && field === "") {
+      quoted = true;
+    } else if (ch === delimiter) {
+      record.push(field);
+      field = "";
+    } else if (ch === "\n") {
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = "";
+    } else {
+      field += ch;
+    }
+  }
+  if (field || record.length) {
+    record.push(field);
+    records.push(record);
+  }
+  return records.filter((r) => r.some((cell) => cell.trim()));
+}
+
+function tabular(kind: AttachmentKind, raw: string, delimiter?: string): ParseResult {
+  const { text, truncated } = clipText(raw.trim());
+  if (!text) return { ok: false, message: "The file has no rows." };
+  const records = parseDelimited(text, delimiter ?? sniffDelimiter(text));
+  return {
+    ok: true,
+    parsed: {
+      kind,
+      text,
+      rows: Math.max(0, records.length - 1),
+      columns: (records[0] ?? []).map((c) => c.trim()).filter(Boolean).slice(0, MAX_COLUMNS),
+      ...(truncated ? { truncated } : {}),
+    },
+  };
+}
+
+const csvCell = (v: string) => (/[",\n]/.test(v) ? `"${v.replace(/"/g, '""')}"` : v);
+
+// -----------------------------
+// XLSX (zip of XML parts)
+// -----------------------------
+
+type ZipReader = {
+  /** Bytes of one entry (stored or deflated), inflated on demand; undefined when missing or refused. */
+  read(name: string): Buffer | undefined;
+  /** Set once a read was refused for going past the inflate budget. */
+  overBudget: boolean;
+};
+
+/**
+ * Index a zip archive's entries; nothing is inflated until read() asks for it, and all reads
+ * share MAX_TOTAL_INFLATED_BYTES. Null when the archive has more than MAX_ZIP_ENTRIES entries.
+ */
+function readZip(buf: Buffer): ZipReader | null {
+  // End of central directory: last 22+ bytes, signature PK\x05\x06
+  let eocd = -1;
+  for (let i = buf.length - 22; i >= Math.max(0, buf.length - 22 - 0xffff); i--) {
+    if (buf.readUInt32LE(i) === 0x06054b50) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) throw new Error("not a zip archive");
+
+  const count = buf.readUInt16LE(eocd + 10);
+  if (count > MAX_ZIP_ENTRIES) return null;
+
+  const entries = new Map<string, { method: number; data: Buffer }>();
+  let p = buf.readUInt32LE(eocd + 16);
+  for (let n = 0; n < count; n++) {
+    if (buf.readUInt32LE(p) !== 0x02014b50) throw new Error("bad zip central directory");
+    const method = buf.readUInt16LE(p + 10);
+    const compressedSize = buf.readUInt32LE(p + 20);
+    const nameLen = buf.readUInt16LE(p + 28);
+    const extraLen = buf.readUInt16LE(p + 30);
+    const commentLen = buf.readUInt16LE(p + 32);
+    const localOffset = buf.readUInt32LE(p + 42);
+    const name = buf.toString("utf8", p + 46, p + 46 + nameLen);
+    p += 46 + nameLen + extraLen + commentLen;
+
+    // Local header has its own name / extra lengths before the data
+    const dataStart = localOffset + 30 + buf.readUInt16LE(localOffset + 26) + buf.readUInt16LE(localOffset + 28);
+    entries.set(name, { method, data: buf.subarray(dataStart, dataStart + compressedSize) });
+  }
+
+  let budget = MAX_TOTAL_INFLATED_BYTES;
+  const reader: ZipReader = {
+    overBudget: false,
+    read(name) {
+      const entry = entries.get(name);
+      if (!entry || reader.overBudget) return undefined;
+      if (entry.method === 0) return entry.data;
+      if (entry.method !== 8) return undefined;
+      try {
+        const out = inflateRawSync(entry.data, { maxOutputLength: Math.max(1, Math.min(MAX_INFLATED_BYTES, budget)) });
+        budget -= out.length;
+        return out;
+      } catch (err) {
+        if ((err as { code?: string }).code !== "ERR_BUFFER_TOO_LARGE") throw err;
+        reader.overBudget = true;
+        return undefined;
+      }
+    },
+  };
+  return reader;
+}
+
+const XML_ENTITIES: Record<string, string> = { amp: "&", lt: "<", gt: ">", quot: '"', apos: "'" };
+
+function decodeXml(s: string): string {
+  return s.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (m, e: string) => {
+    if (e[0] === "#") {
+      const code = e[1] === "x" || e[1] === "X" ? parseInt(e.slice(2), 16) : parseInt(e.slice(1), 10);
+      return Number.isFinite(code) ? String.fromCodePoint(code) : m;
+    }
+    return XML_ENTITIES[e] ?? m;
+  });
+}
+
+/** Text of every <t> run inside an XML fragment (rich text has several). */
+const runsText = (xml: string) =>
+  Array.from(xml.matchAll(/<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g), (m) => decodeXml(m[1])).join("");
+
+/** "AB12" → 27 (0-based column index). */
+function columnIndex(ref: string): number {
+  let n = 0;
+  for (const ch of ref.replace(/\d+$/, "").toUpperCase()) n = n * 26 + (ch.charCodeAt(0) - 64);
+  return n - 1;
+}
+
+function sheetRows(xml: string, shared: string[]): string[][] {
+  const rows: string[][] = [];
+  for (const row of xml.matchAll(/<row\b[^>]*>([\s\S]*?)<\/row>/g)) {
+    const cells: string[] = [];
+    for (const c of row[1].matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+      const attrs = c[1];
+      const body = c[2] ?? "";
+      const type = /\bt="([^"]+)"/.exec(attrs)?.[1];
+      const ref = /\br="([A-Z]+\d+)"/i.exec(attrs)?.[1];
+      const v = /<v>([\s\S]*?)<\/v>/.exec(body)?.[1];
+      let value = "";
+      if (type === "s") value = shared[Number(v)] ?? "";
+      else if (type === "inlineStr") value = runsText(body);
+      else if (type === "b") value = v === "1" ? "TRUE" : "FALSE";
+      else if (v !== undefined) value = decodeXml(v);
+      cells[ref ? columnIndex(ref) : cells.length] = value;
+    }
+    const filled = Array.from(cells, (v) => v ?? "");
+    if (filled.some((v) => v.trim())) rows.push(filled);
+  }
+  return rows;
+}
+
+const TOO_LARGE_WORKBOOK = "That workbook is too large to read once unpacked; save the sheets you need as CSV.";
+
+function parseXlsx(bytes: Buffer): ParseResult {
+  // Only workbook.xml, its rels, sharedStrings.xml and the sheets it lists are inflated
+  const zip = readZip(bytes);
+  if (!zip) return { ok: false, message: TOO_LARGE_WORKBOOK };
+  const part = (name: string) => zip.read(name)?.toString("utf8");
+  const workbook = part("xl/workbook.xml");
+  if (!workbook) {
+    return { ok: false, message: zip.overBudget ? TOO_LARGE_WORKBOOK : "That file isn’t an Excel workbook (.xlsx)." };
+  }
+
+  const shared = Array.from((part("xl/sharedStrings.xml") ?? "").matchAll(/<si>([\s\S]*?)<\/si>/g), (m) =>
+    runsText(m[1])
+  );
+  // Sheet order from workbook.xml, file names via the workbook relationships
+  const rels = new Map(
+    Array.from((part("xl/_rels/workbook.xml.rels") ?? "").matchAll(/<Relationship\b[^>]*>/g), (m) => [
+      /\bId="([^"]+)"/.exec(m[0])?.[1] ?? "",
+      (/\bTarget="([^"]+)"/.exec(m[0])?.[1] ?? "").replace(/^\/?(xl\/)?/, ""),
+    ])
+  );
+  const sheets = Array.from(workbook.matchAll(/<sheet\b[^>]*>/g), (m, i) => ({
+    name: decodeXml(/\bname="([^"]*)"/.exec(m[0])?.[1] ?? `Sheet${i + 1}`),
+    path: `xl/${rels.get(/\br:id="([^"]+)"/.exec(m[0])?.[1] ?? "") ?? `worksheets/sheet${i + 1}.xml`}`,
+  }));
+
+  const blocks: string[] = [];
+  let rows = 0;
+  let columns: string[] | undefined;
+  for (const sheet of sheets) {
+    const xml = part(sheet.path);
+    if (!xml) continue;
+    const records = sheetRows(xml, shared);
+    if (!records.length) continue;
+    rows += records.length - 1;
+    columns ??= records[0].map((c) => c.trim()).filter(Boolean).slice(0, MAX_COLUMNS);
+    const csv = records.map((r) => r.map(csvCell).join(",")).join("\n");
+    blocks.push(sheets.length > 1 ? `# Sheet: ${sheet.name}\n${csv}` : csv);
+  }
+  if (zip.overBudget) return { ok: false, message: TOO_LARGE_WORKBOOK };
+  if (!blocks.length) return { ok: false, message: "The workbook has no rows." };
+
+  const { text, truncated } = clipText(blocks.join("\n\n"));
+  return { ok: true, parsed: { kind: "xlsx", text, rows, columns, ...(truncated ? { truncated } : {}) } };
+}
+
+// -----------------------------
+// PDF (text operators only)
+// -----------------------------
+
+/**
+ * Bytes of every content-like stream in the file, inflated when FlateDecode, plus the
+ * object streams (PDF 1.5+ keeps the page objects in those). Inflating stops at
+ * MAX_TOTAL_INFLATED_BYTES (`overBudget`).
+ */
+function pdfStreams(bytes: Buffer): { content: Buffer[]; objects: Buffer[]; overBudget?: boolean } {
+  const raw = bytes.toString("latin1");
+  let budget = MAX_TOTAL_INFLATED_BYTES;
+  const content: Buffer[] = [];
+  const objects: Buffer[] = [];
+  const re = />>\s*stream\r?\n/g;
+  for (let m = re.exec(raw); m; m = re.exec(raw)) {
+    const start = m.index + m[0].length;
+    const end = raw.indexOf("endstream", start);
+    if (end < 0) break;
+    re.lastIndex = end;
+    // The stream's dictionary: from its "n 0 obj" header to the `stream` keyword
+    const dict = raw.slice(Math.max(0, raw.lastIndexOf(" obj", m.index)), m.index);
+    // Fonts, images, xref streams: no text operators worth scanning
+    if (/\/(Subtype\s*\/Image|Length1|FontFile|XRef)\b/.test(dict)) continue;
+    const out = /\/ObjStm\b/.test(dict) ? objects : content;
+    const data = bytes.subarray(start, end);
+    if (!/\/Filter/.test(dict)) {
+      out.push(data);
+      continue;
+    }
+    if (!/\/FlateDecode/.test(dict)) continue;
+    if (budget <= 0) return { content, objects, overBudget: true };
+    try {
+      // Sync flush: a stream with a sloppy end still yields what it has
+      const inflated = inflateSync(data, {
+        finishFlush: zlibConstants.Z_SYNC_FLUSH,
+        maxOutputLength: Math.min(MAX_INFLATED_BYTES, budget),
+      });
+      budget -= inflated.length;
+      out.push(inflated);
+    } catch (err) {
+      // Past what's left of the budget: stop. Past the per-stream cap, or unreadable: skip it
+      const tooLarge = (err as { code?: string }).code === "ERR_BUFFER_TOO_LARGE";
+      if (tooLarge && budget < MAX_INFLATED_BYTES) return { content, objects, overBudget: true };
+    }
+  }
+  return { content, objects };
+}
+
+const PDF_ESCAPES: Record<string, string> = { n: "\n", r: "", t: "\t", b: "", f: "", "(": "(", ")": ")", "\\": "\\" };
+
+/** A PDF literal string body (between the parens) with escapes resolved. */
+function pdfLiteral(s: string): string {
+  return s.replace(/\\([nrtbf()\\]|[0-7]{1,3}|\r?\n)/g, (_, e: string) =>
+    /^[0-7]/.test(e) ? String.fromCharCode(parseInt(e, 8)) : (PDF_ESCAPES[e] ?? "")
+  );
+}
+const pdfHex = (s: string) => {
+  const hex = s.replace(/\s+/g, "");
+  return Buffer.from(hex.length % 2 ? hex + "0" : hex, "hex").toString("latin1");
+};
+
+/** Text shown inside the BT … ET blocks of one content stream. */
+function contentText(content: string): string {
+  let out = "";
+  for (const block of content.matchAll(/\bBT\b([\s\S]*?)\bET\b/g)) {
+    const tokens = block[1].matchAll(
+      /\((?:\\[\s\S]|[^\\)])*\)|<[0-9a-fA-F\s]*>|\[(?:\((?:\\[\s\S]|[^\\)])*\)|<[0-9a-fA-F\s]*>|[^\]])*\]|-?[\d.]+|\/\S+|[A-Za-z'"*]+/g
+    );
+    let pending: string[] = [];
+    const operands: string[] = [];
+    for (const [tok] of tokens) {
+      if (tok[0] === "(") pending.push(pdfLiteral(tok.slice(1, -1)));
+      else if (tok[0] === "<") pending.push(pdfHex(tok.slice(1, -1)));
+      else if (tok[0] === "[") {
+        // TJ array: strings with kerning numbers; a large negative gap is a word space
+        for (const part of tok.slice(1, -1).matchAll(/\((?:\\[\s\S]|[^\\)])*\)|<[0-9a-fA-F\s]*>|-?[\d.]+/g)) {
+          const p = part[0];
+          if (p[0] === "(") pending.push(pdfLiteral(p.slice(1, -1)));
+          else if (p[0] === "<") pending.push(pdfHex(p.slice(1, -1)));
+          else if (Number(p) < -200) pending.push(" ");
+        }
+      } else if (/^-?[\d.]+$/.test(tok) || tok[0] === "/") operands.push(tok);
+      else {
+        if (tok === "Tj" || tok === "TJ") out += pending.join("");
+        else if (tok === "'" || tok === '"') out += "\n" + pending.join("");
+        else if (tok === "T*") out += "\n";
+        else if ((tok === "Td" || tok === "TD") && Number(operands[operands.length - 1]) !== 0) out += "\n";
+        else if (tok === "Td" || tok === "TD") out += " ";
+        pending = [];
+        operands.length = 0;
+      }
+    }
+    out += "\n";
+  }
+  return out;
+}
+
+/** Share of characters that look like real text (letters, digits, punctuation, spaces). */
+function readableShare(text: string): number {
+  if (!text) return 0;
+  const readable = text.match(/[\p{L}\p{N}\p{P}\s]/gu)?.length ?? 0;
+  return readable / text.length;
+}
+
+function parsePdf(bytes: Buffer): ParseResult {
+  if (bytes.subarray(0, 5).toString("latin1") !== "%PDF-") {
+    return { ok: false, message: "That file isn’t a PDF." };
+  }
+  const { content, objects, overBudget } = pdfStreams(bytes);
+  if (overBudget) return { ok: false, message: "That PDF is too large to read once unpacked; try a text or Markdown export." };
+  const countPages = (s: string) => s.match(/\/Type\s*\/Page\b/g)?.length ?? 0;
+  const pages = [bytes, ...objects].reduce((n, b) => n + countPages(b.toString("latin1")), 0);
+  const text = content
+    .map((s) => contentText(s.toString("latin1")))
+    .join("\n")
+    .replace(/[ \t]+\n/g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+
+  if (!text || readableShare(text) < 0.85) {
+    return { ok: false, message: "No text could be extracted from this PDF (scanned pages or embedded fonts). Try a text or Markdown export." };
+  }
+  const clipped = clipText(text);
+  return {
+    ok: true,
+    parsed: {
+      kind: "pdf",
+      text: clipped.text,
+      ...(pages ? { pages } : {}),
+      ...(clipped.truncated ? { truncated: true } : {}),
+    },
+  };
+}
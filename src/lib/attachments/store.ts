@@ -0,0 +1,75 @@
+/**
+ * store.ts — chat attachments in Firestore (server-only).
+ *
+ * users/{uid}/chats/{chatId}/attachments/{id}:
+ *   { name, kind, sizeBytes, rows?, columns?, pages?, truncated?, text, createdAt }
+ * - saveChatAttachment(): writes one parsed file, returns its ChatAttachment (the metadata
+ *   the client keeps on the message).
+ * - loadChatAttachments(): every file of the chat, oldest first, with its text.
+ *
+ * Gotchas:
+ * - Deleting a chat from the client leaves this subcollection behind (Firestore doesn't
+ *   cascade); it is only ever read through its chat.
+ * - Loading never throws: a failed read logs and the turn goes on without attachments.
+ */
+
+import { FieldValue } from "firebase-admin/firestore";
+import type { ChatAttachment } from "@/types/types";
+import { adminDb } from "@/services/firebaseAdmin";
+import type { ParsedAttachment } from "@/lib/attachments/parse";
+
+export type StoredAttachment = ChatAttachment & { text: string };
+
+function attachmentsRef(userId: string, chatId: string) {
+  return adminDb.collection("users").doc(userId).collection("chats").doc(chatId).collection("attachments");
+}
+
+/** Metadata only (what goes on the chat message). */
+export function toChatAttachment(a: StoredAttachment): ChatAttachment {
+  const { text: _text, ...meta } = a;
+  void _text;
+  return meta;
+}
+
+export async function saveChatAttachment(
+  userId: string,
+  chatId: string,
+  file: { name: string; sizeBytes: number },
+  parsed: ParsedAttachment
+): Promise<ChatAttachment> {
+  const ref = attachmentsRef(userId, chatId).doc();
+  const attachment: StoredAttachment = {
+    id: ref.id,
+    name: file.name,
+    sizeBytes: file.sizeBytes,
+    ...parsed,
+  };
+  // Firestore rejects undefined fields
+  const data = Object.fromEntries(Object.entries(attachment).filter(([, v]) => v !== undefined));
+  await ref.set({ ...data, createdAt: FieldValue.serverTimestamp() });
+  return toChatAttachment(attachment);
+}
+
+export async function loadChatAttachments(userId: string, chatId: string | undefined): Promise<StoredAttachment[]> {
+  if (!chatId) return [];
+  try {
+    const snap = await attachmentsRef(userId, chatId).orderBy("createdAt", "asc").get();
+    return snap.docs.map((doc) => {
+      const d = doc.data();
+      return {
+        id: doc.id,
+        name: String(d.name ?? "file"),
+        kind: d.kind,
+        sizeBytes: Number(d.sizeBytes) || 0,
+        ...(typeof d.rows === "number" ? { rows: d.rows } : {}),
+        ...(Array.isArray(d.columns) ? { columns: d.columns.map(String) } : {}),
+        ...(typeof d.pages === "number" ? { pages: d.pages } : {}),
+        ...(d.truncated ? { truncated: true } : {}),
+        text: String(d.text ?? ""),
+      };
+    });
+  } catch (err) {
+    console.error("[attachments] load failed:", err);
+    return [];
+  }
+}
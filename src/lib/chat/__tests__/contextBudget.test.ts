@@ -0,0 +1,23 @@
+import { describe, expect, it } from "vitest";
+import { fitContext } from "@/lib/chat/contextBudget";
+
+const history = Array.from({ length: 20 }, (_, i) => ({
+  role: i % 2 ? ("assistant" as const) : ("user" as const),
+  content: `turn ${i}: ${"word ".repeat(100)}`,
+}));
+
+describe("fitContext", () => {
+  it("keeps everything that fits and reports nothing trimmed", () => {
+    const fit = fitContext({ contextLength: 128_000, system: "sys", message: "hi", history, toolTurns: [] });
+    expect(fit.history).toEqual(history);
+    expect(fit.report).toMatchObject({ trimmed: false, droppedTurns: 0 });
+  });
+
+  it("drops the oldest turns first and reports how many", () => {
+    const fit = fitContext({ contextLength: 2048, system: "sys", message: "hi", history, toolTurns: [] });
+
+    expect(fit.report.trimmed).toBe(true);
+    expect(fit.report.droppedTurns).toBeGreaterThan(0);
+    expect(fit.history).toEqual(history.slice(fit.report.droppedTurns));
+  });
+});
@@ -0,0 +1,94 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { ChatSummary, ModelConfig } from "@/types/types";
+
+// users/{uid}/chats/{chatId}: the stored messages and summary, and what update() wrote
+const chat = vi.hoisted(() => ({
+  data: undefined as Record<string, unknown> | undefined,
+  update: vi.fn(async (_: Record<string, unknown>) => {}),
+}));
+const llm = vi.hoisted(() => ({ sendMessage: vi.fn() }));
+
+vi.mock("@/services/firebaseAdmin", () => ({
+  adminDb: {
+    collection: () => ({
+      doc: () => ({
+        collection: () => ({
+          doc: () => ({
+            get: async () => ({ exists: !!chat.data, data: () => chat.data }),
+            update: chat.update,
+          }),
+        }),
+      }),
+    }),
+  },
+}));
+vi.mock("@/lib/sendMessage", () => llm);
+
+import { updateChatSummary } from "@/lib/chat/summarizeConversation";
+
+const modelConfig = { id: "m", name: "M", provider: "OpenAI", model: "gpt" } as ModelConfig;
+
+// m0 … m(n-1), alternating user / ai
+const stored = (n: number) =>
+  Array.from({ length: n }, (_, i) => ({ role: i % 2 ? "ai" : "user", content: `m${i}` }));
+const turns = (from: number, to: number) =>
+  Array.from({ length: to - from }, (_, k) => ({
+    role: (from + k) % 2 ? ("assistant" as const) : ("user" as const),
+    content: `m${from + k}`,
+  }));
+
+const prompt = () => String(llm.sendMessage.mock.calls[0][0]);
+const written = () => (chat.update.mock.calls[0][0] as { summary: ChatSummary }).summary;
+
+beforeEach(() => {
+  chat.data = undefined;
+  chat.update.mockClear();
+  llm.sendMessage.mockReset().mockResolvedValue({ type: "text", content: "- Jane Doe is the buyer" });
+});
+
+describe("updateChatSummary", () => {
+  // 40 stored messages; the client sent m11…m40 (m40 is this turn) and fitContext dropped 4
+  const window = { historyStart: 11, history: turns(11, 41), droppedTurns: 4 };
+
+  it("folds the turns before the client's window and the ones fitContext dropped", async () => {
+    chat.data = { messages: stored(40) };
+    await updateChatSummary({ userId: "u", chatId: "c", modelConfig, ...window });
+
+    expect(prompt()).toContain("USER: m0\n\nASSISTANT: m1");
+    expect(prompt()).toContain("ASSISTANT: m13\n\nUSER: m14\n</new_transcript>");
+    expect(written()).toMatchObject({ text: "- Jane Doe is the buyer", coveredCount: 15 });
+  });
+
+  it("takes the dropped turns from the history the client sent, after what's covered", async () => {
+    chat.data = { messages: stored(40), summary: { text: "- Acme is the account", coveredCount: 11, updatedAt: 1 } };
+    const history = window.history.map((t) => ({ ...t, content: `${t.content} (sent)` }));
+    await updateChatSummary({ userId: "u", chatId: "c", modelConfig, ...window, history });
+
+    expect(prompt()).toContain("<current_summary>\n- Acme is the account\n</current_summary>");
+    expect(prompt()).toContain("<new_transcript>\nASSISTANT: m11 (sent)\n\nUSER: m12 (sent)");
+    expect(prompt()).not.toContain("m10");
+    expect(written().coveredCount).toBe(15);
+  });
+
+  it("does nothing once everything unseen is covered", async () => {
+    chat.data = { messages: stored(40), summary: { text: "- old", coveredCount: 15, updatedAt: 1 } };
+    await updateChatSummary({ userId: "u", chatId: "c", modelConfig, ...window });
+
+    expect(llm.sendMessage).not.toHaveBeenCalled();
+    expect(chat.update).not.toHaveBeenCalled();
+  });
+
+  it("waits while the stored chat is behind the client's window", async () => {
+    chat.data = { messages: stored(8) };
+    await updateChatSummary({ userId: "u", chatId: "c", modelConfig, ...window });
+    expect(llm.sendMessage).not.toHaveBeenCalled();
+  });
+
+  it("uses the stored chat's own window when the client sends no historyStart", async () => {
+    chat.data = { messages: stored(35) };
+    await updateChatSummary({ userId: "u", chatId: "c", modelConfig });
+
+    expect(prompt()).toContain("ASSISTANT: m3\n\nUSER: m4\n</new_transcript>");
+    expect(written().coveredCount).toBe(5);
+  });
+});
@@ -6,8 +6,13 @@
  * What it does:
  * - Maps roles to the server contract: 'user' → 'user', 'assistant' or 'ai' → 'assistant'.
  * - Drops any 'system' messages.
- * - Keeps only the last N entries (default 10) to control token usage.
+ * - Keeps only the last N entries (default 30); the server then trims by tokens
+ *   to fit the model's context window (see contextBudget.ts).
  * - Preserves order and content (including any <tool_json>/<ctx> blocks).
+ * - Appends the state of a held write (e.g. "[CRM change approved: Contact updated]") so the
+ *   model knows whether the user approved what it proposed.
+ * - Appends the emails a batch lookup found ("[Email lookup results: …]") so follow-ups like
+ *   "draft an intro to each of them" can use them.
  *
  * Why it exists:
  * - Centralizes the “what the server needs” logic so multiple callers don’t re-implement it.
@@ -16,25 +21,81 @@
  * Inputs:  messages: Array<{ role: 'user'|'assistant'|'ai'|'system'; content: string }>
  * Output:  Array<{ role: 'user'|'assistant'; content: string }>
  *
+ * Older turns are not lost: the server folds whatever falls outside the window into
+ * the chat's rolling summary (see summarizeConversation.ts). The client sends where its
+ * window starts (`historyStart`, from splitConversationHistory) so both agree on it.
+ *
  * Gotchas:
  * - If upstream role names change, update the mapping here.
  * - If you raise/lower the limit, ensure the server prompt is still coherent.
  *
  * Example:
- *   const history = buildConversationHistory(messages, 10);
+ *   const history = buildConversationHistory(messages, 30);
  *   await callChatApi({ message, modelConfig, conversationHistory: history });
  */
-export type Msg = { role: 'user'|'assistant'|'ai'|'system'; content: string; createdAt?: number };
+export type Msg = {
+  role: 'user'|'assistant'|'ai'|'system';
+  content: string;
+  createdAt?: number;
+  approval?: { label: string; status: string; outcome?: string };
+  enrichment?: { rows: Array<{ linkedinUrl: string; status: string; name?: string; title?: string; email?: string }> };
+  attachments?: Array<{ name: string }>;
+};
 
-export function buildConversationHistory(
-  messages: Msg[],
-  limit = 10
-): Array<{ role: 'user'|'assistant'; content: string }> {
+type Turn = { role: 'user'|'assistant'; content: string };
+
+/** Window size shared by the client request and the server-side summarizer. */
+export const DEFAULT_HISTORY_LIMIT = 30;
+
+/** Batch lookup rows repeated into history (the CSV has the rest). */
+const ENRICHMENT_NOTE_ROWS = 30;
+
+/** Every message mapped to a history turn (no window). */
+export function toConversationTurns(messages: Msg[]): Turn[] {
   const mapRole = (r: Msg['role']): 'user'|'assistant'|null =>
     r === 'user' ? 'user' : r === 'assistant' || r === 'ai' ? 'assistant' : null;
 
+  const approvalNote = (a: NonNullable<Msg['approval']>) =>
+    a.status === 'pending'
+      ? `[${a.label} change waiting for the user's approval]`
+      : `[${a.label} change ${a.status}${a.outcome ? `: ${a.outcome}` : ''}]`;
+
+  const enrichmentNote = (e: NonNullable<Msg['enrichment']>) => {
+    const found = e.rows.filter(r => r.status === 'found');
+    const lines = found
+      .slice(0, ENRICHMENT_NOTE_ROWS)
+      .map(r => `${r.name || r.linkedinUrl}${r.title ? ` (${r.title})` : ''}: ${r.email}`);
+    if (found.length > lines.length) lines.push(`…and ${found.length - lines.length} more`);
+    return `[Email lookup results: ${lines.length ? lines.join('; ') : 'no emails found'}]`;
+  };
+
   return messages
-    .map(m => ({ role: mapRole(m.role), content: m.content }))
-    .filter((m): m is { role: 'user'|'assistant'; content: string } => !!m.role)
-    .slice(-limit);
+    .map(m => {
+      let content = m.content;
+      if (m.approval) content += `\n\n${approvalNote(m.approval)}`;
+      if (m.enrichment) content += `\n\n${enrichmentNote(m.enrichment)}`;
+      if (m.attachments?.length) content += `\n\n[Attached: ${m.attachments.map(a => a.name).join(', ')}]`;
+      return { role: mapRole(m.role), content };
+    })
+    .filter((m): m is Turn => !!m.role);
+}
+
+/**
+ * Same mapping as buildConversationHistory, but also returns what fell out of the window
+ * (oldest first). `trimmed.length` is where the window starts in the chat.
+ */
+export function splitConversationHistory(
+  messages: Msg[],
+  limit = DEFAULT_HISTORY_LIMIT
+): { kept: Turn[]; trimmed: Turn[] } {
+  const turns = toConversationTurns(messages);
+  const cut = Math.max(0, turns.length - limit);
+  return { kept: turns.slice(cut), trimmed: turns.slice(0, cut) };
+}
+
+export function buildConversationHistory(
+  messages: Msg[],
+  limit = DEFAULT_HISTORY_LIMIT
+): Array<{ role: 'user'|'assistant'; content: string }> {
+  return splitConversationHistory(messages, limit).kept;
 }
@@ -0,0 +1,158 @@
+/**
+ * contextBudget
+ * -------------
+ * Purpose: Fit one model request into `ModelConfig.contextLength` before it is sent.
+ *
+ * How the window is split:
+ * - Reserved: room for the reply (RESERVED_OUTPUT_RATIO, capped) + a safety margin
+ *   for tokenizer differences between providers.
+ * - Fixed: system prompt, pinned blocks (conversation summary), tool schemas and the
+ *   current user message (never trimmed).
+ * - Tool results (this turn): up to TOOL_RESULTS_SHARE of what's left; oldest results
+ *   are shortened first, the newest is kept whole whenever it fits.
+ * - Attached files: up to ATTACHMENTS_SHARE; the tail is cut (lib/attachments/context.ts
+ *   already budgets each file, so this only bites on small windows).
+ * - Document context: up to DOCUMENT_SHARE; the tail is cut (the newest version comes first).
+ * - History: whatever remains; oldest turns are dropped first.
+ *
+ * Output: the trimmed pieces plus a ContextTrimReport describing what was cut.
+ *
+ * Example:
+ *   const fit = fitContext({ contextLength: 8192, system, message, history, documentContext, toolTurns });
+ *   onContextReport?.(fit.report); // what was cut, if anything
+ */
+
+import type { ContextTrimReport, ToolTurn } from "@/types/types";
+import { countTokens, truncateToTokens, MESSAGE_OVERHEAD_TOKENS } from "@/lib/chat/tokens";
+
+type Turn = { role: "user" | "assistant"; content: string };
+
+/** Used when a model has no contextLength configured. */
+export const DEFAULT_CONTEXT_TOKENS = 8192;
+
+const RESERVED_OUTPUT_RATIO = 0.25;
+const RESERVED_OUTPUT_MAX = 4096;
+const SAFETY_MARGIN_RATIO = 0.05;
+const TOOL_RESULTS_SHARE = 0.4;
+const DOCUMENT_SHARE = 0.35;
+const ATTACHMENTS_SHARE = 0.25;
+/** An older tool result is shortened to this many tokens before anything else is cut. */
+const TOOL_RESULT_TRIMMED_TOKENS = 200;
+
+export type FitContextInput = {
+  contextLength?: number;
+  system: string;
+  /** System blocks that are never trimmed (e.g., the rolling conversation summary). */
+  pinned?: string[];
+  message: string;
+  /** Wrapper text around the document (counted as part of it). */
+  documentPrefix?: string;
+  documentContext?: string;
+  /** Wrapper text around the attached files block (counted as part of it). */
+  attachmentsPrefix?: string;
+  attachments?: string;
+  history: Turn[];
+  toolTurns: ToolTurn[];
+  /** Tokens spent on tool schemas (they ride along with the request). */
+  toolSchemaTokens?: number;
+};
+
+export type FitContextResult = {
+  history: Turn[];
+  documentContext?: string;
+  attachments?: string;
+  toolTurns: ToolTurn[];
+  report: ContextTrimReport;
+};
+
+const turnTokens = (content: string) => countTokens(content) + MESSAGE_OVERHEAD_TOKENS;
+
+export function fitContext(input: FitContextInput): FitContextResult {
+  const contextLength = input.contextLength || DEFAULT_CONTEXT_TOKENS;
+  const reservedOutput = Math.min(RESERVED_OUTPUT_MAX, Math.floor(contextLength * RESERVED_OUTPUT_RATIO));
+  const budgetTokens = Math.floor(contextLength * (1 - SAFETY_MARGIN_RATIO)) - reservedOutput;
+
+  const fixed =
+    turnTokens(input.system) +
+    (input.pinned ?? []).reduce((sum, block) => sum + turnTokens(block), 0) +
+    turnTokens(input.message) +
+    (input.toolSchemaTokens ?? 0);
+  let remaining = Math.max(0, budgetTokens - fixed);
+
+  // --- Tool results: newest first, shorten older ones when over their share ---
+  const toolShare = Math.floor(remaining * TOOL_RESULTS_SHARE);
+  let toolUsed = 0;
+  let toolResultsTrimmed = 0;
+  const toolTurns: ToolTurn[] = new Array(input.toolTurns.length);
+  for (let i = input.toolTurns.length - 1; i >= 0; i--) {
+    const turn = input.toolTurns[i];
+    const callTokens = turnTokens(JSON.stringify(turn.toolArgs ?? {})) + MESSAGE_OVERHEAD_TOKENS;
+    const full = countTokens(turn.result);
+    const isNewest = i === input.toolTurns.length - 1;
+    const left = toolShare - toolUsed - callTokens;
+
+    let result = turn.result;
+    if (full > left) {
+      const cap = isNewest ? left : Math.min(TOOL_RESULT_TRIMMED_TOKENS, left);
+      result = truncateToTokens(turn.result, Math.max(0, cap), "…[trimmed]");
+      toolResultsTrimmed++;
+    }
+    toolUsed += callTokens + countTokens(result);
+    toolTurns[i] = { ...turn, result };
+  }
+  remaining = Math.max(0, remaining - toolUsed);
+
+  // --- Attached files: capped share, cut from the tail -----------------------
+  let attachments = input.attachments;
+  let attachmentsTrimmedTokens = 0;
+  if (attachments) {
+    const prefixTokens = turnTokens(input.attachmentsPrefix ?? "");
+    const share = Math.max(0, Math.floor(remaining * ATTACHMENTS_SHARE) - prefixTokens);
+    const full = countTokens(attachments);
+    if (full > share) {
+      attachments = truncateToTokens(attachments, share, "\n…[attachments trimmed]") || undefined;
+      attachmentsTrimmedTokens = full - share;
+    }
+    remaining = Math.max(0, remaining - prefixTokens - Math.min(full, share));
+  }
+
+  // --- Document context: capped share, cut from the tail ---------------------
+  let documentContext = input.documentContext;
+  let documentTrimmedTokens = 0;
+  if (documentContext) {
+    const prefixTokens = turnTokens(input.documentPrefix ?? "");
+    const docShare = Math.max(0, Math.floor(remaining * DOCUMENT_SHARE) - prefixTokens);
+    const full = countTokens(documentContext);
+    if (full > docShare) {
+      documentContext = truncateToTokens(documentContext, docShare, "\n…[document trimmed]") || undefined;
+      documentTrimmedTokens = full - docShare;
+    }
+    remaining = Math.max(0, remaining - prefixTokens - Math.min(full, docShare));
+  }
+
+  // --- History: keep the newest turns that fit -------------------------------
+  const history: Turn[] = [];
+  for (let i = input.history.length - 1; i >= 0; i--) {
+    const cost = turnTokens(input.history[i].content);
+    if (cost > remaining) break;
+    history.unshift(input.history[i]);
+    remaining -= cost;
+  }
+  const droppedTurns = input.history.length - history.length;
+
+  return {
+    history,
+    documentContext,
+    attachments,
+    toolTurns,
+    report: {
+      trimmed: droppedTurns > 0 || documentTrimmedTokens > 0 || toolResultsTrimmed > 0 || attachmentsTrimmedTokens > 0,
+      budgetTokens,
+      usedTokens: budgetTokens - remaining,
+      droppedTurns,
+      documentTrimmedTokens,
+      toolResultsTrimmed,
+      ...(attachmentsTrimmedTokens ? { attachmentsTrimmedTokens } : {}),
+    },
+  };
+}
@@ -0,0 +1,130 @@
+/**
+ * summarizeConversation
+ * ---------------------
+ * Purpose: Keep a rolling summary per chat so facts older than the history window survive.
+ *
+ * What it does:
+ * - readChatSummary(): loads `summary.text` from users/{uid}/chats/{chatId} for injection.
+ * - updateChatSummary(): finds messages the model no longer sees but the summary doesn't
+ *   cover yet, folds them in with one tools-off LLM pass, and writes
+ *   `{ text, coveredCount, updatedAt }` back to the chat doc (next to `messages`).
+ *   "No longer seen": the stored turns before the window the client sent (`historyStart`),
+ *   plus the oldest turns of that window fitContext() dropped this turn (`droppedTurns`).
+ *   `coveredCount` counts turns from the start of the chat.
+ *
+ * Why it exists:
+ * - Account-research chats run to hundreds of messages; contacts found and decisions made
+ *   early on must stay available without resending the whole history.
+ *
+ * Gotchas:
+ * - Server-only (firebase-admin). Run it after the response (route uses `after()`).
+ * - Each pass folds at most MAX_MESSAGES_PER_PASS messages; later turns catch up the rest.
+ * - Runs before the client has saved this turn, so the stored chat can be shorter than the
+ *   window start; that pass is skipped. Clients that don't send `historyStart` get the
+ *   stored chat's own window (DEFAULT_HISTORY_LIMIT).
+ */
+
+import type { ChatSummary, ModelConfig } from "@/types/types";
+import { adminDb } from "@/services/firebaseAdmin";
+import { sendMessage } from "@/lib/sendMessage";
+import { toConversationTurns, DEFAULT_HISTORY_LIMIT, type Msg } from "@/lib/chat/buildConversationHistory";
+import { truncateToTokens } from "@/lib/chat/tokens";
+
+const MAX_MESSAGES_PER_PASS = 40;
+const MAX_TOKENS_PER_MESSAGE = 600;
+const MAX_SUMMARY_TOKENS = 800;
+
+function chatRef(userId: string, chatId: string) {
+  return adminDb.collection("users").doc(userId).collection("chats").doc(chatId);
+}
+
+function asSummary(v: unknown): ChatSummary | null {
+  if (!v || typeof v !== "object") return null;
+  const s = v as Partial<ChatSummary>;
+  if (typeof s.text !== "string" || typeof s.coveredCount !== "number") return null;
+  return { text: s.text, coveredCount: s.coveredCount, updatedAt: Number(s.updatedAt) || 0 };
+}
+
+/** The chat's current summary text, if any. Never throws. */
+export async function readChatSummary(userId: string, chatId: string | undefined): Promise<string | undefined> {
+  if (!chatId) return undefined;
+  try {
+    const snap = await chatRef(userId, chatId).get();
+    return asSummary(snap.data()?.summary)?.text || undefined;
+  } catch (error) {
+    console.error("[summary] read failed:", error);
+    return undefined;
+  }
+}
+
+/** Fold newly trimmed messages into the chat's rolling summary. Never throws. */
+export async function updateChatSummary({
+  userId,
+  chatId,
+  modelConfig,
+  history = [],
+  historyStart,
+  droppedTurns = 0,
+}: {
+  userId: string;
+  chatId: string | undefined;
+  modelConfig: ModelConfig;
+  /** The conversationHistory the client sent (what fitContext() trimmed). */
+  history?: Array<{ role: "user" | "assistant"; content: string }>;
+  /** Turns of the chat before `history` (the client's window start). */
+  historyStart?: number;
+  /** Oldest `history` turns fitContext() dropped this turn (ContextTrimReport.droppedTurns). */
+  droppedTurns?: number;
+}): Promise<void> {
+  if (!chatId) return;
+
+  try {
+    const ref = chatRef(userId, chatId);
+    const snap = await ref.get();
+    if (!snap.exists) return;
+
+    const data = snap.data() ?? {};
+    const messages = Array.isArray(data.messages) ? (data.messages as Msg[]) : [];
+    const turns = toConversationTurns(messages);
+    const start = historyStart ?? Math.max(0, turns.length - DEFAULT_HISTORY_LIMIT);
+    if (turns.length < start) return;
+    const unseen = [...turns.slice(0, start), ...history.slice(0, droppedTurns)];
+
+    const prev = asSummary(data.summary);
+    const covered = prev?.coveredCount ?? 0;
+    if (unseen.length <= covered) return;
+
+    const pending = unseen.slice(covered, covered + MAX_MESSAGES_PER_PASS);
+    const transcript = pending
+      .map((m) => `${m.role.toUpperCase()}: ${truncateToTokens(String(m.content ?? ""), MAX_TOKENS_PER_MESSAGE)}`)
+      .join("\n\n");
+
+    const prompt =
+      "You maintain a running summary of an earlier part of a business chat.\n" +
+      "Update the summary with the new transcript below. Keep it factual and compact (max ~300 words).\n" +
+      "Preserve: people/contacts found (name, title, company, email, LinkedIn), companies researched, " +
+      "CRM actions taken, decisions made, user preferences, and open tasks.\n" +
+      "Drop small talk. Output ONLY the updated summary as short bullet points.\n\n" +
+      `<current_summary>\n${prev?.text || "(none)"}\n</current_summary>\n\n` +
+      `<new_transcript>\n${transcript}\n</new_transcript>`;
+
+    const llm = await sendMessage(prompt, {
+      modelConfig,
+      conversationHistory: [],
+      documentContext: undefined,
+      tools: [],
+      disableNudges: true,
+      meter: { userId, chatId, purpose: "summary" },
+    });
+    if (llm.type !== "text" || !llm.content) return;
+
+    const summary: ChatSummary = {
+      text: truncateToTokens(llm.content.trim(), MAX_SUMMARY_TOKENS),
+      coveredCount: covered + pending.length,
+      updatedAt: Date.now(),
+    };
+    await ref.update({ summary });
+  } catch (error) {
+    console.error("[summary] update failed:", error);
+  }
+}
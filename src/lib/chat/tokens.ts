@@ -0,0 +1,34 @@
+/**
+ * tokens.ts — token counting for context budgeting (server-side; the BPE ranks are large).
+ *
+ * Uses cl100k_base for every provider: exact for GPT-4-class models and a close
+ * estimate for Claude/Gemini. contextBudget.ts keeps a safety margin for the difference.
+ */
+
+import { Tiktoken } from "js-tiktoken/lite";
+import cl100k_base from "js-tiktoken/ranks/cl100k_base";
+
+let encoder: Tiktoken | null = null;
+
+function getEncoder(): Tiktoken {
+  encoder ??= new Tiktoken(cl100k_base);
+  return encoder;
+}
+
+/** Per-message framing overhead (role + separators), per OpenAI's counting guide. */
+export const MESSAGE_OVERHEAD_TOKENS = 4;
+
+export function countTokens(text: string | null | undefined): number {
+  if (!text) return 0;
+  // Treat special-token text literally instead of throwing on it
+  return getEncoder().encode(text, [], []).length;
+}
+
+/** Cut `text` to at most `maxTokens` tokens, appending `suffix` when it was cut. */
+export function truncateToTokens(text: string, maxTokens: number, suffix = "…"): string {
+  if (maxTokens <= 0) return "";
+  const enc = getEncoder();
+  const ids = enc.encode(text, [], []);
+  if (ids.length <= maxTokens) return text;
+  return enc.decode(ids.slice(0, maxTokens)) + suffix;
+}
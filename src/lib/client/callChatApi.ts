@@ -7,6 +7,7 @@
  * - Reads the signed-in user from Firebase Auth and gets a fresh ID token.
  * - Sends the request body to `/api/chat` with `Authorization: Bearer <token>`.
  * - Returns the parsed JSON (`{ result: ... }`) or throws with server text on non-2xx.
+ * - 429 (quota/rate limit) still carries `{ result }` with a readable message, so it is returned.
  *
  * Why it exists:
  * - Centralizes auth + fetch so components don’t duplicate token logic.
@@ -33,14 +34,26 @@
  *     currentArtifactId,
  *     currentArtifactTitle,
  *   });
+ *
+ * Streaming:
+ * - `callChatApiStream(body, onEvent)` asks for `text/event-stream` and calls `onEvent`
+ *   for each typed event (delta, tool_start, tool_progress, tool_finish, card, artifact, title,
+ *   enrichment_start / enrichment_row for a batch email lookup).
+ * - Resolves with `{ result }` from the final `done` event, same shape as `callChatApi`.
+ * - If the server answers with JSON instead (validation/auth errors), that JSON is returned.
+ *
+ * Cancellation:
+ * - Pass an AbortSignal; aborting it drops the connection, which stops the server-side turn
+ *   (LLM + MCP calls). The promise rejects with the fetch AbortError.
  */
 
 
 import { auth } from "@/services/firebase"; // must export a Firebase Web SDK auth instance
+import type { ChatApiResult, ChatStreamEvent } from "@/types/types";
 
 type Body = Record<string, unknown>;
 
-export async function callChatApi(body: Body) {
+export async function callChatApi(body: Body, signal?: AbortSignal) {
   const user = auth.currentUser;
   const idToken = user ? await user.getIdToken() : undefined;
 
@@ -51,12 +64,81 @@ export async function callChatApi(body: Body) {
       ...(idToken ? { Authorization: `Bearer ${idToken}` } : {}),
     },
     body: JSON.stringify(body),
+    signal,
   });
 
   // Bubble 401/other errors up so UI can show them
-  if (!res.ok) {
+  if (!res.ok && res.status !== 429) {
     const text = await res.text().catch(() => "");
     throw new Error(text || `${res.status} ${res.statusText}`);
   }
   return res.json();
 }
+
+export async function callChatApiStream(
+  body: Body,
+  onEvent: (event: ChatStreamEvent) => void,
+  signal?: AbortSignal
+): Promise<{ result: ChatApiResult }> {
+  const user = auth.currentUser;
+  const idToken = user ? await user.getIdToken() : undefined;
+
+  const res = await fetch("/api/chat", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Accept: "text/event-stream",
+      ...(idToken ? { Authorization: `Bearer ${idToken}` } : {}),
+    },
+    body: JSON.stringify(body),
+    signal,
+  });
+
+  if (!res.ok && res.status !== 429) {
+    const text = await res.text().catch(() => "");
+    throw new Error(text || `${res.status} ${res.statusText}`);
+  }
+
+  // Early exits (missing message, unauthorized, rate limited) still come back as JSON
+  if (!(res.headers.get("content-type") || "").includes("text/event-stream") || !res.body) {
+    return res.json();
+  }
+
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let final: ChatApiResult | null = null;
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    // SSE frames are separated by a blank line; we only need the data line
+    let idx: number;
+    while ((idx = buffer.indexOf("\n\n")) !== -1) {
+      const frame = buffer.slice(0, idx);
+      buffer = buffer.slice(idx + 2);
+
+      const data = frame
+        .split("\n")
+        .filter((line) => line.startsWith("data:"))
+        .map((line) => line.slice(5).trim())
+        .join("");
+      if (!data) continue;
+
+      let event: ChatStreamEvent;
+      try {
+        event = JSON.parse(data) as ChatStreamEvent;
+      } catch {
+        continue;
+      }
+
+      if (event.type === "done") final = event.result;
+      else onEvent(event);
+    }
+  }
+
+  if (!final) throw new Error("Chat stream ended without a result.");
+  return { result: final };
+}
@@ -0,0 +1,52 @@
+/**
+ * decideToolApproval
+ * ------------------
+ * Purpose: Client-only helper to Approve / Reject a write tool call that /api/chat held
+ * for the user (the CRM approval card).
+ *
+ * What it does:
+ * - POSTs `{ approvalId, decision, edits, skip }` to `/api/tools/approval` with the Firebase ID token.
+ * - Returns `{ approval, output?, card?, envelope? }`; on 4xx/5xx the server's `{ error }`
+ *   comes back as `error` (with the current `approval` when the server knows it, e.g. 409).
+ *
+ * Gotchas:
+ * - `edits` maps field paths (ToolApprovalField.path) to the new text; unknown paths are ignored.
+ * - `skip` lists field paths the user unticked; those values are left out of the write.
+ * - Network errors reject; the caller keeps the card pending so the user can click again.
+ */
+
+import { auth } from "@/services/firebase";
+import type { KingaCard, ToolApproval, ToolEnvelope } from "@/types/types";
+
+export type ToolApprovalDecision = "approve" | "reject";
+
+export type ToolApprovalResponse = {
+  approval?: ToolApproval;
+  output?: string;
+  card?: KingaCard;
+  envelope?: ToolEnvelope;
+  error?: string;
+};
+
+export async function decideToolApproval(
+  approvalId: string,
+  decision: ToolApprovalDecision,
+  edits?: Record<string, string>,
+  skip?: string[]
+): Promise<ToolApprovalResponse> {
+  const user = auth.currentUser;
+  const idToken = user ? await user.getIdToken() : undefined;
+
+  const res = await fetch("/api/tools/approval", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      ...(idToken ? { Authorization: `Bearer ${idToken}` } : {}),
+    },
+    body: JSON.stringify({ approvalId, decision, ...(edits ? { edits } : {}), ...(skip?.length ? { skip } : {}) }),
+  });
+
+  const json = (await res.json().catch(() => ({}))) as ToolApprovalResponse;
+  if (!res.ok && !json.error) json.error = `${res.status} ${res.statusText}`;
+  return json;
+}
@@ -0,0 +1,41 @@
+/**
+ * uploadAttachments
+ * -----------------
+ * Purpose: Client-only helper to upload files picked in the chat input box.
+ *
+ * What it does:
+ * - POSTs `chatId` + `files` as multipart/form-data to `/api/attachments` with the Firebase ID token.
+ * - Returns `{ attachments, errors }`: metadata of the stored files (sent on with the chat
+ *   message as `attachmentIds`) and one message per refused file.
+ *
+ * Gotchas:
+ * - Don't set Content-Type yourself; the browser adds the multipart boundary.
+ * - Non-2xx answers come back as a single entry in `errors`; network errors reject.
+ */
+
+import { auth } from "@/services/firebase";
+import type { ChatAttachment } from "@/types/types";
+
+export type UploadAttachmentsResponse = {
+  attachments: ChatAttachment[];
+  errors: string[];
+};
+
+export async function uploadAttachments(chatId: string, files: File[]): Promise<UploadAttachmentsResponse> {
+  const user = auth.currentUser;
+  const idToken = user ? await user.getIdToken() : undefined;
+
+  const form = new FormData();
+  form.append("chatId", chatId);
+  for (const file of files) form.append("files", file, file.name);
+
+  const res = await fetch("/api/attachments", {
+    method: "POST",
+    headers: idToken ? { Authorization: `Bearer ${idToken}` } : {},
+    body: form,
+  });
+
+  const json = (await res.json().catch(() => ({}))) as Partial<UploadAttachmentsResponse> & { error?: string };
+  if (!res.ok) return { attachments: [], errors: [json.error ?? `${res.status} ${res.statusText}`] };
+  return { attachments: json.attachments ?? [], errors: json.errors ?? [] };
+}
@@ -1,51 +1,109 @@
+/**
+ * mcpClient.ts — MCP JSON-RPC client with pooled sessions (server-only).
+ *
+ * Transports (McpServerConfig.transport):
+ * - "streamable-http": each message is a POST to the endpoint; the answer comes back as JSON
+ *   or as an SSE stream on that response. `Mcp-Session-Id` from initialize is sent after.
+ * - "sse" (legacy): a GET stream whose first `endpoint` event gives the URL to POST to;
+ *   every answer arrives on that one stream.
+ * - "auto": try Streamable HTTP; if initialize gets 400/404/405, fall back to legacy SSE.
+ *
+ * Sessions:
+ * - One initialized session per (endpoint, headers, transport), shared by every call and
+ *   closed after MCP_SESSION_IDLE_MS (default 5 min) without use.
+ * - Each new session does initialize → notifications/initialized.
+ * - Server-initiated `ping` is answered; other server requests get "method not found".
+ * - `onProgress` on a request sends a progressToken; `notifications/progress` for it and
+ *   `notifications/message` (log lines) about it are passed to the callback.
+ *
+ * Gotchas:
+ * - A session that died (stream ended, 404 on its id) is dropped. The call is re-sent on a new
+ *   session only when it provably never reached the server (session already closed, or its
+ *   own POST got the 404); a call cut off after delivery fails, and retrying is up to the caller
+ *   (runners/mcpTool.ts, per the tool's retry policy).
+ * - Timeouts are per request; a timed-out request does not close the shared session.
+ * - `signal` cancels a request: its POST is aborted and the server gets
+ *   notifications/cancelled for the id (the session stays open).
+ * - Log lines carry no request id: they're attributed by the response stream they arrive on
+ *   (Streamable HTTP) or, on a shared legacy stream, only when one request is listening.
+ */
+
 type HeadersInitLike = Record<string, string>;
 
-type MCPRequest = {
+type RequestId = string | number;
+
+type MCPResult =
+  | { jsonrpc: "2.0"; id: RequestId; result: unknown }
+  | { jsonrpc: "2.0"; id: RequestId | null; error: { code: number; message: string } };
+
+/** Anything on the wire: our requests, server responses, server requests, notifications. */
+type JsonRpcMessage = {
   jsonrpc: "2.0";
-  id: string;
-  method: string;
+  id?: RequestId | null;
+  method?: string;
   params?: Record<string, unknown>;
+  result?: unknown;
+  error?: { code: number; message: string };
 };
 
-type MCPResult =
-  | { jsonrpc: "2.0"; id: string; result: unknown }
-  | { jsonrpc: "2.0"; id: string | null; error: { code: number; message: string } };
+export type MCPTransport = "streamable-http" | "sse" | "auto";
 
-function sleep(ms: number) {
-  return new Promise((r) => setTimeout(r, ms));
-}
+/** Protocol version we announce in `initialize`. */
+export const MCP_PROTOCOL_VERSION = "2025-03-26";
 
-/**
- * Open the SSE stream and return:
- * - the session URL to POST JSON-RPC requests
- * - an async iterator yielding parsed SSE {event, data} objects
- */
-export async function openSSESession(baseUrl: string, extraHeaders: HeadersInitLike, abort: AbortController) {
-  const res = await fetch(baseUrl, {
-    method: "GET",
-    headers: {
-      Accept: "text/event-stream, application/json",
-      ...extraHeaders,
-    },
-    signal: abort.signal,
-  });
+/** Result of `initialize`: what the server says about itself. */
+export type MCPServerInfo = {
+  protocolVersion?: string;
+  serverInfo?: { name?: string; version?: string };
+  capabilities?: Record<string, unknown>;
+};
 
-  if (!res.ok || !res.body) {
-    const body = await res.text().catch(() => "");
-    throw new Error(`Failed to open SSE (${res.status}): ${body}`);
-  }
+/** A tool as advertised by `tools/list`. */
+export type MCPToolInfo = {
+  name: string;
+  description?: string;
+  inputSchema?: Record<string, unknown>;
+  /** Behaviour hints (untrusted; only used to decide retries). */
+  annotations?: { readOnlyHint?: boolean; idempotentHint?: boolean; destructiveHint?: boolean };
+};
+
+/** A progress or log notification about an in-flight request. */
+export type MCPProgress = {
+  message?: string;
+  progress?: number;
+  total?: number;
+  /** Set for log lines (notifications/message): "info", "warning", … */
+  level?: string;
+};
 
-  const reader = res.body.getReader();
+export type MCPProgressListener = (update: MCPProgress) => void;
+
+const SESSION_IDLE_MS = Number(process.env.MCP_SESSION_IDLE_MS) || 5 * 60 * 1000;
+
+const newRequestId = () => `kinga-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+// Errors the pool reacts to are tagged, not subclassed.
+// "undelivered": the session was gone before the server got the request, so it is safe to re-send.
+type TaggedError = Error & { mcp?: "session_closed" | "undelivered" | "transport_mismatch" };
+
+function taggedError(mcp: TaggedError["mcp"], message: string): TaggedError {
+  return Object.assign(new Error(message), { mcp });
+}
+
+const isTagged = (err: unknown, mcp: TaggedError["mcp"]) =>
+  err instanceof Error && (err as TaggedError).mcp === mcp;
+
+/** Yield parsed SSE {event, data} frames until the body ends. */
+async function* readSSE(body: ReadableStream<Uint8Array>) {
+  const reader = body.getReader();
   const decoder = new TextDecoder();
   let buffer = "";
 
-  let sessionUrl: string | null = null;
-
-  async function* events() {
+  try {
     while (true) {
       const { done, value } = await reader.read();
       if (done) break;
-      buffer += decoder.decode(value, { stream: true });
+      buffer += decoder.decode(value, { stream: true }).replace(/\r\n/g, "\n");
 
       // Split into SSE "events" (double newline separates events)
       let idx: number;
@@ -54,107 +112,480 @@ export async function openSSESession(baseUrl: string, extraHeaders: HeadersInitL
         buffer = buffer.slice(idx + 2);
 
         // Parse lines like: "event: message" / "data: {...}"
-        let ev = "message";
+        let event = "message";
         let data = "";
-        for (const line of chunk.split(/\r?\n/)) {
-          if (line.startsWith("event:")) ev = line.slice(6).trim();
+        for (const line of chunk.split("\n")) {
+          if (line.startsWith("event:")) event = line.slice(6).trim();
           else if (line.startsWith("data:")) data += line.slice(5).trim();
         }
+        yield { event, data };
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/** One JSON-RPC message or a batch. Unparseable data is dropped. */
+function parseMessages(data: string): JsonRpcMessage[] {
+  try {
+    const parsed = JSON.parse(data) as JsonRpcMessage | JsonRpcMessage[];
+    return Array.isArray(parsed) ? parsed : [parsed];
+  } catch {
+    return [];
+  }
+}
+
+// -----------------------------
+// Sessions
+// -----------------------------
+type Pending = {
+  resolve: (m: MCPResult) => void;
+  reject: (e: Error) => void;
+  onProgress?: MCPProgressListener;
+};
+
+abstract class McpSession {
+  abstract readonly transport: Exclude<MCPTransport, "auto">;
+  server?: MCPServerInfo;
+  closed = false;
+  onClosed?: () => void;
+
+  protected pending = new Map<RequestId, Pending>();
+  private idleTimer?: ReturnType<typeof setTimeout>;
+
+  constructor(
+    protected baseUrl: string,
+    protected headers: HeadersInitLike
+  ) {}
+
+  /** Deliver one message to the server; answers come back through handleMessage. */
+  protected abstract send(message: JsonRpcMessage, signal?: AbortSignal): Promise<void>;
+  abstract close(): Promise<void>;
+
+  /** Send a request and wait for the response carrying its id. */
+  async request(
+    method: string,
+    params?: Record<string, unknown>,
+    opts: { timeoutMs?: number; onProgress?: MCPProgressListener; signal?: AbortSignal } = {}
+  ): Promise<MCPResult> {
+    if (this.closed) throw taggedError("undelivered", "MCP session closed");
+    const { timeoutMs = 20000, onProgress, signal } = opts;
+    signal?.throwIfAborted();
+    const id = newRequestId();
+    const abort = new AbortController();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let onCancel: (() => void) | undefined;
+
+    const answered = new Promise<MCPResult>((resolve, reject) => {
+      this.pending.set(id, { resolve, reject, onProgress });
+      timer = setTimeout(() => {
+        abort.abort("MCP timeout");
+        reject(new Error(`MCP ${method} timed out after ${timeoutMs}ms`));
+      }, timeoutMs);
+
+      // Caller cancelled: stop waiting and tell the server to stop working on it
+      onCancel = () => {
+        abort.abort("MCP request cancelled");
+        reject(new Error(`MCP ${method} cancelled`));
+        void this.notify("notifications/cancelled", { requestId: id, reason: "Cancelled by the user" });
+      };
+      signal?.addEventListener("abort", onCancel, { once: true });
+    });
+    this.touch();
+
+    // The request id doubles as the progress token
+    if (onProgress) params = { ...params, _meta: { progressToken: id } };
+
+    try {
+      // Fire the JSON-RPC call; a failed POST rejects before any answer
+      await Promise.race([this.send({ jsonrpc: "2.0", id, method, ...(params ? { params } : {}) }, abort.signal), answered]);
+      return await answered;
+    } finally {
+      clearTimeout(timer);
+      if (onCancel) signal?.removeEventListener("abort", onCancel);
+      this.pending.delete(id);
+      this.touch();
+    }
+  }
+
+  /** POST a JSON-RPC notification (no id, no response expected). */
+  async notify(method: string, params?: Record<string, unknown>) {
+    await this.send({ jsonrpc: "2.0", method, ...(params ? { params } : {}) }).catch(() => {
+      // best effort; servers that need it will reject the next request anyway
+    });
+  }
+
+  /** MCP handshake: initialize → notifications/initialized. */
+  async initialize() {
+    const init = await this.request(
+      "initialize",
+      {
+        protocolVersion: MCP_PROTOCOL_VERSION,
+        capabilities: {},
+        clientInfo: { name: "kinga", version: "1.0.0" },
+      },
+      { timeoutMs: 15000 }
+    );
+    if ("error" in init) throw new Error(`MCP initialize failed: ${init.error.message}`);
+    this.server = init.result as MCPServerInfo;
+    await this.notify("notifications/initialized");
+  }
+
+  /**
+   * Route an incoming message: answer server requests, resolve pending responses,
+   * pass progress/log notifications to the request they're about.
+   * `origin` is the request whose response stream carried it (Streamable HTTP).
+   */
+  protected handleMessage(msg: JsonRpcMessage, origin?: RequestId) {
+    if (msg.method && msg.id != null) {
+      void this.send(
+        msg.method === "ping"
+          ? { jsonrpc: "2.0", id: msg.id, result: {} }
+          : { jsonrpc: "2.0", id: msg.id, error: { code: -32601, message: `Method not found: ${msg.method}` } }
+      ).catch(() => {});
+      return;
+    }
+    if (msg.id != null && ("result" in msg || "error" in msg)) {
+      this.pending.get(msg.id)?.resolve(msg as MCPResult);
+      return;
+    }
+    if (msg.method === "notifications/progress") {
+      const p = msg.params ?? {};
+      const token = p.progressToken as RequestId | undefined;
+      if (token == null) return;
+      this.pending.get(token)?.onProgress?.({
+        message: typeof p.message === "string" ? p.message : undefined,
+        progress: typeof p.progress === "number" ? p.progress : undefined,
+        total: typeof p.total === "number" ? p.total : undefined,
+      });
+      return;
+    }
+    if (msg.method === "notifications/message") {
+      const p = msg.params ?? {};
+      const data = p.data as unknown;
+      const text =
+        typeof data === "string"
+          ? data
+          : data && typeof data === "object" && typeof (data as { message?: unknown }).message === "string"
+            ? (data as { message: string }).message
+            : undefined;
+      if (!text) return;
+
+      const listening = [...this.pending.entries()].filter(([, entry]) => entry.onProgress);
+      const target =
+        origin != null ? this.pending.get(origin) : listening.length === 1 ? listening[0][1] : undefined;
+      target?.onProgress?.({ message: text, level: typeof p.level === "string" ? p.level : "info" });
+    }
+  }
+
+  /** `undelivered`: id of a request the server refused with the session (its POST got a 404). */
+  protected markClosed(reason: string, undelivered?: RequestId) {
+    if (this.closed) return;
+    this.closed = true;
+    clearTimeout(this.idleTimer);
+    for (const [id, p] of this.pending) p.reject(taggedError(id === undelivered ? "undelivered" : "session_closed", reason));
+    this.pending.clear();
+    this.onClosed?.();
+  }
+
+  /** (Re)arm the idle timer; unref'd so an idle session never keeps the process alive. */
+  private touch() {
+    clearTimeout(this.idleTimer);
+    if (this.closed) return;
+    this.idleTimer = setTimeout(() => {
+      if (this.pending.size) this.touch();
+      else void this.close();
+    }, SESSION_IDLE_MS);
+    this.idleTimer.unref?.();
+  }
+}
+
+/** Streamable HTTP: every message is its own POST; the answer rides on that response. */
+class StreamableHttpSession extends McpSession {
+  readonly transport = "streamable-http" as const;
+  private sessionId?: string;
+
+  protected async send(message: JsonRpcMessage, signal?: AbortSignal) {
+    const res = await fetch(this.baseUrl, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Accept: "application/json, text/event-stream",
+        ...(this.sessionId ? { "Mcp-Session-Id": this.sessionId } : {}),
+        ...(this.server?.protocolVersion ? { "MCP-Protocol-Version": this.server.protocolVersion } : {}),
+        ...this.headers,
+      },
+      body: JSON.stringify(message),
+      signal,
+    });
+
+    if (message.method === "initialize") {
+      // Legacy SSE servers don't accept a POST on the base URL
+      if ([400, 404, 405].includes(res.status)) {
+        throw taggedError("transport_mismatch", `Streamable HTTP not supported (${res.status})`);
+      }
+      this.sessionId = res.headers.get("mcp-session-id") ?? undefined;
+    } else if (res.status === 404 && this.sessionId) {
+      // Server forgot the session (and didn't run this message); the pool starts a new one
+      this.markClosed("MCP session expired", message.id ?? undefined);
+      throw taggedError("undelivered", "MCP session expired");
+    }
+
+    if (!res.ok) {
+      const txt = await res.text().catch(() => "");
+      throw new Error(`MCP POST ${message.method ?? "response"} failed (${res.status}): ${txt}`);
+    }
 
-        // First event from n8n is "endpoint" with the session path
-        if (!sessionUrl && ev === "endpoint" && data) {
-          // data is a path like /mcp/kinga-base-mcp?sessionId=...
-          const url = new URL(data, baseUrl);
-          sessionUrl = url.toString();
+    // Notifications and our replies: 202 Accepted, no body
+    if (res.status === 202 || !res.body) return;
+
+    if ((res.headers.get("content-type") || "").includes("text/event-stream")) {
+      // Pings, progress and the response can interleave on this stream; read it to the end
+      void (async () => {
+        try {
+          for await (const evt of readSSE(res.body!)) {
+            if (evt.event === "message" && evt.data) {
+              parseMessages(evt.data).forEach((m) => this.handleMessage(m, message.id ?? undefined));
+            }
+          }
+        } catch {
+          // aborted by timeout; request() already rejected
         }
+      })();
+      return;
+    }
+
+    const text = await res.text();
+    if (text) parseMessages(text).forEach((m) => this.handleMessage(m, message.id ?? undefined));
+  }
+
+  async close() {
+    const sessionId = this.sessionId;
+    this.markClosed("MCP session closed");
+    if (!sessionId) return;
+    await fetch(this.baseUrl, {
+      method: "DELETE",
+      headers: { "Mcp-Session-Id": sessionId, ...this.headers },
+    }).catch(() => {});
+  }
+}
+
+/** Legacy SSE: one long-lived GET stream carries every answer; messages are POSTed to its endpoint. */
+class LegacySseSession extends McpSession {
+  readonly transport = "sse" as const;
+  private sessionUrl: string | null = null;
+  private abort = new AbortController();
 
-        yield { event: ev, data };
+  /** Open the SSE stream, wait for the session URL, then pump the stream in the background. */
+  async open(timeoutMs = 15000) {
+    const timer = setTimeout(() => this.abort.abort("SSE timeout"), timeoutMs);
+    try {
+      const res = await fetch(this.baseUrl, {
+        method: "GET",
+        headers: {
+          Accept: "text/event-stream, application/json",
+          ...this.headers,
+        },
+        signal: this.abort.signal,
+      });
+
+      if (!res.ok || !res.body) {
+        const body = await res.text().catch(() => "");
+        throw new Error(`Failed to open SSE (${res.status}): ${body}`);
+      }
+
+      // Pulled with next() so the stream stays open after the endpoint event
+      const events = readSSE(res.body);
+      while (!this.sessionUrl) {
+        const { done, value } = await events.next();
+        if (done) throw new Error("No session URL received from SSE endpoint.");
+        // First event from n8n is "endpoint" with the session path, like /mcp/kinga-base-mcp?sessionId=...
+        if (value.event === "endpoint" && value.data) this.sessionUrl = new URL(value.data, this.baseUrl).toString();
       }
+
+      void (async () => {
+        try {
+          for await (const evt of events) {
+            if (evt.event === "message" && evt.data) parseMessages(evt.data).forEach((m) => this.handleMessage(m));
+          }
+        } catch {
+          // aborted (close) or dropped
+        }
+        this.markClosed("MCP SSE stream ended");
+      })();
+    } catch (err) {
+      this.abort.abort();
+      throw err;
+    } finally {
+      clearTimeout(timer);
     }
   }
 
-  // Wait briefly for the endpoint event to populate sessionUrl
-  const it = events();
-  for await (const e of it) {
-    if (e.event === "endpoint") break;
+  protected async send(message: JsonRpcMessage, signal?: AbortSignal) {
+    if (!this.sessionUrl || this.closed) throw taggedError("undelivered", "MCP SSE session not open");
+    const res = await fetch(this.sessionUrl, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Accept: "application/json, text/event-stream",
+        ...this.headers,
+      },
+      body: JSON.stringify(message),
+      signal,
+    });
+    // Server may return 200 with empty body; actual result arrives via SSE stream.
+    // Still surface HTTP errors early:
+    if (res.status === 404) {
+      this.markClosed("MCP SSE session expired", message.id ?? undefined);
+      throw taggedError("undelivered", "MCP SSE session expired");
+    }
+    if (!res.ok) {
+      const txt = await res.text().catch(() => "");
+      throw new Error(`MCP POST ${message.method ?? "response"} failed (${res.status}): ${txt}`);
+    }
   }
-  if (!sessionUrl) throw new Error("No session URL received from SSE endpoint.");
 
-  // Re-create iterator so caller can consume all subsequent events (including results)
-  const stream = events();
-  return { sessionUrl, stream };
+  async close() {
+    this.markClosed("MCP session closed");
+    try {
+      this.abort.abort(); // close SSE
+    } catch {}
+  }
 }
 
-/** POST a JSON-RPC payload to the session URL */
-async function postJSONRPC(sessionUrl: string, body: MCPRequest, extraHeaders: HeadersInitLike) {
-  const res = await fetch(sessionUrl, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      Accept: "application/json, text/event-stream",
-      ...extraHeaders,
-    },
-    body: JSON.stringify(body),
-  });
-  // Server may return 200 with empty body; actual result arrives via SSE stream.
-  // Still surface HTTP errors early:
-  if (!res.ok) {
-    const txt = await res.text().catch(() => "");
-    throw new Error(`MCP POST ${body.method} failed (${res.status}): ${txt}`);
+// -----------------------------
+// Session pool
+// -----------------------------
+const SESSION_POOL = new Map<string, Promise<McpSession>>();
+
+const poolKey = (baseUrl: string, headers: HeadersInitLike, transport: MCPTransport) =>
+  `${transport} ${baseUrl} ${JSON.stringify(Object.entries(headers).sort())}`;
+
+async function openSession(baseUrl: string, headers: HeadersInitLike, transport: MCPTransport): Promise<McpSession> {
+  if (transport !== "sse") {
+    const http = new StreamableHttpSession(baseUrl, headers);
+    try {
+      await http.initialize();
+      return http;
+    } catch (err) {
+      await http.close();
+      if (transport === "streamable-http" || !isTagged(err, "transport_mismatch")) throw err;
+      // "auto" on a legacy server: fall through to SSE
+    }
   }
+
+  const sse = new LegacySseSession(baseUrl, headers);
+  await sse.open();
+  try {
+    await sse.initialize();
+    return sse;
+  } catch (err) {
+    await sse.close();
+    throw err;
+  }
+}
+
+/** Pooled, initialized session for this server; concurrent callers share one handshake. */
+async function getSession(baseUrl: string, headers: HeadersInitLike, transport: MCPTransport): Promise<McpSession> {
+  const key = poolKey(baseUrl, headers, transport);
+  const existing = SESSION_POOL.get(key);
+  if (existing) {
+    const session = await existing.catch(() => null);
+    if (session && !session.closed) return session;
+  }
+
+  const drop = () => {
+    if (SESSION_POOL.get(key) === opening) SESSION_POOL.delete(key);
+  };
+  const opening = openSession(baseUrl, headers, transport);
+  SESSION_POOL.set(key, opening);
+  opening.then((s) => (s.onClosed = drop), drop);
+  return opening;
+}
+
+/**
+ * Run `fn` on a pooled session; if that session was gone before the server got the request,
+ * run it once more on a new one. A request lost after delivery (stream ended while waiting)
+ * is not re-sent here: it may have run, and only the caller knows whether repeating is safe.
+ */
+async function withSession<T>(
+  opts: { baseUrl: string; headers: HeadersInitLike; transport?: MCPTransport },
+  fn: (session: McpSession) => Promise<T>
+): Promise<T> {
+  const { baseUrl, headers, transport = "auto" } = opts;
+  try {
+    return await fn(await getSession(baseUrl, headers, transport));
+  } catch (err) {
+    if (!isTagged(err, "undelivered")) throw err;
+    return fn(await getSession(baseUrl, headers, transport));
+  }
+}
+
+/** Close every pooled session (shutdown, scripts). */
+export async function closeMCPSessions() {
+  const sessions = [...SESSION_POOL.values()];
+  SESSION_POOL.clear();
+  await Promise.all(sessions.map((s) => s.then((x) => x.close()).catch(() => {})));
 }
 
+// -----------------------------
+// Public API
+// -----------------------------
+
 /**
  * Call a single MCP tool and resolve with its JSON-RPC result.
- * - Opens SSE
- * - Sends tools/call
- * - Waits for matching id on the SSE stream
+ * - Reuses the server's pooled session (opening + initializing one if needed)
+ * - Sends tools/call and waits for the matching id
+ * - `onProgress` receives the server's progress notifications and log lines for this call
+ * - `signal` cancels the call (notifications/cancelled is sent to the server)
  */
-export async function callMCPToolSSE(opts: {
+export async function callMCPTool(opts: {
   baseUrl: string;
   headers: HeadersInitLike;
+  transport?: MCPTransport;
   toolName: string;
   args: Record<string, unknown>;
   timeoutMs?: number;
+  onProgress?: MCPProgressListener;
+  signal?: AbortSignal;
 }): Promise<MCPResult> {
-  const { baseUrl, headers, toolName, args, timeoutMs = 20000 } = opts;
+  const { toolName, args, timeoutMs, onProgress, signal } = opts;
+  return withSession(opts, (session) =>
+    session.request("tools/call", { name: toolName, arguments: args }, { timeoutMs, onProgress, signal })
+  );
+}
 
-  const abort = new AbortController();
-  const timeout = setTimeout(() => abort.abort("SSE timeout"), timeoutMs);
+/**
+ * List the server's tools (follows `nextCursor` pages) and what it said in initialize.
+ */
+export async function listMCPTools(opts: {
+  baseUrl: string;
+  headers: HeadersInitLike;
+  transport?: MCPTransport;
+  timeoutMs?: number;
+}): Promise<{ server?: MCPServerInfo; tools: MCPToolInfo[] }> {
+  return withSession(opts, async (session) => {
+    const tools: MCPToolInfo[] = [];
+    let cursor: string | undefined;
 
-  try {
-    const { sessionUrl, stream } = await openSSESession(baseUrl, headers, abort);
-
-    const id = `kinga-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
-
-    // Fire the JSON-RPC call (do not await SSE before posting)
-    await postJSONRPC(sessionUrl, {
-      jsonrpc: "2.0",
-      id,
-      method: "tools/call",
-      params: { name: toolName, arguments: args },
-    }, headers);
-
-    // Wait for matching id in SSE stream
-    for await (const evt of stream as AsyncIterable<{ event: string; data: string }>) {
-      if (evt.event !== "message" || !evt.data) continue;
-      let payload: MCPResult | null = null;
-      try {
-        payload = JSON.parse(evt.data) as MCPResult;
-      } catch {
-        continue;
-      }
-      if ("id" in payload && payload.id === id) {
-        return payload;
+    // Guard against servers that keep returning a cursor
+    for (let page = 0; page < 10; page++) {
+      const res = await session.request("tools/list", cursor ? { cursor } : undefined, {
+        timeoutMs: opts.timeoutMs,
+      });
+      if ("error" in res) throw new Error(`MCP tools/list failed: ${res.error.message}`);
+
+      const body = res.result as { tools?: unknown; nextCursor?: unknown } | undefined;
+      for (const t of Array.isArray(body?.tools) ? body.tools : []) {
+        if (t && typeof t === "object" && typeof (t as MCPToolInfo).name === "string") {
+          tools.push(t as MCPToolInfo);
+        }
       }
+      cursor = typeof body?.nextCursor === "string" && body.nextCursor ? body.nextCursor : undefined;
+      if (!cursor) break;
     }
 
-    throw new Error("SSE stream ended before receiving a matching result.");
-  } finally {
-    clearTimeout(timeout);
-    try {
-      abort.abort(); // close SSE
-    } catch {}
-    await sleep(10);
-  }
+    return { server: session.server, tools };
+  });
 }
@@ -0,0 +1,97 @@
+/**
+ * models/registry.ts — server-authoritative model registry (server-only).
+ *
+ * What it decides:
+ * - Which providers are usable (API key present in env).
+ * - Which models a user may use: provider configured AND allowed by policy.
+ * - What /api/chat actually runs: the registry entry, never the client's modelConfig.
+ *
+ * Policy (Firestore, most specific wins):
+ * - users/{uid}/featurePermissions/models  → { allowed: string[] }   (model ids)
+ * - orgs/{orgId}                           → { allowedModels: string[] } via users/{uid}.orgId
+ * - Neither present → every model whose provider is configured.
+ */
+
+import type { ModelConfig, ModelProvider } from "@/types/types";
+import { AVAILABLE_MODELS, DEFAULT_MODEL } from "@/config/modelConfig";
+import { adminDb } from "@/services/firebaseAdmin";
+import { getUserOrgId } from "@/services/orgs";
+
+const PROVIDER_KEYS: Record<ModelProvider, string> = {
+  OpenAI: "OPENAI_API_KEY",
+  Google: "GEMINI_API_KEY",
+  Anthropic: "ANTHROPIC_API_KEY",
+};
+
+/** Providers with an API key configured on this deployment. */
+export function configuredProviders(): ModelProvider[] {
+  return (Object.keys(PROVIDER_KEYS) as ModelProvider[]).filter((p) => !!process.env[PROVIDER_KEYS[p]]);
+}
+
+const asIdList = (v: unknown): string[] | null =>
+  Array.isArray(v) ? v.filter((x): x is string => typeof x === "string") : null;
+
+/** Allowed model ids for this user, or null when no policy restricts them. */
+async function readModelPolicy(userId: string): Promise<string[] | null> {
+  try {
+    const userPolicy = await adminDb
+      .collection("users")
+      .doc(userId)
+      .collection("featurePermissions")
+      .doc("models")
+      .get();
+    const userAllowed = asIdList(userPolicy.data()?.allowed);
+    if (userAllowed) return userAllowed;
+
+    const orgId = await getUserOrgId(userId);
+    if (orgId) {
+      const orgDoc = await adminDb.collection("orgs").doc(orgId).get();
+      const orgAllowed = asIdList(orgDoc.data()?.allowedModels);
+      if (orgAllowed) return orgAllowed;
+    }
+  } catch (error) {
+    console.error("Error reading model policy:", error);
+  }
+  return null;
+}
+
+/** Models this user may use right now (registry order). */
+export async function getAllowedModels(userId: string | null): Promise<ModelConfig[]> {
+  const providers = new Set(configuredProviders());
+  const policy = userId ? await readModelPolicy(userId) : null;
+
+  return AVAILABLE_MODELS.filter(
+    (m) => providers.has(m.provider) && (!policy || policy.includes(m.id))
+  );
+}
+
+/** Preferred default among the allowed models. */
+export function pickDefaultModel(allowed: ModelConfig[]): ModelConfig | null {
+  return allowed.find((m) => m.id === DEFAULT_MODEL.id) ?? allowed[0] ?? null;
+}
+
+export type ResolvedModel =
+  | { ok: true; modelConfig: ModelConfig; remapped: boolean }
+  | { ok: false; reason: string };
+
+/**
+ * Map a client-supplied modelConfig to a registry entry the user may use.
+ * Unknown or disallowed ids are remapped to the default; no allowed model → rejected.
+ */
+export async function resolveModelForUser(
+  userId: string,
+  requested: Partial<ModelConfig> | undefined
+): Promise<ResolvedModel> {
+  const allowed = await getAllowedModels(userId);
+  const match = requested?.id ? allowed.find((m) => m.id === requested.id) : undefined;
+  if (match) return { ok: true, modelConfig: match, remapped: false };
+
+  const fallback = pickDefaultModel(allowed);
+  if (!fallback) {
+    return { ok: false, reason: "No models are available for your account. Please contact your admin." };
+  }
+  if (requested?.id) {
+    console.warn(`[models] "${requested.id}" not allowed for ${userId}; using "${fallback.id}"`);
+  }
+  return { ok: true, modelConfig: fallback, remapped: true };
+}
@@ -0,0 +1,139 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import message from "./fixtures/anthropic-message.json";
+import streamed from "./fixtures/anthropic-stream.json";
+import { providerRequest } from "./fixtures/request";
+
+const create = vi.hoisted(() => vi.fn());
+const stream = vi.hoisted(() => vi.fn());
+vi.mock("@anthropic-ai/sdk", () => ({
+  default: class {
+    messages = { create, stream };
+  },
+}));
+
+import { anthropicAdapter } from "@/lib/providers/anthropic";
+
+/** Replays the recorded text events, then resolves the final message (like MessageStream). */
+function recordedStream() {
+  const listeners: Array<(text: string) => void> = [];
+  return {
+    on(event: string, cb: (text: string) => void) {
+      if (event === "text") listeners.push(cb);
+      return this;
+    },
+    async finalMessage() {
+      for (const text of streamed.text) listeners.forEach((cb) => cb(text));
+      return streamed.finalMessage;
+    },
+  };
+}
+
+beforeEach(() => {
+  create.mockReset();
+  stream.mockReset();
+  process.env.ANTHROPIC_API_KEY = "test-key";
+});
+
+describe("anthropicAdapter request translation", () => {
+  it("puts context blocks in `system` and replays tool steps as tool_use / tool_result", async () => {
+    create.mockResolvedValue(message);
+    await anthropicAdapter.complete(providerRequest());
+
+    const [params] = create.mock.calls[0];
+    expect(params.system).toBe("You are a test assistant.\n\nDOCUMENT CONTEXT:\nDraft v1");
+    expect(params).toMatchObject({ model: "test-model", max_tokens: 4096, temperature: 0 });
+    expect(params.messages).toEqual([
+      { role: "user", content: [{ type: "text", text: "Who runs Acme?" }] },
+      { role: "assistant", content: [{ type: "text", text: "Jane Doe is the CEO." }] },
+      { role: "user", content: [{ type: "text", text: "Find Jane's email." }] },
+      {
+        role: "assistant",
+        content: [
+          {
+            type: "tool_use",
+            id: "call_0",
+            name: "email_finder",
+            input: { linkedin_url: "https://www.linkedin.com/in/jane" },
+          },
+        ],
+      },
+      {
+        role: "user",
+        content: [
+          { type: "tool_result", tool_use_id: "call_0", content: '{"status":"ok","summary":"Found jane@acme.com"}' },
+        ],
+      },
+    ]);
+    expect(params.tools).toEqual([
+      {
+        name: "email_finder",
+        description: "Find a work email from a LinkedIn profile.",
+        input_schema: providerRequest().tools[0].parameters,
+      },
+    ]);
+    expect(params.tool_choice).toEqual({ type: "auto" });
+  });
+
+  it("merges same-role turns and drops a leading assistant turn", async () => {
+    create.mockResolvedValue(message);
+    await anthropicAdapter.complete(
+      providerRequest({
+        history: [
+          { role: "assistant", content: "Hi! How can I help?" },
+          { role: "user", content: "First" },
+          { role: "user", content: "Second" },
+        ],
+        toolTurns: [],
+      })
+    );
+    expect(create.mock.calls[0][0].messages).toEqual([
+      {
+        role: "user",
+        content: [
+          { type: "text", text: "First" },
+          { type: "text", text: "Second" },
+          { type: "text", text: "Find Jane's email." },
+        ],
+      },
+    ]);
+  });
+
+  it("forces the nudged tool and omits tools when there are none", async () => {
+    create.mockResolvedValue(message);
+    await anthropicAdapter.complete(providerRequest({ forceTool: "email_finder" }));
+    expect(create.mock.calls[0][0].tool_choice).toEqual({ type: "tool", name: "email_finder" });
+
+    await anthropicAdapter.complete(providerRequest({ tools: [] }));
+    expect(create.mock.calls[1][0]).not.toHaveProperty("tools");
+    expect(create.mock.calls[1][0]).not.toHaveProperty("tool_choice");
+  });
+});
+
+describe("anthropicAdapter response normalization", () => {
+  it("joins text blocks and serializes tool_use inputs", async () => {
+    create.mockResolvedValue(message);
+    const res = await anthropicAdapter.complete(providerRequest());
+    expect(res).toEqual({
+      content: "Let me look both up.",
+      toolCalls: [
+        { id: "toolu_01", name: "search", arguments: '{"query":"Acme Corp"}' },
+        { id: "toolu_02", name: "search", arguments: '{"query":"Globex"}' },
+      ],
+      usage: { promptTokens: 523, completionTokens: 61 },
+    });
+  });
+
+  it("streams text events and normalizes the final message", async () => {
+    stream.mockReturnValue(recordedStream());
+    const deltas: string[] = [];
+    const res = await anthropicAdapter.complete(providerRequest({ onDelta: (t) => deltas.push(t) }));
+
+    expect(create).not.toHaveBeenCalled();
+    expect(deltas).toEqual(["Jane's email ", "is jane@acme.com."]);
+    expect(res).toEqual({
+      content: "Jane's email is jane@acme.com.",
+      toolCalls: [],
+      usage: { promptTokens: 480, completionTokens: 12 },
+    });
+  });
+});
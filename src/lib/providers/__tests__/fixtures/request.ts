@@ -0,0 +1,40 @@
+/**
+ * request.ts — one ProviderRequest shared by the adapter tests: history, a context block,
+ * a finished tool step and one tool, so every translation path is exercised.
+ */
+
+import type { ProviderRequest } from "@/lib/providers/types";
+
+export function providerRequest(overrides: Partial<ProviderRequest> = {}): ProviderRequest {
+  return {
+    modelConfig: { id: "test-model", name: "Test", provider: "OpenAI", model: "test-model", contextLength: 8192 },
+    system: "You are a test assistant.",
+    contextBlocks: ["DOCUMENT CONTEXT:\nDraft v1"],
+    history: [
+      { role: "user", content: "Who runs Acme?" },
+      { role: "assistant", content: "Jane Doe is the CEO." },
+    ],
+    message: "Find Jane's email.",
+    toolTurns: [
+      {
+        toolCallId: "call_0",
+        toolName: "email_finder",
+        toolArgs: { linkedin_url: "https://www.linkedin.com/in/jane" },
+        result: '{"status":"ok","summary":"Found jane@acme.com"}',
+      },
+    ],
+    tools: [
+      {
+        name: "email_finder",
+        description: "Find a work email from a LinkedIn profile.",
+        parameters: {
+          type: "object",
+          properties: { linkedin_url: { type: "string", format: "uri", pattern: "^https://" } },
+          required: ["linkedin_url"],
+          additionalProperties: false,
+        },
+      },
+    ],
+    ...overrides,
+  };
+}
@@ -0,0 +1,128 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import recorded from "./fixtures/gemini-response.json";
+import streamed from "./fixtures/gemini-stream.json";
+import { providerRequest } from "./fixtures/request";
+
+const getGenerativeModel = vi.hoisted(() => vi.fn());
+vi.mock("@google/generative-ai", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@google/generative-ai")>()),
+  GoogleGenerativeAI: class {
+    getGenerativeModel = getGenerativeModel;
+  },
+}));
+
+import { FunctionCallingMode } from "@google/generative-ai";
+import { geminiAdapter } from "@/lib/providers/gemini";
+
+async function* replay<T>(items: T[]) {
+  for (const item of items) yield item;
+}
+
+const generateContent = vi.fn();
+const generateContentStream = vi.fn();
+
+beforeEach(() => {
+  generateContent.mockReset();
+  generateContentStream.mockReset();
+  getGenerativeModel.mockReset();
+  getGenerativeModel.mockReturnValue({ generateContent, generateContentStream });
+  process.env.GEMINI_API_KEY = "test-key";
+});
+
+describe("geminiAdapter request translation", () => {
+  it("builds systemInstruction, model/user roles and function parts", async () => {
+    generateContent.mockResolvedValue({ response: recorded });
+    await geminiAdapter.complete(providerRequest());
+
+    const [modelParams] = getGenerativeModel.mock.calls[0];
+    expect(modelParams.systemInstruction).toBe("You are a test assistant.\n\nDOCUMENT CONTEXT:\nDraft v1");
+    expect(modelParams.toolConfig).toEqual({ functionCallingConfig: { mode: FunctionCallingMode.AUTO } });
+
+    const [{ contents }] = generateContent.mock.calls[0];
+    expect(contents).toEqual([
+      { role: "user", parts: [{ text: "Who runs Acme?" }] },
+      { role: "model", parts: [{ text: "Jane Doe is the CEO." }] },
+      { role: "user", parts: [{ text: "Find Jane's email." }] },
+      {
+        role: "model",
+        parts: [{ functionCall: { name: "email_finder", args: { linkedin_url: "https://www.linkedin.com/in/jane" } } }],
+      },
+      {
+        role: "function",
+        parts: [
+          { functionResponse: { name: "email_finder", response: { status: "ok", summary: "Found jane@acme.com" } } },
+        ],
+      },
+    ]);
+  });
+
+  it("prunes schemas to the keys Gemini accepts", async () => {
+    generateContent.mockResolvedValue({ response: recorded });
+    await geminiAdapter.complete(providerRequest());
+
+    const [{ tools }] = getGenerativeModel.mock.calls[0];
+    expect(tools[0].functionDeclarations[0]).toEqual({
+      name: "email_finder",
+      description: "Find a work email from a LinkedIn profile.",
+      parameters: {
+        type: "object",
+        properties: { linkedin_url: { type: "string", format: "uri" } },
+        required: ["linkedin_url"],
+      },
+    });
+  });
+
+  it("wraps non-object tool results and forces the nudged tool", async () => {
+    generateContent.mockResolvedValue({ response: recorded });
+    const base = providerRequest();
+    await geminiAdapter.complete(
+      providerRequest({ forceTool: "email_finder", toolTurns: [{ ...base.toolTurns[0], result: "not json" }] })
+    );
+
+    const [modelParams] = getGenerativeModel.mock.calls[0];
+    expect(modelParams.toolConfig).toEqual({
+      functionCallingConfig: { mode: FunctionCallingMode.ANY, allowedFunctionNames: ["email_finder"] },
+    });
+    const [{ contents }] = generateContent.mock.calls[0];
+    expect(contents[contents.length - 1].parts[0].functionResponse.response).toEqual({ content: "not json" });
+  });
+
+  it("sends no tool config without tools", async () => {
+    generateContent.mockResolvedValue({ response: recorded });
+    await geminiAdapter.complete(providerRequest({ tools: [] }));
+    const [modelParams] = getGenerativeModel.mock.calls[0];
+    expect(modelParams).not.toHaveProperty("tools");
+    expect(modelParams).not.toHaveProperty("toolConfig");
+  });
+});
+
+describe("geminiAdapter response normalization", () => {
+  it("mints distinct ids for parallel function calls", async () => {
+    generateContent.mockResolvedValue({ response: recorded });
+    const res = await geminiAdapter.complete(providerRequest());
+
+    expect(res.content).toBe("");
+    expect(res.usage).toEqual({ promptTokens: 301, completionTokens: 24 });
+    expect(res.toolCalls.map(({ name, arguments: args }) => ({ name, args }))).toEqual([
+      { name: "search", args: '{"query":"Acme Corp"}' },
+      { name: "search", args: '{"query":"Globex"}' },
+    ]);
+    expect(new Set(res.toolCalls.map((c) => c.id)).size).toBe(2);
+  });
+
+  it("streams chunk text and normalizes the aggregated response", async () => {
+    generateContentStream.mockResolvedValue({
+      stream: replay(streamed.chunks),
+      response: Promise.resolve(streamed.response),
+    });
+    const deltas: string[] = [];
+    const res = await geminiAdapter.complete(providerRequest({ onDelta: (t) => deltas.push(t) }));
+
+    expect(deltas).toEqual(["Jane's email ", "is jane@acme.com."]);
+    expect(res).toEqual({
+      content: "Jane's email is jane@acme.com.",
+      toolCalls: [],
+      usage: { promptTokens: 280, completionTokens: 9 },
+    });
+  });
+});
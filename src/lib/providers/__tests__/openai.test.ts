@@ -0,0 +1,117 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import completion from "./fixtures/openai-completion.json";
+import streamChunks from "./fixtures/openai-stream.json";
+import { providerRequest } from "./fixtures/request";
+
+const create = vi.hoisted(() => vi.fn());
+vi.mock("openai", () => ({
+  default: class {
+    chat = { completions: { create } };
+  },
+}));
+
+import { openAIAdapter } from "@/lib/providers/openai";
+
+async function* replay<T>(items: T[]) {
+  for (const item of items) yield item;
+}
+
+beforeEach(() => {
+  create.mockReset();
+  process.env.OPENAI_API_KEY = "test-key";
+});
+
+describe("openAIAdapter request translation", () => {
+  it("orders system, history, context blocks, the message and replayed tool steps", async () => {
+    create.mockResolvedValue(completion);
+    await openAIAdapter.complete(providerRequest());
+
+    const [params] = create.mock.calls[0];
+    expect(params.messages).toEqual([
+      { role: "system", content: "You are a test assistant." },
+      { role: "user", content: "Who runs Acme?" },
+      { role: "assistant", content: "Jane Doe is the CEO." },
+      { role: "system", content: "DOCUMENT CONTEXT:\nDraft v1" },
+      { role: "user", content: "Find Jane's email." },
+      {
+        role: "assistant",
+        content: null,
+        tool_calls: [
+          {
+            id: "call_0",
+            type: "function",
+            function: { name: "email_finder", arguments: '{"linkedin_url":"https://www.linkedin.com/in/jane"}' },
+          },
+        ],
+      },
+      { role: "tool", tool_call_id: "call_0", content: '{"status":"ok","summary":"Found jane@acme.com"}' },
+    ]);
+    expect(params).toMatchObject({ model: "test-model", temperature: 0, stream: false, parallel_tool_calls: true });
+    expect(params.tool_choice).toBe("auto");
+    expect(params.tools[0]).toEqual({
+      type: "function",
+      function: {
+        name: "email_finder",
+        description: "Find a work email from a LinkedIn profile.",
+        parameters: providerRequest().tools[0].parameters,
+      },
+    });
+  });
+
+  it("forces the nudged tool", async () => {
+    create.mockResolvedValue(completion);
+    await openAIAdapter.complete(providerRequest({ forceTool: "email_finder" }));
+    expect(create.mock.calls[0][0].tool_choice).toEqual({ type: "function", function: { name: "email_finder" } });
+  });
+
+  it("sends no tool options without tools (OpenAI rejects them)", async () => {
+    create.mockResolvedValue(completion);
+    await openAIAdapter.complete(providerRequest({ tools: [] }));
+    const [params] = create.mock.calls[0];
+    expect(params).not.toHaveProperty("tools");
+    expect(params).not.toHaveProperty("tool_choice");
+    expect(params).not.toHaveProperty("parallel_tool_calls");
+  });
+
+  it("passes the abort signal to the SDK", async () => {
+    create.mockResolvedValue(completion);
+    const abort = new AbortController();
+    await openAIAdapter.complete(providerRequest({ signal: abort.signal }));
+    expect(create.mock.calls[0][1]).toEqual({ signal: abort.signal });
+  });
+
+  it("fails fast without an API key", async () => {
+    delete process.env.OPENAI_API_KEY;
+    await expect(openAIAdapter.complete(providerRequest())).rejects.toThrow("OPENAI_API_KEY");
+    expect(create).not.toHaveBeenCalled();
+  });
+});
+
+describe("openAIAdapter response normalization", () => {
+  it("returns parallel tool calls with their ids and usage", async () => {
+    create.mockResolvedValue(completion);
+    const res = await openAIAdapter.complete(providerRequest());
+    expect(res).toEqual({
+      content: "",
+      toolCalls: [
+        { id: "call_abc", name: "search", arguments: '{"query":"Acme Corp"}' },
+        { id: "call_def", name: "search", arguments: '{"query":"Globex"}' },
+      ],
+      usage: { promptTokens: 412, completionTokens: 38 },
+    });
+  });
+
+  it("streams text deltas and reassembles tool-call fragments", async () => {
+    create.mockResolvedValue(replay(streamChunks));
+    const deltas: string[] = [];
+    const res = await openAIAdapter.complete(providerRequest({ onDelta: (t) => deltas.push(t) }));
+
+    expect(create.mock.calls[0][0]).toMatchObject({ stream: true, stream_options: { include_usage: true } });
+    expect(deltas).toEqual(["Jane's email ", "is jane@acme.com."]);
+    expect(res).toEqual({
+      content: "Jane's email is jane@acme.com.",
+      toolCalls: [{ id: "call_x1", name: "crm", arguments: '{"email":"jane@acme.com"}' }],
+      usage: { promptTokens: 390, completionTokens: 21 },
+    });
+  });
+});
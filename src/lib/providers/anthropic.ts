@@ -0,0 +1,108 @@
+/**
+ * providers/anthropic.ts — Anthropic Messages API adapter.
+ *
+ * Translation notes:
+ * - System prompt + context blocks go into the top-level `system` string.
+ * - Messages must alternate user/assistant, so consecutive same-role turns are merged.
+ * - Tool steps replay as assistant `tool_use` blocks followed by user `tool_result` blocks.
+ * - Streaming uses `messages.stream()`; tool inputs are re-serialized to JSON strings.
+ */
+
+import Anthropic from "@anthropic-ai/sdk";
+import type { AITool } from "@/config/toolsConfig";
+import type { ProviderAdapter, ProviderRequest, ProviderResponse } from "./types";
+
+const anthropic = new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY });
+
+/** Anthropic requires an explicit output cap. */
+const MAX_OUTPUT_TOKENS = 4096;
+
+function convertToAnthropicTool(tool: AITool): Anthropic.Messages.Tool {
+  return {
+    name: tool.name,
+    description: tool.description,
+    input_schema: (tool.parameters || { type: "object", properties: {} }) as Anthropic.Messages.Tool.InputSchema,
+  };
+}
+
+type Block = Anthropic.Messages.ContentBlockParam;
+
+/** Append blocks, merging into the previous message when the role repeats. */
+function pushTurn(messages: Anthropic.Messages.MessageParam[], role: "user" | "assistant", blocks: Block[]) {
+  const prev = messages[messages.length - 1];
+  if (prev && prev.role === role && Array.isArray(prev.content)) {
+    prev.content.push(...blocks);
+  } else {
+    messages.push({ role, content: blocks });
+  }
+}
+
+function buildMessages(req: ProviderRequest): Anthropic.Messages.MessageParam[] {
+  const messages: Anthropic.Messages.MessageParam[] = [];
+
+  for (const turn of req.history) {
+    if (!turn.content) continue;
+    // The first message must come from the user
+    if (messages.length === 0 && turn.role === "assistant") continue;
+    pushTurn(messages, turn.role, [{ type: "text", text: turn.content }]);
+  }
+
+  pushTurn(messages, "user", [{ type: "text", text: req.message }]);
+
+  for (const turn of req.toolTurns) {
+    pushTurn(messages, "assistant", [
+      { type: "tool_use", id: turn.toolCallId, name: turn.toolName, input: turn.toolArgs ?? {} },
+    ]);
+    pushTurn(messages, "user", [
+      { type: "tool_result", tool_use_id: turn.toolCallId, content: turn.result },
+    ]);
+  }
+
+  return messages;
+}
+
+function normalize(message: Anthropic.Messages.Message): ProviderResponse {
+  let content = "";
+  const toolCalls: ProviderResponse["toolCalls"] = [];
+
+  for (const block of message.content) {
+    if (block.type === "text") content += block.text;
+    else if (block.type === "tool_use") {
+      toolCalls.push({ id: block.id, name: block.name, arguments: JSON.stringify(block.input ?? {}) });
+    }
+  }
+
+  return {
+    content,
+    toolCalls,
+    usage: { promptTokens: message.usage.input_tokens, completionTokens: message.usage.output_tokens },
+  };
+}
+
+export const anthropicAdapter: ProviderAdapter = {
+  async complete(req) {
+    if (!process.env.ANTHROPIC_API_KEY) throw new Error("ANTHROPIC_API_KEY is not defined.");
+
+    const params: Anthropic.Messages.MessageCreateParamsNonStreaming = {
+      model: req.modelConfig.model,
+      max_tokens: MAX_OUTPUT_TOKENS,
+      temperature: 0,
+      system: [req.system, ...req.contextBlocks].join("\n\n"),
+      messages: buildMessages(req),
+    };
+    if (req.tools.length > 0) {
+      params.tools = req.tools.map(convertToAnthropicTool);
+      // Parallel tool_use blocks are allowed; the route runs them concurrently
+      params.tool_choice = req.forceTool ? { type: "tool", name: req.forceTool } : { type: "auto" };
+    }
+
+    if (!req.onDelta) {
+      return normalize(await anthropic.messages.create(params, { signal: req.signal }));
+    }
+
+    const onDelta = req.onDelta;
+    const stream = anthropic.messages.stream(params, { signal: req.signal });
+    stream.on("text", (text) => onDelta(text));
+    return normalize(await stream.finalMessage());
+  },
+};
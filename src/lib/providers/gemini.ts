@@ -0,0 +1,144 @@
+/**
+ * providers/gemini.ts — Google Gemini adapter (@google/generative-ai).
+ *
+ * Translation notes:
+ * - System prompt + context blocks become `systemInstruction`.
+ * - Roles map user → "user", assistant → "model"; tool results go back as "function" parts.
+ * - Gemini accepts only an OpenAPI subset for parameters, so schemas are pruned to known keys.
+ * - Gemini has no tool-call ids; we mint stable ones per response.
+ */
+
+import {
+  GoogleGenerativeAI,
+  FunctionCallingMode,
+  type Content,
+  type FunctionDeclaration,
+  type GenerateContentResponse,
+  type Part,
+} from "@google/generative-ai";
+import type { AITool } from "@/config/toolsConfig";
+import type { ProviderAdapter, ProviderRequest, ProviderResponse } from "./types";
+
+const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY || "");
+
+const SCHEMA_KEYS = new Set(["type", "description", "properties", "required", "items", "enum", "format", "nullable"]);
+
+/** Keep only the schema keys Gemini understands (recursively). */
+function toGeminiSchema(schema: unknown): unknown {
+  if (Array.isArray(schema)) return schema.map(toGeminiSchema);
+  if (!schema || typeof schema !== "object") return schema;
+
+  const out: Record<string, unknown> = {};
+  for (const [k, v] of Object.entries(schema as Record<string, unknown>)) {
+    if (!SCHEMA_KEYS.has(k)) continue;
+    if (k === "properties" && v && typeof v === "object") {
+      out.properties = Object.fromEntries(
+        Object.entries(v as Record<string, unknown>).map(([name, prop]) => [name, toGeminiSchema(prop)])
+      );
+    } else if (k === "items") {
+      out.items = toGeminiSchema(v);
+    } else {
+      out[k] = v;
+    }
+  }
+  return out;
+}
+
+function convertToGeminiTool(tool: AITool): FunctionDeclaration {
+  return {
+    name: tool.name,
+    description: tool.description,
+    parameters: toGeminiSchema(tool.parameters || { type: "object", properties: {} }) as FunctionDeclaration["parameters"],
+  };
+}
+
+/** Tool results must be objects; wrap plain strings. */
+function toFunctionResponse(result: string): object {
+  try {
+    const parsed = JSON.parse(result);
+    if (parsed && typeof parsed === "object" && !Array.isArray(parsed)) return parsed;
+    return { content: parsed };
+  } catch {
+    return { content: result };
+  }
+}
+
+function buildContents(req: ProviderRequest): Content[] {
+  const contents: Content[] = req.history
+    .filter((t) => !!t.content)
+    .map((t) => ({ role: t.role === "assistant" ? "model" : "user", parts: [{ text: t.content }] }));
+
+  contents.push({ role: "user", parts: [{ text: req.message }] });
+
+  for (const turn of req.toolTurns) {
+    contents.push({
+      role: "model",
+      parts: [{ functionCall: { name: turn.toolName, args: turn.toolArgs ?? {} } }],
+    });
+    contents.push({
+      role: "function",
+      parts: [{ functionResponse: { name: turn.toolName, response: toFunctionResponse(turn.result) } }],
+    });
+  }
+
+  return contents;
+}
+
+function textOf(parts: Part[] | undefined): string {
+  return (parts ?? []).map((p) => p.text ?? "").join("");
+}
+
+function normalize(response: GenerateContentResponse): ProviderResponse {
+  const parts = response.candidates?.[0]?.content?.parts ?? [];
+  const stamp = Date.now();
+  const toolCalls = parts
+    .filter((p) => !!p.functionCall)
+    .map((p, i) => ({
+      id: `gemini-${stamp}-${i}`,
+      name: p.functionCall!.name,
+      arguments: JSON.stringify(p.functionCall!.args ?? {}),
+    }));
+
+  const meta = response.usageMetadata;
+  return {
+    content: textOf(parts),
+    toolCalls,
+    usage: meta ? { promptTokens: meta.promptTokenCount, completionTokens: meta.candidatesTokenCount } : undefined,
+  };
+}
+
+export const geminiAdapter: ProviderAdapter = {
+  async complete(req) {
+    if (!process.env.GEMINI_API_KEY) throw new Error("GEMINI_API_KEY is not defined.");
+
+    const model = genAI.getGenerativeModel({
+      model: req.modelConfig.model,
+      systemInstruction: [req.system, ...req.contextBlocks].join("\n\n"),
+      generationConfig: { temperature: 0 },
+      ...(req.tools.length > 0
+        ? {
+            tools: [{ functionDeclarations: req.tools.map(convertToGeminiTool) }],
+            toolConfig: {
+              functionCallingConfig: req.forceTool
+                ? { mode: FunctionCallingMode.ANY, allowedFunctionNames: [req.forceTool] }
+                : { mode: FunctionCallingMode.AUTO },
+            },
+          }
+        : {}),
+    });
+
+    const contents = buildContents(req);
+
+    if (!req.onDelta) {
+      const result = await model.generateContent({ contents }, { signal: req.signal });
+      return normalize(result.response);
+    }
+
+    const result = await model.generateContentStream({ contents }, { signal: req.signal });
+    for await (const chunk of result.stream) {
+      const text = textOf(chunk.candidates?.[0]?.content?.parts);
+      if (text) req.onDelta(text);
+    }
+    return normalize(await result.response);
+  },
+};
@@ -0,0 +1,23 @@
+/**
+ * providers/index.ts — pick the adapter for a ModelConfig.provider.
+ */
+
+import type { ModelProvider } from "@/types/types";
+import type { ProviderAdapter } from "./types";
+import { openAIAdapter } from "./openai";
+import { anthropicAdapter } from "./anthropic";
+import { geminiAdapter } from "./gemini";
+
+export * from "./types";
+
+const ADAPTERS: Record<ModelProvider, ProviderAdapter> = {
+  OpenAI: openAIAdapter,
+  Anthropic: anthropicAdapter,
+  Google: geminiAdapter,
+};
+
+export function getProviderAdapter(provider: ModelProvider): ProviderAdapter {
+  const adapter = ADAPTERS[provider];
+  if (!adapter) throw new Error(`Unsupported model provider: ${provider}`);
+  return adapter;
+}
@@ -0,0 +1,136 @@
+/**
+ * providers/openai.ts — OpenAI Chat Completions adapter.
+ * Replays tool steps as assistant tool_calls + role:"tool" messages; streams via `stream: true`.
+ */
+
+import OpenAI from "openai";
+import type { AITool } from "@/config/toolsConfig";
+import type { ProviderAdapter, ProviderRequest, ProviderResponse } from "./types";
+
+const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+
+function convertToOpenAITool(tool: AITool): OpenAI.Chat.Completions.ChatCompletionTool {
+  return {
+    type: "function",
+    function: {
+      name: tool.name,
+      description: tool.description,
+      parameters: tool.parameters || { type: "object", properties: {} },
+    },
+  };
+}
+
+function buildMessages(req: ProviderRequest): OpenAI.Chat.Completions.ChatCompletionMessageParam[] {
+  const messages: OpenAI.Chat.Completions.ChatCompletionMessageParam[] = [
+    { role: "system", content: req.system },
+    ...req.history,
+  ];
+
+  for (const block of req.contextBlocks) {
+    messages.push({ role: "system", content: block });
+  }
+
+  messages.push({ role: "user", content: req.message });
+
+  // Replay earlier steps of this turn: assistant tool call → tool result
+  for (const turn of req.toolTurns) {
+    messages.push({
+      role: "assistant",
+      content: null,
+      tool_calls: [
+        {
+          id: turn.toolCallId,
+          type: "function",
+          function: { name: turn.toolName, arguments: JSON.stringify(turn.toolArgs ?? {}) },
+        },
+      ],
+    });
+    messages.push({ role: "tool", tool_call_id: turn.toolCallId, content: turn.result });
+  }
+
+  return messages;
+}
+
+async function completeOnce(
+  params: OpenAI.Chat.Completions.ChatCompletionCreateParams,
+  signal?: AbortSignal
+): Promise<ProviderResponse> {
+  const completion = await openai.chat.completions.create({ ...params, stream: false }, { signal });
+  const responseMessage = completion.choices[0]?.message;
+  return {
+    content: responseMessage?.content || "",
+    toolCalls: (responseMessage?.tool_calls ?? []).map((tc) => ({
+      id: tc.id,
+      name: tc.function.name,
+      arguments: tc.function.arguments,
+    })),
+    usage: completion.usage
+      ? { promptTokens: completion.usage.prompt_tokens, completionTokens: completion.usage.completion_tokens }
+      : undefined,
+  };
+}
+
+/** Streamed completion: forwards text chunks and reassembles tool-call fragments by index. */
+async function completeStreaming(
+  params: OpenAI.Chat.Completions.ChatCompletionCreateParams,
+  onDelta: (text: string) => void,
+  signal?: AbortSignal
+): Promise<ProviderResponse> {
+  const stream = await openai.chat.completions.create(
+    {
+      ...params,
+      stream: true,
+      stream_options: { include_usage: true }, // usage arrives on the final chunk
+    },
+    { signal }
+  );
+
+  let content = "";
+  let usage: ProviderResponse["usage"];
+  const calls: ProviderResponse["toolCalls"] = [];
+
+  for await (const chunk of stream) {
+    if (chunk.usage) {
+      usage = { promptTokens: chunk.usage.prompt_tokens, completionTokens: chunk.usage.completion_tokens };
+    }
+    const delta = chunk.choices[0]?.delta;
+    if (!delta) continue;
+
+    if (delta.content) {
+      content += delta.content;
+      onDelta(delta.content);
+    }
+
+    for (const tc of delta.tool_calls ?? []) {
+      const slot = (calls[tc.index] ??= { id: "", name: "", arguments: "" });
+      if (tc.id) slot.id = tc.id;
+      if (tc.function?.name) slot.name += tc.function.name;
+      if (tc.function?.arguments) slot.arguments += tc.function.arguments;
+    }
+  }
+
+  return { content, toolCalls: calls.filter(Boolean), usage };
+}
+
+export const openAIAdapter: ProviderAdapter = {
+  async complete(req) {
+    if (!process.env.OPENAI_API_KEY) throw new Error("OPENAI_API_KEY is not defined.");
+
+    const params: OpenAI.Chat.Completions.ChatCompletionCreateParams = {
+      model: req.modelConfig.model,
+      messages: buildMessages(req),
+      temperature: 0,
+    };
+    // OpenAI rejects parallel_tool_calls/tool_choice without tools (synthesis/final passes)
+    if (req.tools.length > 0) {
+      params.tools = req.tools.map(convertToOpenAITool);
+      // Independent lookups ("research these five companies") come back as one batch; the route fans out
+      params.parallel_tool_calls = true;
+      params.tool_choice = req.forceTool
+        ? { type: "function", function: { name: req.forceTool } }
+        : "auto";
+    }
+
+    return req.onDelta ? completeStreaming(params, req.onDelta, req.signal) : completeOnce(params, req.signal);
+  },
+};
@@ -0,0 +1,44 @@
+/**
+ * providers/types.ts — the contract every LLM provider adapter implements.
+ *
+ * sendMessage builds one ProviderRequest (system text, history, tool steps, tools, nudges);
+ * an adapter translates it to its vendor API and normalizes the reply to ProviderResponse.
+ * Tool-call arguments stay as JSON strings so sendMessage parses them in one place.
+ */
+
+import type { ModelConfig, ToolTurn } from "@/types/types";
+import type { AITool } from "@/config/toolsConfig";
+
+export type ChatTurn = { role: "user" | "assistant"; content: string };
+
+export interface ProviderRequest {
+  modelConfig: ModelConfig;
+  /** Base system prompt (rules + current datetime). */
+  system: string;
+  /** Extra system blocks placed after the history (e.g., document context). */
+  contextBlocks: string[];
+  history: ChatTurn[];
+  /** The current user message. */
+  message: string;
+  /** Tool steps already taken this turn, in order. */
+  toolTurns: ToolTurn[];
+  /** Tools the model may call (already filtered by permissions). */
+  tools: AITool[];
+  /** Force this tool (intent nudge); undefined lets the model decide. */
+  forceTool?: string;
+  /** When set, stream and forward text chunks. */
+  onDelta?: (text: string) => void;
+  /** Aborts the vendor request (user pressed Stop); the adapter's promise rejects. */
+  signal?: AbortSignal;
+}
+
+export interface ProviderResponse {
+  content: string;
+  toolCalls: Array<{ id: string; name: string; arguments: string }>;
+  /** Token usage as reported by the provider (absent if it didn't report any). */
+  usage?: { promptTokens: number; completionTokens: number };
+}
+
+export interface ProviderAdapter {
+  complete(req: ProviderRequest): Promise<ProviderResponse>;
+}
@@ -1,7 +1,11 @@
-import OpenAI from "openai";
-import type { ModelConfig, LLMResult } from "@/types/types";
+import type { ModelConfig, LLMResult, ToolTurn, ContextTrimReport, ToolCallRequest } from "@/types/types";
 import { SYSTEM_PROMPT } from "@/lib/prompt/systemPrompt";
 import { toolCatalogForLLM,AITool  } from "@/config/toolsConfig";
+import { getProviderAdapter, type ProviderAdapter, type ProviderRequest, type ProviderResponse } from "@/lib/providers";
+import { recordLlmUsage, type LlmPurpose, type MeterContext } from "@/lib/usage/meter";
+import { fitContext } from "@/lib/chat/contextBudget";
+import { countTokens } from "@/lib/chat/tokens";
+import { parseToolArguments, type JsonSchema } from "@/lib/tools/schema";
 
 
 // -----------------------------
@@ -11,34 +15,28 @@ interface SendMessageOptions {
   modelConfig: ModelConfig;
   conversationHistory?: Array<{ role: "user" | "assistant"; content: string }>;
   documentContext?: string; // present when a document is open
+  /** Files attached to the chat, already budgeted per file (lib/attachments/context.ts). */
+  attachmentsContext?: string;
+  /** Rolling summary of turns older than the history window (see summarizeConversation.ts). */
+  conversationSummary?: string;
   /** The exact tool list this request is allowed to use (already filtered by permissions). */
   tools?: AITool[];
   disableNudges?: boolean; // NEW
+  /** Tool steps already taken this turn (agent loop); replayed as tool-result messages. */
+  toolTurns?: ToolTurn[];
+  /** When set, the completion is streamed and each text chunk is passed here. */
+  onDelta?: (text: string) => void;
+  /** Called with what was trimmed to fit the model's context window. */
+  onContextReport?: (report: ContextTrimReport) => void;
+  /** Bill this call: records tokens, cost and latency under the user (usage/meter.ts). */
+  meter?: MeterContext & { purpose: LlmPurpose };
+  /** User pressed Stop: aborts the provider request (the call rejects). */
+  signal?: AbortSignal;
 }
 
-// -----------------------------
-// OpenAI client
-// -----------------------------
-const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
-
 // -----------------------------
 // Helpers
 // -----------------------------
-function convertToOpenAITool(tool: {
-  name: string;
-  description: string;
-  parameters: Record<string, unknown>;
-}): OpenAI.Chat.Completions.ChatCompletionTool {
-  return {
-    type: "function",
-    function: {
-      name: tool.name,
-      description: tool.description,
-      parameters: tool.parameters || { type: "object", properties: {} },
-    },
-  };
-}
-
 function getCurrentDateTime() {
   const now = new Date();
   const nowUtcIso = now.toISOString();
@@ -54,6 +52,14 @@ function getCurrentDateTime() {
   return `Current datetime is ${nowCt} (America/Chicago). UTC=${nowUtcIso}. ISO_DATE_CT=${todayCt}.`;
 }
 
+const DOCUMENT_PREFIX = "DOCUMENT CONTEXT (snapshot of the open artifact and versions):\n";
+const DOCUMENT_SUFFIX =
+  "\n\nRule: When updating the document, ALWAYS return the complete updated document (not a diff).";
+
+const ATTACHMENTS_PREFIX =
+  "ATTACHED FILES (uploaded by the user in this chat; parsed text, may be cut to fit). " +
+  "Use their rows as input for tools when asked (e.g. one lookup per company):\n";
+
 const CREATE_RE =
   /\b(write|create|draft|generate|compose|make|produce)\b.*\b(email|document|letter|note|proposal|plan|report)\b/i;
 const UPDATE_RE =
@@ -75,98 +81,112 @@ export async function sendMessage(
   message: string,
   options: SendMessageOptions
 ): Promise<LLMResult> {
-  const {
-    modelConfig,
-    conversationHistory = [],
-    documentContext,
-    tools: allowedTools = toolCatalogForLLM(), // default to full catalog if caller didn't pass
-  } = options;
-
-  if (modelConfig.provider !== "OpenAI") {
-    throw new Error(`Unsupported model provider: ${modelConfig.provider}`);
-  }
-
-  return sendToOpenAI(
-    message,
-    modelConfig,
-    conversationHistory,
-    documentContext,
-    allowedTools,
-    options.disableNudges
-  );
+  return sendToProvider(message, {
+    ...options,
+    conversationHistory: options.conversationHistory ?? [],
+    tools: options.tools ?? toolCatalogForLLM(), // default to full catalog if caller didn't pass
+    toolTurns: options.toolTurns ?? [],
+  });
 }
 
 // -----------------------------
-// OpenAI path with enforcement
+// Provider path with enforcement (OpenAI / Anthropic / Google adapters)
 // -----------------------------
-async function sendToOpenAI(
+async function sendToProvider(
   message: string,
-  modelConfig: ModelConfig,
-  conversationHistory: Array<{ role: "user" | "assistant"; content: string }>,
-  documentContext: string | undefined,
-  allowedTools: AITool[],
-  disableNudges: boolean | undefined
+  options: SendMessageOptions &
+    Required<Pick<SendMessageOptions, "conversationHistory" | "tools" | "toolTurns">>
 ): Promise<LLMResult> {
-  if (!process.env.OPENAI_API_KEY) throw new Error("OPENAI_API_KEY is not defined.");
+  const {
+    modelConfig,
+    conversationHistory,
+    documentContext,
+    attachmentsContext,
+    conversationSummary,
+    tools: allowedTools,
+    disableNudges,
+    toolTurns,
+    onDelta,
+    onContextReport,
+    meter,
+    signal,
+  } = options;
+  const adapter = getProviderAdapter(modelConfig.provider);
 
   const hasOpenDoc = !!documentContext;
   const wantsUpdate = isUpdateIntent(message, hasOpenDoc);
   const wantsCreate = isCreateIntent(message, hasOpenDoc);
 
-  const messages: OpenAI.Chat.Completions.ChatCompletionMessageParam[] = [
-    { role: "system", content: SYSTEM_PROMPT + "\n\n" + getCurrentDateTime() },
-    ...conversationHistory,
-  ];
-
-  if (documentContext) {
-    messages.push({
-      role: "system",
-      content:
-        "DOCUMENT CONTEXT (snapshot of the open artifact and versions):\n" +
-        documentContext +
-        "\n\nRule: When updating the document, ALWAYS return the complete updated document (not a diff).",
-    });
-  }
-
-  messages.push({ role: "user", content: message });
+  const system = SYSTEM_PROMPT + "\n\n" + getCurrentDateTime();
 
-  // Build request with the *caller-provided* tool list (already filtered by permissions)
-  const tools = allowedTools.map(convertToOpenAITool);
+  // Earlier facts (contacts found, decisions made) that no longer fit in the history
+  const pinned: string[] = conversationSummary
+    ? ["CONVERSATION SUMMARY (earlier turns not shown below; treat as trusted context):\n" + conversationSummary]
+    : [];
 
-  const req: OpenAI.Chat.Completions.ChatCompletionCreateParams = {
-    model: modelConfig.id,
-    messages,
-    temperature: 0,
-    tools,
-    parallel_tool_calls: false,
-    tool_choice: "auto",
-  };
+  // Fit history / document / tool results into the model's context window
+  const fit = fitContext({
+    contextLength: modelConfig.contextLength,
+    system,
+    pinned,
+    message,
+    documentPrefix: DOCUMENT_PREFIX + DOCUMENT_SUFFIX,
+    documentContext,
+    attachmentsPrefix: ATTACHMENTS_PREFIX,
+    attachments: attachmentsContext,
+    history: conversationHistory,
+    toolTurns,
+    toolSchemaTokens: allowedTools.length ? countTokens(JSON.stringify(allowedTools)) : 0,
+  });
+  onContextReport?.(fit.report);
+
+  const contextBlocks: string[] = [...pinned];
+  if (fit.attachments) contextBlocks.push(ATTACHMENTS_PREFIX + fit.attachments);
+  if (fit.documentContext) {
+    contextBlocks.push(DOCUMENT_PREFIX + fit.documentContext + DOCUMENT_SUFFIX);
+  }
 
-  // Nudge when obvious
-  if (!disableNudges) {
+  // Nudge when obvious (first step only; later steps already acted on the ask)
+  let forceTool: string | undefined;
+  if (!disableNudges && toolTurns.length === 0) {
     const available = new Set(allowedTools.map(t => t.name));
     if (wantsUpdate && available.has("update_document")) {
-      req.tool_choice = { type: "function", function: { name: "update_document" } };
+      forceTool = "update_document";
     } else if (wantsCreate && available.has("create_document")) {
-      req.tool_choice = { type: "function", function: { name: "create_document" } };
+      forceTool = "create_document";
     }
   }
 
-  const completion = await openai.chat.completions.create(req);
-  const responseMessage = completion.choices[0]?.message;
+  // Request uses the *caller-provided* tool list (already filtered by permissions)
+  const request: ProviderRequest = {
+    modelConfig,
+    system,
+    contextBlocks,
+    history: fit.history,
+    message,
+    toolTurns: fit.toolTurns,
+    tools: allowedTools,
+    forceTool,
+    onDelta,
+    signal,
+  };
+  const response = meter ? await completeMetered(adapter, request, meter) : await adapter.complete(request);
 
-  // Tool call path
-  const toolCalls = responseMessage?.tool_calls;
-  if (toolCalls && toolCalls.length > 0) {
-    const toolCall = toolCalls[0];
-    const args = safeParseArgs(toolCall.function.arguments);
-    return { type: "tool_call", toolName: toolCall.function.name, toolArgs: args };
-    // ^ route.ts will now dispatch this tool call (internal or MCP).
+  // Tool call path (several calls when the model fans out in parallel)
+  if (response.toolCalls.length > 0) {
+    // Enforce each tool's schema here; the route sends errors back to the model for a repair
+    const [first, ...rest] = response.toolCalls.map((c) => toToolCallRequest(c, allowedTools));
+    return {
+      type: "tool_call",
+      ...first,
+      ...(rest.length ? { parallelCalls: rest } : {}),
+    };
+    // ^ route.ts will now dispatch these tool calls (internal or MCP).
   }
 
   // Safety net for doc updates
-  const raw = (responseMessage?.content || "").trim();
-  if (hasOpenDoc && (wantsUpdate || LOOKS_LIKE_DOC_TEXT_RE.test(raw))) {
+  const raw = (response.content || "").trim();
+  if (hasOpenDoc && toolTurns.length === 0 && (wantsUpdate || LOOKS_LIKE_DOC_TEXT_RE.test(raw))) {
     return {
       type: "tool_call",
       toolName: "update_document",
@@ -177,15 +197,54 @@ async function sendToOpenAI(
   return { type: "text", content: raw || null };
 }
 
-function safeParseArgs(jsonLike: string):  Record<string, unknown>  {
+/** Parse one provider tool call against the matching tool's schema. */
+function toToolCallRequest(call: ProviderResponse["toolCalls"][number], allowedTools: AITool[]): ToolCallRequest {
+  const schema = allowedTools.find((t) => t.name === call.name)?.parameters as JsonSchema | undefined;
+  const { args, errors } = parseToolArguments(call.arguments, schema);
+  return {
+    toolName: call.name,
+    toolArgs: args,
+    toolCallId: call.id,
+    ...(errors.length ? { argErrors: errors } : {}),
+  };
+}
+
+/** Run the provider call and record its usage (estimated with our tokenizer if not reported). */
+async function completeMetered(
+  adapter: ProviderAdapter,
+  request: ProviderRequest,
+  meter: MeterContext & { purpose: LlmPurpose }
+): Promise<ProviderResponse> {
+  const started = Date.now();
+  const estimatePrompt = () =>
+    countTokens(
+      [request.system, ...request.contextBlocks, ...request.history.map((h) => h.content), request.message]
+        .concat(request.toolTurns.map((t) => t.result))
+        .join("\n")
+    );
+
   try {
-    const parsed = JSON.parse(jsonLike);
-    if (parsed && typeof parsed === "object" && !Array.isArray(parsed)) {
-      return parsed as Record<string, unknown>;
-    }
-    // If it's an array or primitive, wrap it so callers can still access it.
-    return { value: parsed };
-  } catch {
-    return { raw: jsonLike };
+    const response = await adapter.complete(request);
+    void recordLlmUsage(meter, {
+      purpose: meter.purpose,
+      modelConfig: request.modelConfig,
+      promptTokens: response.usage?.promptTokens ?? estimatePrompt(),
+      completionTokens:
+        response.usage?.completionTokens ??
+        countTokens(response.content + response.toolCalls.map((c) => c.arguments).join("")),
+      latencyMs: Date.now() - started,
+      status: "ok",
+    });
+    return response;
+  } catch (err) {
+    void recordLlmUsage(meter, {
+      purpose: meter.purpose,
+      modelConfig: request.modelConfig,
+      promptTokens: 0,
+      completionTokens: 0,
+      latencyMs: Date.now() - started,
+      status: "error",
+    });
+    throw err;
   }
 }
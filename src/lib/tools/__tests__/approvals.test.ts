@@ -0,0 +1,159 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+// users/{uid}/toolApprovals/{id} in memory; transactions run one at a time, like Firestore
+// retrying a contended one against the committed doc
+const db = vi.hoisted(() => {
+  const docs = new Map<string, Record<string, unknown>>();
+  let queue: Promise<unknown> = Promise.resolve();
+  let nextId = 1;
+  let failUpdates = false;
+
+  const ref = (path: string) => ({
+    id: path.split("/").pop()!,
+    path,
+    get: async () => ({ data: () => (docs.has(path) ? { ...docs.get(path) } : undefined) }),
+    set: async (data: Record<string, unknown>) => void docs.set(path, { ...data }),
+    update: async (patch: Record<string, unknown>) => {
+      if (failUpdates) throw new Error("unavailable");
+      if (!docs.has(path)) throw new Error(`NOT_FOUND: ${path}`);
+      docs.set(path, { ...docs.get(path), ...patch });
+    },
+  });
+  type Ref = ReturnType<typeof ref>;
+
+  const adminDb = {
+    collection: (root: string) => ({
+      doc: (uid: string) => ({
+        collection: (name: string) => ({
+          doc: (id: string = `a${nextId++}`) => ref(`${root}/${uid}/${name}/${id}`),
+        }),
+      }),
+    }),
+    runTransaction: <T>(fn: (tx: { get(r: Ref): ReturnType<Ref["get"]>; update(r: Ref, p: Record<string, unknown>): void }) => Promise<T>) => {
+      const run = queue.then(async () => {
+        const writes: Array<() => Promise<void>> = [];
+        const result = await fn({ get: (r) => r.get(), update: (r, p) => void writes.push(() => r.update(p)) });
+        for (const write of writes) await write();
+        return result;
+      });
+      queue = run.catch(() => {});
+      return run;
+    },
+  };
+
+  return {
+    adminDb,
+    reset: () => {
+      docs.clear();
+      failUpdates = false;
+    },
+    failUpdates: () => {
+      failUpdates = true;
+    },
+  };
+});
+
+vi.mock("@/services/firebaseAdmin", () => ({ adminDb: db.adminDb }));
+
+import type { McpToolDefinition } from "@/config/toolsConfig";
+import {
+  APPROVAL_TTL_MS,
+  claimToolApproval,
+  createToolApproval,
+  readToolApproval,
+  releaseToolApproval,
+  settleToolApproval,
+} from "@/lib/tools/approvals";
+
+const crm = {
+  name: "crm",
+  label: "CRM",
+  approval: { fields: () => [{ key: "email", label: "Email", value: "jane@acme.com" }] },
+} as unknown as McpToolDefinition;
+
+const args = { crm_handoff_package: '{"email":"jane@acme.com"}' };
+const approve = (edited = false) => ({ status: "approved" as const, args, fields: [], edited });
+
+const hold = async (uid = "u1") => (await createToolApproval(uid, { tool: crm, args, chatId: "c1" }))!.id;
+
+beforeEach(() => {
+  db.reset();
+  vi.useFakeTimers({ toFake: ["Date"] });
+  vi.setSystemTime(new Date("2026-03-31T12:00:00Z"));
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("claimToolApproval", () => {
+  it("moves a pending approval to the decision and stores the args that will run", async () => {
+    const id = await hold();
+    const res = await claimToolApproval("u1", id, approve(true));
+
+    expect(res).toMatchObject({ ok: true, approval: { status: "approved", edited: true, decidedAt: Date.now() } });
+    expect(await readToolApproval("u1", id)).toMatchObject({ status: "approved", args, edited: true });
+  });
+
+  it("lets only one of two simultaneous clicks through", async () => {
+    const id = await hold();
+    const [a, b] = await Promise.all([claimToolApproval("u1", id, approve()), claimToolApproval("u1", id, approve())]);
+
+    expect([a.ok, b.ok]).toEqual([true, false]);
+    expect(b).toMatchObject({ status: 409, message: "This change was already approved." });
+  });
+
+  it("refuses an approval that was rejected, or doesn't exist", async () => {
+    const id = await hold();
+    await claimToolApproval("u1", id, { status: "rejected" });
+
+    expect(await claimToolApproval("u1", id, approve())).toMatchObject({ ok: false, status: 409 });
+    expect(await claimToolApproval("u1", "missing", approve())).toMatchObject({ ok: false, status: 404 });
+    expect(await claimToolApproval("u2", id, approve())).toMatchObject({ ok: false, status: 404 });
+  });
+
+  it("expires approvals older than APPROVAL_TTL_MS instead of running them", async () => {
+    const id = await hold();
+    vi.advanceTimersByTime(APPROVAL_TTL_MS + 1);
+
+    expect(await claimToolApproval("u1", id, approve())).toMatchObject({
+      ok: false,
+      status: 410,
+      approval: { status: "expired" },
+    });
+    expect((await readToolApproval("u1", id))?.status).toBe("expired");
+  });
+});
+
+describe("releaseToolApproval", () => {
+  it("puts a claim refused by the tool quota back to pending, so the next Approve can run it once", async () => {
+    const id = await hold();
+    await claimToolApproval("u1", id, approve());
+    await releaseToolApproval("u1", id);
+    expect(await readToolApproval("u1", id)).toMatchObject({ status: "pending", decidedAt: null });
+
+    const [a, b] = await Promise.all([claimToolApproval("u1", id, approve()), claimToolApproval("u1", id, approve())]);
+    expect([a.ok, b.ok]).toEqual([true, false]);
+  });
+
+  it("logs instead of throwing when the store is down", async () => {
+    const id = await hold();
+    db.failUpdates();
+    const error = vi.spyOn(console, "error").mockImplementation(() => {});
+
+    await expect(releaseToolApproval("u1", id)).resolves.toBeUndefined();
+    await expect(settleToolApproval("u1", id, { outcome: "Contact updated" })).resolves.toBeUndefined();
+    expect(error).toHaveBeenCalledWith("[approvals] release failed:", expect.any(Error));
+    error.mockRestore();
+  });
+});
+
+describe("settleToolApproval", () => {
+  it("records how the approved call went", async () => {
+    const id = await hold();
+    await claimToolApproval("u1", id, approve());
+    await settleToolApproval("u1", id, { status: "failed", outcome: "CRM failed" });
+
+    expect(await readToolApproval("u1", id)).toMatchObject({ status: "failed", outcome: "CRM failed" });
+  });
+});
@@ -0,0 +1,134 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("@/services/firebaseAdmin", () => ({ adminDb: {} }));
+
+import {
+  BREAKER_COOLDOWN_MS,
+  BREAKER_THRESHOLD,
+  MemoryBreakerStore,
+  checkToolCircuit,
+  listToolBreakers,
+  recordToolCircuitOutcome,
+  setBreakerStore,
+  type BreakerStore,
+} from "@/lib/tools/circuitBreaker";
+import { FAIL_TTL_MS } from "@/lib/tools/toolBudget";
+
+const fail = (tool = "web_search") => recordToolCircuitOutcome(tool, false, "MCP POST tools/call failed (503): down");
+
+const trip = async (tool = "web_search") => {
+  for (let i = 0; i < BREAKER_THRESHOLD; i++) await fail(tool);
+};
+
+let store: MemoryBreakerStore;
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ["Date"] });
+  vi.setSystemTime(new Date("2026-03-31T12:00:00Z"));
+  store = new MemoryBreakerStore();
+  setBreakerStore(store);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("closed", () => {
+  it("lets calls through and writes nothing for a healthy tool", async () => {
+    const update = vi.spyOn(store, "update");
+    expect(await checkToolCircuit("web_search")).toEqual({ allowed: true });
+    await recordToolCircuitOutcome("web_search", true);
+    expect(update).not.toHaveBeenCalled();
+  });
+
+  it("opens after BREAKER_THRESHOLD consecutive failures", async () => {
+    for (let i = 1; i < BREAKER_THRESHOLD; i++) await fail();
+    expect(await checkToolCircuit("web_search")).toEqual({ allowed: true });
+
+    await fail();
+    expect(await checkToolCircuit("web_search")).toEqual({
+      allowed: false,
+      retryAfterSec: BREAKER_COOLDOWN_MS / 1000,
+    });
+    expect(await checkToolCircuit("email_finder")).toEqual({ allowed: true });
+  });
+
+  it("starts counting over after a success or once FAIL_TTL_MS has passed", async () => {
+    for (let i = 1; i < BREAKER_THRESHOLD; i++) await fail();
+    await recordToolCircuitOutcome("web_search", true);
+    await fail();
+    expect((await store.get("web_search"))?.failures).toBe(1);
+
+    for (let i = 2; i < BREAKER_THRESHOLD; i++) await fail();
+    vi.advanceTimersByTime(FAIL_TTL_MS);
+    await fail();
+    expect(await store.get("web_search")).toMatchObject({ state: "closed", failures: 1 });
+  });
+});
+
+describe("open", () => {
+  it("counts down retryAfterSec through the cooldown", async () => {
+    await trip();
+    vi.advanceTimersByTime(BREAKER_COOLDOWN_MS - 1500);
+    expect(await checkToolCircuit("web_search")).toEqual({ allowed: false, retryAfterSec: 2 });
+  });
+
+  it("shows as half-open on the Activity page once the cooldown is over", async () => {
+    await trip();
+    expect((await listToolBreakers())[0]).toMatchObject({ tool: "web_search", state: "open" });
+    vi.advanceTimersByTime(BREAKER_COOLDOWN_MS);
+    expect((await listToolBreakers())[0]).toMatchObject({ tool: "web_search", state: "half_open" });
+  });
+});
+
+describe("half-open", () => {
+  it("lets one trial call through after the cooldown, and closes when it succeeds", async () => {
+    await trip();
+    vi.advanceTimersByTime(BREAKER_COOLDOWN_MS);
+
+    expect(await checkToolCircuit("web_search")).toEqual({ allowed: true });
+    expect(await store.get("web_search")).toMatchObject({ state: "half_open" });
+    expect((await checkToolCircuit("web_search")).allowed).toBe(false);
+
+    await recordToolCircuitOutcome("web_search", true);
+    expect(await store.get("web_search")).toMatchObject({ state: "closed", failures: 0, lastError: null });
+    expect(await checkToolCircuit("web_search")).toEqual({ allowed: true });
+  });
+
+  it("re-opens for another cooldown when the trial fails", async () => {
+    await trip();
+    vi.advanceTimersByTime(BREAKER_COOLDOWN_MS);
+    await checkToolCircuit("web_search");
+    await fail();
+
+    expect(await store.get("web_search")).toMatchObject({ state: "open", openedAt: Date.now() });
+    expect(await checkToolCircuit("web_search")).toEqual({
+      allowed: false,
+      retryAfterSec: BREAKER_COOLDOWN_MS / 1000,
+    });
+  });
+
+  it("hands out a new trial when the last one never reported back", async () => {
+    await trip();
+    vi.advanceTimersByTime(BREAKER_COOLDOWN_MS);
+    await checkToolCircuit("web_search");
+    vi.advanceTimersByTime(BREAKER_COOLDOWN_MS);
+    expect(await checkToolCircuit("web_search")).toEqual({ allowed: true });
+  });
+});
+
+it("fails open when the store is down", async () => {
+  const down: BreakerStore = {
+    get: () => Promise.reject(new Error("unavailable")),
+    update: () => Promise.reject(new Error("unavailable")),
+    list: () => Promise.reject(new Error("unavailable")),
+  };
+  setBreakerStore(down);
+  const error = vi.spyOn(console, "error").mockImplementation(() => {});
+
+  expect(await checkToolCircuit("web_search")).toEqual({ allowed: true });
+  await fail();
+  expect(await listToolBreakers()).toEqual([]);
+  expect(error).toHaveBeenCalledWith("[circuitBreaker] check failed:", expect.any(Error));
+  error.mockRestore();
+});
@@ -0,0 +1,117 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+const mcp = vi.hoisted(() => ({ callMCPTool: vi.fn() }));
+vi.mock("@/lib/mcpClient", () => mcp);
+
+import {
+  DEFAULT_RETRY_POLICY,
+  NO_RETRY,
+  backoffDelayMs,
+  isTransientToolError,
+  retryPolicyFor,
+  type RetryPolicy,
+} from "@/lib/tools/retry";
+import { runMcpTool } from "@/lib/tools/runners/mcpTool";
+
+afterEach(() => {
+  mcp.callMCPTool.mockReset();
+  vi.restoreAllMocks();
+});
+
+describe("isTransientToolError", () => {
+  it.each([
+    "MCP POST tools/call failed (503): Service Unavailable",
+    "MCP POST tools/call failed (429): slow down",
+    "MCP POST tools/call failed (408): timeout",
+    "fetch failed",
+    "read ECONNRESET",
+    "connect ECONNREFUSED 127.0.0.1:3001",
+    "socket hang up",
+    "MCP SSE stream ended",
+    "MCP session expired",
+    "No session URL received from SSE endpoint.",
+  ])("retries %s", (error) => {
+    expect(isTransientToolError(error)).toBe(true);
+  });
+
+  it.each([
+    "MCP POST tools/call failed (400): bad arguments",
+    "MCP POST tools/call failed (404): not found",
+    "MCP tools/call timed out after 30000ms",
+    "Search failed",
+    "",
+    undefined,
+  ])("returns %s as-is", (error) => {
+    expect(isTransientToolError(error)).toBe(false);
+  });
+});
+
+describe("retryPolicyFor", () => {
+  it("retries idempotent tools and writes that carry an idempotency key", () => {
+    expect(retryPolicyFor({ idempotent: true }, {})).toBe(DEFAULT_RETRY_POLICY);
+    expect(retryPolicyFor({ idempotencyKey: (a) => a.key as string | undefined }, { key: "k1" })).toBe(DEFAULT_RETRY_POLICY);
+  });
+
+  it("runs other writes once", () => {
+    expect(retryPolicyFor({ idempotencyKey: () => undefined }, {})).toBe(NO_RETRY);
+    expect(retryPolicyFor({}, {})).toEqual({ ...DEFAULT_RETRY_POLICY, attempts: 1 });
+  });
+});
+
+describe("backoffDelayMs", () => {
+  const policy: RetryPolicy = { attempts: 5, baseDelayMs: 400, maxDelayMs: 4000 };
+
+  it("doubles the cap per attempt up to maxDelayMs", () => {
+    vi.spyOn(Math, "random").mockReturnValue(0.999);
+    expect([1, 2, 3, 4, 5].map((a) => backoffDelayMs(a, policy))).toEqual([399, 799, 1598, 3196, 3996]);
+  });
+
+  it("jitters down to no wait at all", () => {
+    vi.spyOn(Math, "random").mockReturnValue(0);
+    expect(backoffDelayMs(3, policy)).toBe(0);
+  });
+});
+
+describe("runMcpTool", () => {
+  const tool = { mcpId: "search", label: "Search" };
+  const policy: RetryPolicy = { attempts: 3, baseDelayMs: 0, maxDelayMs: 0 };
+  const envelope = { result: { content: [{ type: "text", text: '{"status":"ok","data":{}}' }] } };
+  const run = (extra: Partial<Parameters<typeof runMcpTool>[2]> = {}) =>
+    runMcpTool(tool, { q: "acme" }, { baseUrl: "http://mcp.test", headers: {}, retry: policy, ...extra });
+
+  it("stops after policy.attempts transient failures", async () => {
+    mcp.callMCPTool.mockRejectedValue(new Error("fetch failed"));
+    const onRetry = vi.fn();
+    const res = await run({ onRetry });
+
+    expect(res).toMatchObject({ ok: false, error: "fetch failed", attempts: 3 });
+    expect(mcp.callMCPTool).toHaveBeenCalledTimes(3);
+    expect(onRetry.mock.calls).toEqual([
+      [1, "fetch failed"],
+      [2, "fetch failed"],
+    ]);
+  });
+
+  it("returns the first success", async () => {
+    mcp.callMCPTool.mockRejectedValueOnce(new Error("socket hang up")).mockResolvedValueOnce(envelope);
+    expect(await run()).toMatchObject({ ok: true, attempts: 2 });
+  });
+
+  it("doesn't retry errors that aren't transient, or without a policy", async () => {
+    mcp.callMCPTool.mockRejectedValue(new Error("MCP POST tools/call failed (400): bad arguments"));
+    expect(await run()).toMatchObject({ ok: false, attempts: 1 });
+
+    mcp.callMCPTool.mockRejectedValue(new Error("fetch failed"));
+    expect(await run({ retry: undefined })).toMatchObject({ ok: false, attempts: 1 });
+  });
+
+  it("gives up during the backoff when the caller aborts", async () => {
+    const abort = new AbortController();
+    mcp.callMCPTool.mockImplementation(async () => {
+      abort.abort();
+      throw new Error("fetch failed");
+    });
+    const res = await run({ signal: abort.signal, retry: { attempts: 3, baseDelayMs: 60_000, maxDelayMs: 60_000 } });
+    expect(res).toMatchObject({ ok: false, attempts: 1 });
+  });
+});
@@ -0,0 +1,40 @@
+import { describe, expect, it } from "vitest";
+import { detectBatchEnrichment, extractLinkedInUrls } from "@/lib/tools/router";
+
+const jane = "https://www.linkedin.com/in/jane-doe";
+const john = "https://uk.linkedin.com/in/john-smith/?trk=share";
+
+describe("extractLinkedInUrls", () => {
+  it("normalizes and de-duplicates profile URLs in order", () => {
+    expect(extractLinkedInUrls(`${jane}, ${john} and again ${jane}/`)).toEqual([
+      jane,
+      "https://www.linkedin.com/in/john-smith",
+    ]);
+  });
+});
+
+describe("detectBatchEnrichment", () => {
+  it("runs a pasted list when the message asks for emails", () => {
+    expect(detectBatchEnrichment(`Find emails for ${jane} ${john}`)).toHaveLength(2);
+  });
+
+  it.each([
+    ["a bare list", `${jane}\n${john}`],
+    ["a list sent for something else", `add these to the CRM: ${jane} ${john}`],
+  ])("leaves %s to the model", (_, message) => {
+    expect(detectBatchEnrichment(message)).toBeNull();
+  });
+
+  it("needs two or more pasted profiles", () => {
+    expect(detectBatchEnrichment(`find the email for ${jane}`)).toBeNull();
+  });
+
+  it("adds the profiles of attached spreadsheets only on a lookup ask", () => {
+    const sheet = `name,linkedin\nJane,${jane}\nJohn,${john}`;
+    expect(detectBatchEnrichment("get emails for this list", sheet)).toEqual([
+      jane,
+      "https://www.linkedin.com/in/john-smith",
+    ]);
+    expect(detectBatchEnrichment("summarize this file", sheet)).toBeNull();
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, expect, it } from "vitest";
+import { parseToolArguments, validateJsonSchema, type JsonSchema } from "@/lib/tools/schema";
+
+const lookup: JsonSchema = {
+  type: "object",
+  properties: {
+    agent_query: { type: "string", minLength: 1 },
+    mode: { type: "string", enum: ["fast", "deep"] },
+    limit: { type: "integer", minimum: 1, maximum: 50 },
+    score: { type: ["number", "null"] },
+    urls: { type: "array", items: { type: "string", format: "uri" }, maxItems: 2 },
+  },
+  required: ["agent_query"],
+  additionalProperties: false,
+};
+
+describe("validateJsonSchema", () => {
+  it("accepts arguments that match", () => {
+    expect(validateJsonSchema(lookup, { agent_query: "acme", mode: "deep", limit: 5, score: null })).toEqual([]);
+  });
+
+  it("reports missing and null required fields", () => {
+    expect(validateJsonSchema(lookup, {})).toEqual(["agent_query: is required"]);
+    expect(validateJsonSchema(lookup, { agent_query: null })).toContain("agent_query: is required");
+  });
+
+  it("lists the allowed values of an enum", () => {
+    expect(validateJsonSchema(lookup, { agent_query: "acme", mode: "slow" })).toEqual([
+      'mode: must be one of "fast", "deep"',
+    ]);
+  });
+
+  it.each([
+    ["a numeric string for an integer", { limit: "5" }, "limit: must be of type integer"],
+    ["a fraction for an integer", { limit: 2.5 }, "limit: must be of type integer"],
+    ["a number for a string", { agent_query: 42 }, "agent_query: must be of type string"],
+    ["a string for a number-or-null union", { score: "high" }, "score: must be of type number or null"],
+  ])("doesn't coerce %s", (_, args, error) => {
+    expect(validateJsonSchema(lookup, { agent_query: "acme", ...args })).toEqual([error]);
+  });
+
+  it("accepts integers where a number is asked for", () => {
+    expect(validateJsonSchema({ type: "number" }, 3)).toEqual([]);
+  });
+
+  it("names nested paths, array indexes and unknown fields", () => {
+    expect(validateJsonSchema(lookup, { agent_query: "", limit: 0, urls: ["ftp://x", "nope", "https://a.io"], extra: 1 })).toEqual([
+      "agent_query: must not be empty",
+      "limit: must be ≥ 1",
+      "urls: allows at most 2 items",
+      "urls[0]: must be an http(s) URL",
+      "urls[1]: must be a URL",
+      "extra: is not an allowed field",
+    ]);
+  });
+
+  it("checks JSON carried in a string against its contentSchema", () => {
+    const schema: JsonSchema = {
+      type: "object",
+      properties: {
+        package: {
+          type: "string",
+          contentMediaType: "application/json",
+          contentSchema: { type: "object", required: ["company"], properties: { company: { type: "string" } } },
+        },
+      },
+    };
+    expect(validateJsonSchema(schema, { package: '{"company":"Acme"}' })).toEqual([]);
+    expect(validateJsonSchema(schema, { package: "{}" })).toEqual(["package.company: is required"]);
+    expect(validateJsonSchema(schema, { package: "{company" })).toEqual(["package: must be a string of valid JSON"]);
+  });
+
+  it("ignores keywords it doesn't know and a missing schema", () => {
+    expect(validateJsonSchema({ type: "string", oneOf: [] } as JsonSchema, "x")).toEqual([]);
+    expect(validateJsonSchema(undefined, 1)).toEqual([]);
+  });
+});
+
+describe("parseToolArguments", () => {
+  it("parses the model's JSON and returns the schema errors for a repair turn", () => {
+    expect(parseToolArguments('{"agent_query":"acme","mode":"slow"}', lookup)).toEqual({
+      args: { agent_query: "acme", mode: "slow" },
+      errors: ['mode: must be one of "fast", "deep"'],
+    });
+  });
+
+  it("treats empty arguments as {}", () => {
+    expect(parseToolArguments("", { type: "object" })).toEqual({ args: {}, errors: [] });
+  });
+
+  it("keeps bad JSON as { raw } so the call can be replayed", () => {
+    expect(parseToolArguments('{"agent_query":', lookup)).toEqual({
+      args: { raw: '{"agent_query":' },
+      errors: ["arguments: not valid JSON"],
+    });
+  });
+
+  it("wraps JSON that isn't an object", () => {
+    expect(parseToolArguments('["acme"]', lookup)).toEqual({
+      args: { value: ["acme"] },
+      errors: ["arguments: must be a JSON object"],
+    });
+  });
+});
@@ -0,0 +1,192 @@
+/**
+ * approvalFields.ts — turn a write tool's payload into reviewable fields and back.
+ *
+ * - jsonFields():      nested JSON → flat [{ path: "contact.email", label: "Email", section: "Contact", value }]
+ * - applyJsonEdits():  write the user's edited values back by path, keeping each leaf's type
+ *                      (number stays number, true/false stays boolean); `skip` paths are removed
+ *                      (fields the user didn't approve are left out of the write)
+ * - diffFields() / diffCard(): compare fields with the record a lookup returned (old → new)
+ * - argsApproval / jsonArgApproval(): ready-made `approval` hooks for McpToolDefinition
+ *
+ * Gotchas:
+ * - Only existing leaf paths can be edited; unknown paths and arrays are ignored, so an edit
+ *   can never add fields the model didn't propose.
+ * - Pure (no I/O); safe to import from config.
+ */
+
+import type { KingaCard, ToolApprovalField } from "@/types/types";
+
+type Json = Record<string, unknown>;
+
+const isObject = (v: unknown): v is Json => typeof v === "object" && v !== null && !Array.isArray(v);
+
+/** "first_name" / "firstName" → "First name" */
+export function humanizeKey(key: string): string {
+  const words = key
+    .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+    .replace(/[_-]+/g, " ")
+    .trim()
+    .toLowerCase();
+  return words ? words[0].toUpperCase() + words.slice(1) : key;
+}
+
+const leafText = (v: unknown) => (v == null ? "" : typeof v === "string" ? v : JSON.stringify(v));
+
+/** Every leaf of a JSON object as a field; `skip` drops top-level keys (e.g. idempotency_key). */
+export function jsonFields(obj: Json, skip: string[] = []): ToolApprovalField[] {
+  const out: ToolApprovalField[] = [];
+  const walk = (value: Json, path: string[]) => {
+    for (const [key, v] of Object.entries(value)) {
+      if (path.length === 0 && skip.includes(key)) continue;
+      const at = [...path, key];
+      if (isObject(v)) {
+        walk(v, at);
+        continue;
+      }
+      out.push({
+        path: at.join("."),
+        label: humanizeKey(key),
+        value: leafText(v),
+        ...(at.length > 1 ? { section: at.slice(0, -1).map(humanizeKey).join(" · ") } : {}),
+        editable: !Array.isArray(v),
+      });
+    }
+  };
+  walk(obj, []);
+  return out;
+}
+
+/** Keep the original leaf's type where the edited text allows it. */
+function coerceLike(prev: unknown, text: string): unknown {
+  if (typeof prev === "number") {
+    const n = Number(text);
+    return text.trim() !== "" && Number.isFinite(n) ? n : text;
+  }
+  if (typeof prev === "boolean" && /^(true|false)$/i.test(text.trim())) return text.trim().toLowerCase() === "true";
+  if (prev === null && text === "") return null;
+  return text;
+}
+
+/** The object holding the leaf at `path`, and the leaf's key (undefined if the path doesn't exist). */
+function leafParent(obj: Json, path: string): { node: Json; key: string } | undefined {
+  const keys = path.split(".");
+  const key = keys.pop()!;
+  let node: unknown = obj;
+  for (const k of keys) node = isObject(node) ? node[k] : undefined;
+  return isObject(node) && key in node ? { node, key } : undefined;
+}
+
+/**
+ * Copy of `obj` with edited leaf values and `skip` leaves removed; paths that don't name
+ * an existing leaf are ignored (edits also ignore nested objects/arrays).
+ */
+export function applyJsonEdits(obj: Json, edits: Record<string, string>, skip: string[] = []): Json {
+  const out = structuredClone(obj);
+  for (const [path, text] of Object.entries(edits)) {
+    const at = typeof text === "string" ? leafParent(out, path) : undefined;
+    if (!at) continue;
+    const prev = at.node[at.key];
+    if (isObject(prev) || Array.isArray(prev)) continue;
+    at.node[at.key] = coerceLike(prev, text);
+  }
+  for (const path of skip) {
+    const at = leafParent(out, path);
+    if (at && !isObject(at.node[at.key])) delete at.node[at.key];
+  }
+  return out;
+}
+
+/** Compare fields with the current record (same shape as the payload); null = no record yet. */
+export function diffFields(fields: ToolApprovalField[], current: Json | null): ToolApprovalField[] {
+  return fields.map((f) => {
+    const at = current ? leafParent(current, f.path) : undefined;
+    const previous = at ? leafText(at.node[at.key]) : "";
+    const change = !previous ? "new" : previous === f.value ? "same" : "changed";
+    return { ...f, ...(previous ? { previous } : {}), change };
+  });
+}
+
+/** The preview as a card: one section per entity, "old → new" for fields that change. */
+export function diffCard(title: string, fields: ToolApprovalField[]): KingaCard {
+  const changed = fields.filter((f) => f.change === "new" || f.change === "changed");
+  const sections = new Map<string, KingaCard["sections"][number]>();
+  for (const f of changed) {
+    const key = f.section ?? "";
+    if (!sections.has(key)) sections.set(key, { ...(f.section ? { title: f.section } : {}), items: [] });
+    sections.get(key)!.items.push({ label: f.label, value: `${f.previous || "—"} → ${f.value || "—"}` });
+  }
+  const same = fields.length - changed.length;
+  return {
+    title,
+    summary: changed.length
+      ? `${changed.length} field${changed.length === 1 ? "" : "s"} will change${same ? `, ${same} already match` : ""}.`
+      : "Everything already matches the current record.",
+    sections: [...sections.values()],
+  };
+}
+
+export type ToolApprovalHooks = {
+  /** What the call will write, for the approval card. */
+  fields: (args: Record<string, unknown>) => ToolApprovalField[];
+  /** The args with the user's edited field values applied and `skip` fields left out. */
+  applyEdits: (
+    args: Record<string, unknown>,
+    edits: Record<string, string>,
+    skip?: string[]
+  ) => Record<string, unknown>;
+  /**
+   * Optional, per tool: a read-only lookup of the record the write would touch
+   * (lib/tools/dryRun.ts). `mcpId` is a separate MCP tool that only reads, never the write
+   * tool itself; `args` builds its arguments from the write's; `current` pulls the record
+   * (payload-shaped) from its envelope, null if none.
+   */
+  lookup?: {
+    mcpId: string;
+    args: (args: Record<string, unknown>) => Record<string, unknown>;
+    current: (envelope: { status?: string; data?: unknown }) => Json | null;
+  };
+};
+
+/** Review the tool's arguments as-is (discovered write tools). */
+export const argsApproval: ToolApprovalHooks = {
+  fields: (args) => jsonFields(args),
+  applyEdits: (args, edits, skip) => applyJsonEdits(args, edits, skip),
+};
+
+/**
+ * Review a stringified-JSON argument field by field (e.g. crm_handoff_package).
+ * `lookupMcpId` adds a preview: that read-only MCP tool gets the same package and answers
+ * with the existing record in data.existing / data.current / data.record.
+ */
+export function jsonArgApproval(argName: string, hidden: string[] = [], lookupMcpId?: string): ToolApprovalHooks {
+  const parse = (args: Record<string, unknown>): Json => {
+    try {
+      const v = JSON.parse(String(args[argName] ?? ""));
+      return isObject(v) ? v : {};
+    } catch {
+      return {};
+    }
+  };
+  const visible = (path: string) => !hidden.includes(path.split(".")[0]);
+  return {
+    fields: (args) => jsonFields(parse(args), hidden),
+    applyEdits: (args, edits, skip = []) => {
+      const allowed = Object.fromEntries(Object.entries(edits).filter(([path]) => visible(path)));
+      return { ...args, [argName]: JSON.stringify(applyJsonEdits(parse(args), allowed, skip.filter(visible))) };
+    },
+    ...(lookupMcpId
+      ? {
+          lookup: {
+            mcpId: lookupMcpId,
+            args: (args) => ({ [argName]: JSON.stringify(parse(args)) }),
+            current: (envelope) => {
+              if (envelope.status === "not_found") return null;
+              const data = isObject(envelope.data) ? envelope.data : {};
+              const record = data.existing ?? data.current ?? data.record;
+              return isObject(record) ? record : null;
+            },
+          },
+        }
+      : {}),
+  };
+}
@@ -0,0 +1,186 @@
+/**
+ * approvals.ts — write-tool calls held for the user's decision (server-only).
+ *
+ * Flow:
+ * 1. /api/chat: the model calls a tool that has `approval` hooks (CRM). Nothing runs;
+ *    createToolApproval stores users/{uid}/toolApprovals/{id} and the turn ends with the
+ *    ToolApproval (fields to review) on its result.
+ * 2. The chat shows the approval card. Approve / Reject (optionally with edited field values)
+ *    POSTs /api/tools/approval, which claims the approval, runs the tool and settles it.
+ *
+ * Stored doc: { toolName, label, args, fields, currentRecord, current, chatId, status, createdAt,
+ *               decidedAt, outcome, edited }
+ * (`current` is the record the preview lookup found, dryRun.ts; used to re-diff the fields after edits.)
+ *
+ * Gotchas:
+ * - claimToolApproval is a transaction (pending → approved/rejected), so a double click or
+ *   two tabs can't run the write twice.
+ * - The stored args are what runs; the client can only change existing fields via edits.
+ * - Approvals expire after APPROVAL_TTL_MS (the model's proposal is probably stale by then).
+ */
+
+import { adminDb } from "@/services/firebaseAdmin";
+import type { McpToolDefinition } from "@/config/toolsConfig";
+import type { ToolApproval, ToolApprovalField, ToolApprovalStatus } from "@/types/types";
+import type { ApprovalPreview } from "@/lib/tools/dryRun";
+
+export const APPROVAL_TTL_MS = 24 * 60 * 60 * 1000;
+
+export type StoredToolApproval = {
+  id: string;
+  toolName: string;
+  label: string;
+  args: Record<string, unknown>;
+  fields: ToolApprovalField[];
+  currentRecord: ToolApproval["currentRecord"] | null;
+  current: Record<string, unknown> | null;
+  chatId: string | null;
+  status: ToolApprovalStatus;
+  createdAt: number;
+  decidedAt: number | null;
+  outcome: string | null;
+  /** The user changed at least one field before approving. */
+  edited: boolean;
+};
+
+export type ClaimResult =
+  | { ok: true; approval: StoredToolApproval }
+  | { ok: false; status: 404 | 409 | 410; message: string; approval?: StoredToolApproval };
+
+const approvalsCol = (userId: string) =>
+  adminDb.collection("users").doc(userId).collection("toolApprovals");
+
+function fromDoc(id: string, d: FirebaseFirestore.DocumentData | undefined): StoredToolApproval | null {
+  if (!d) return null;
+  return {
+    id,
+    toolName: String(d.toolName),
+    label: String(d.label ?? d.toolName),
+    args: (d.args as Record<string, unknown>) ?? {},
+    fields: Array.isArray(d.fields) ? (d.fields as ToolApprovalField[]) : [],
+    currentRecord: d.currentRecord ?? null,
+    current: d.current && typeof d.current === "object" ? (d.current as Record<string, unknown>) : null,
+    chatId: typeof d.chatId === "string" ? d.chatId : null,
+    status: d.status as ToolApprovalStatus,
+    createdAt: Number(d.createdAt) || 0,
+    decidedAt: typeof d.decidedAt === "number" ? d.decidedAt : null,
+    outcome: typeof d.outcome === "string" ? d.outcome : null,
+    edited: d.edited === true,
+  };
+}
+
+/** What the client sees (no raw args). */
+export function toToolApproval(a: StoredToolApproval): ToolApproval {
+  return {
+    id: a.id,
+    toolName: a.toolName,
+    label: a.label,
+    status: a.status,
+    fields: a.fields,
+    ...(a.currentRecord ? { currentRecord: a.currentRecord } : {}),
+    createdAt: a.createdAt,
+    ...(a.decidedAt != null ? { decidedAt: a.decidedAt } : {}),
+    ...(a.outcome ? { outcome: a.outcome } : {}),
+  };
+}
+
+/** Hold a validated tool call for approval (with its preview, if any); null if it couldn't be stored. */
+export async function createToolApproval(
+  userId: string,
+  params: {
+    tool: McpToolDefinition;
+    args: Record<string, unknown>;
+    chatId?: string | null;
+    preview?: ApprovalPreview | null;
+  }
+): Promise<ToolApproval | null> {
+  const { tool, args, chatId, preview } = params;
+  if (!tool.approval) return null;
+  try {
+    const ref = approvalsCol(userId).doc();
+    const approval: StoredToolApproval = {
+      id: ref.id,
+      toolName: tool.name,
+      label: tool.label,
+      args,
+      fields: preview?.fields ?? tool.approval.fields(args),
+      currentRecord: preview?.currentRecord ?? null,
+      current: preview?.current ?? null,
+      chatId: chatId ?? null,
+      status: "pending",
+      createdAt: Date.now(),
+      decidedAt: null,
+      outcome: null,
+      edited: false,
+    };
+    const { id: _id, ...doc } = approval;
+    void _id;
+    await ref.set(doc);
+    return toToolApproval(approval);
+  } catch (error) {
+    console.error("[approvals] create failed:", error);
+    return null;
+  }
+}
+
+export async function readToolApproval(userId: string, id: string): Promise<StoredToolApproval | null> {
+  const snap = await approvalsCol(userId).doc(id).get();
+  return fromDoc(id, snap.data());
+}
+
+/**
+ * Move a pending approval to the user's decision (once). Approving also stores the args
+ * (and fields) that will actually run, after edits.
+ */
+export async function claimToolApproval(
+  userId: string,
+  id: string,
+  decision:
+    | { status: "approved"; args: Record<string, unknown>; fields: ToolApprovalField[]; edited: boolean }
+    | { status: "rejected" }
+): Promise<ClaimResult> {
+  const ref = approvalsCol(userId).doc(id);
+  return adminDb.runTransaction<ClaimResult>(async (tx) => {
+    const current = fromDoc(id, (await tx.get(ref)).data());
+    if (!current) return { ok: false, status: 404, message: "That approval no longer exists." };
+    if (current.status !== "pending") {
+      return { ok: false, status: 409, message: `This change was already ${current.status}.`, approval: current };
+    }
+
+    const now = Date.now();
+    if (now - current.createdAt > APPROVAL_TTL_MS) {
+      tx.update(ref, { status: "expired", decidedAt: now });
+      const expired = { ...current, status: "expired" as const, decidedAt: now };
+      return { ok: false, status: 410, message: "This approval expired. Ask me to prepare the change again.", approval: expired };
+    }
+
+    const patch =
+      decision.status === "approved"
+        ? { status: decision.status, decidedAt: now, args: decision.args, fields: decision.fields, edited: decision.edited }
+        : { status: decision.status, decidedAt: now };
+    tx.update(ref, patch);
+    return { ok: true, approval: { ...current, ...patch } };
+  });
+}
+
+/** Back to pending after a claim when nothing ran (the tool quota was spent). */
+export async function releaseToolApproval(userId: string, id: string): Promise<void> {
+  try {
+    await approvalsCol(userId).doc(id).update({ status: "pending", decidedAt: null });
+  } catch (error) {
+    console.error("[approvals] release failed:", error);
+  }
+}
+
+/** Record how an approved call went ("failed" when the tool errored). */
+export async function settleToolApproval(
+  userId: string,
+  id: string,
+  patch: { status?: ToolApprovalStatus; outcome: string }
+): Promise<void> {
+  try {
+    await approvalsCol(userId).doc(id).update(patch);
+  } catch (error) {
+    console.error("[approvals] settle failed:", error);
+  }
+}
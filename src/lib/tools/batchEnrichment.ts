@@ -0,0 +1,164 @@
+/**
+ * batchEnrichment.ts — email_finder over a list of LinkedIn profiles (server-only).
+ *
+ * /api/chat runs this when router.ts detects a batch (an email lookup ask with pasted URLs or an attached CSV / Excel file):
+ * - one email_finder call per profile, ENRICH_CONCURRENCY at a time (fanOut.ts)
+ * - recent results come from the tool cache (toolCache.ts); "retry"/"refresh" skips it
+ * - each live call goes through the circuit breaker and the daily tool-run quota, and is metered
+ * - every row change is reported through `onRow` (the chat streams it as a progress table)
+ * Output: rows plus a CSV (name, title, email, email_status, linkedin_url) and a Markdown table.
+ *
+ * Gotchas:
+ * - Once the daily quota is hit, the remaining rows are "skipped" (cached rows still fill in).
+ * - Lists longer than ENRICH_MAX_PROFILES are cut; the caller says so.
+ * - Stop aborts in-flight calls; the whole batch then throws like any stopped turn.
+ */
+
+import type { McpServerConfig, McpToolDefinition } from "@/config/toolsConfig";
+import type { EnrichmentRow } from "@/types/types";
+import { runMcpTool } from "@/lib/tools/runners/mcpTool";
+import { retryPolicyFor } from "@/lib/tools/retry";
+import { mapWithConcurrency } from "@/lib/tools/fanOut";
+import { readCachedToolResult, writeCachedToolResult } from "@/lib/tools/toolCache";
+import { checkToolCircuit, recordToolCircuitOutcome } from "@/lib/tools/circuitBreaker";
+import { consumeToolRun } from "@/lib/usage/quota";
+import { recordToolUsage, type MeterContext } from "@/lib/usage/meter";
+
+const envInt = (v: string | undefined, fallback: number) => {
+  const n = Number(v);
+  return Number.isFinite(n) && n > 0 ? Math.floor(n) : fallback;
+};
+
+export const ENRICH_MAX_PROFILES = envInt(process.env.ENRICH_MAX_PROFILES, 50);
+export const ENRICH_CONCURRENCY = envInt(process.env.ENRICH_CONCURRENCY, 4);
+
+type Json = Record<string, unknown>;
+
+const isObject = (v: unknown): v is Json => typeof v === "object" && v !== null && !Array.isArray(v);
+const text = (v: unknown) => (typeof v === "string" ? v.trim() : "");
+
+/** The person record inside an email_finder envelope (object, or first item of an array). */
+function personOf(envelope: unknown): Json {
+  const data = isObject(envelope) ? envelope.data : undefined;
+  const rec = Array.isArray(data) ? data[0] : data;
+  return isObject(rec) ? rec : {};
+}
+
+/** Table row from an email_finder envelope. */
+export function rowFromEnvelope(linkedinUrl: string, envelope: unknown): EnrichmentRow {
+  const p = personOf(envelope);
+  const name = text(p.full_name) || `${text(p.first_name)} ${text(p.last_name)}`.trim();
+  const email = text(p.email);
+  return {
+    linkedinUrl,
+    status: email ? "found" : "not_found",
+    name: name || undefined,
+    title: text(p.title) || text(p.headline) || undefined,
+    company: text(p.company) || text(p.organization_name) || undefined,
+    email: email || undefined,
+    emailStatus: text(p.email_status) || (email ? undefined : "not_found"),
+  };
+}
+
+export type BatchEnrichmentContext = {
+  userId: string;
+  chatId?: string;
+  tool: McpToolDefinition;
+  server: McpServerConfig;
+  /** Skip the cache ("retry" / "refresh" in the message); the circuit breaker still applies. */
+  fresh?: boolean;
+  signal?: AbortSignal;
+  onRow?: (index: number, row: EnrichmentRow) => void;
+};
+
+/** Look up every profile; resolves with one row per URL, in input order. */
+export async function runBatchEnrichment(urls: string[], ctx: BatchEnrichmentContext): Promise<EnrichmentRow[]> {
+  const { userId, chatId, tool, server, fresh, signal, onRow } = ctx;
+  const meter: MeterContext = { userId, chatId };
+  let quotaMessage: string | null = null;
+
+  const enrichOne = async (linkedinUrl: string, index: number): Promise<EnrichmentRow> => {
+    const report = (row: EnrichmentRow) => {
+      onRow?.(index, row);
+      return row;
+    };
+    const args = { linkedin_url: linkedinUrl };
+
+    const hit = fresh ? null : await readCachedToolResult(userId, tool.name, args);
+    if (hit) return report({ ...rowFromEnvelope(linkedinUrl, hit.envelope), cached: true });
+
+    if (quotaMessage) return report({ linkedinUrl, status: "skipped", note: quotaMessage });
+    const circuit = await checkToolCircuit(tool.name);
+    if (!circuit.allowed) {
+      return report({ linkedinUrl, status: "error", note: `${tool.label} is temporarily unavailable.` });
+    }
+    const quota = await consumeToolRun(userId, tool.name);
+    if (!quota.ok) {
+      quotaMessage ??= quota.message;
+      return report({ linkedinUrl, status: "skipped", note: quota.message });
+    }
+
+    report({ linkedinUrl, status: "running" });
+    const started = Date.now();
+    const res = await runMcpTool(tool, args, {
+      baseUrl: server.endpoint,
+      headers: server.headers,
+      transport: server.transport,
+      signal,
+      retry: retryPolicyFor(tool, args),
+    });
+    // Stopped: not the tool's fault, nothing to record
+    signal?.throwIfAborted();
+
+    void recordToolUsage(meter, { toolId: tool.name, latencyMs: Date.now() - started, status: res.ok ? "ok" : "error" });
+    void recordToolCircuitOutcome(tool.name, res.ok, res.ok ? undefined : res.error);
+
+    if (!res.ok || !res.envelope) {
+      console.error(`[batchEnrichment] ${linkedinUrl} failed:`, res.error);
+      return report({ linkedinUrl, status: "error", note: tool.failureMessage });
+    }
+    const envelope = res.envelope as Json;
+    void writeCachedToolResult(userId, tool.name, args, {
+      envelope,
+      card: res.card ?? undefined,
+      title: tool.fallbackTitle(args, envelope),
+    });
+    return report(rowFromEnvelope(linkedinUrl, envelope));
+  };
+
+  return mapWithConcurrency(urls, ENRICH_CONCURRENCY, enrichOne, signal);
+}
+
+// -----------------------------
+// Output
+// -----------------------------
+
+const csvCell = (v: string | undefined) => {
+  const s = v ?? "";
+  return /[",\n\r]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+};
+
+export function enrichmentCsv(rows: EnrichmentRow[]): string {
+  const lines = [["name", "title", "email", "email_status", "linkedin_url"].join(",")];
+  for (const r of rows) {
+    const status = r.emailStatus ?? (r.status === "found" ? "" : r.status);
+    lines.push([r.name, r.title, r.email, status, r.linkedinUrl].map(csvCell).join(","));
+  }
+  return lines.join("\n");
+}
+
+const mdCell = (v: string | undefined) => (v ?? "").replace(/\|/g, "\\|").replace(/\s+/g, " ").trim() || "—";
+
+/** Markdown table for the document artifact. */
+export function enrichmentMarkdown(rows: EnrichmentRow[]): string {
+  const lines = [
+    "| Name | Title | Email | Email status | LinkedIn |",
+    "| --- | --- | --- | --- | --- |",
+    ...rows.map((r) =>
+      [r.name, r.title, r.email, r.emailStatus ?? (r.status === "found" ? "" : r.status), r.linkedinUrl]
+        .map(mdCell)
+        .join(" | ")
+    ),
+  ].map((l) => (l.startsWith("|") ? l : `| ${l} |`));
+  return lines.join("\n");
+}
@@ -0,0 +1,230 @@
+/**
+ * circuitBreaker.ts — per-tool circuit breaker for MCP calls (server-only).
+ *
+ * States:
+ * - closed:    calls go through; consecutive failures (within FAIL_TTL_MS) are counted.
+ * - open:      after MCP_BREAKER_THRESHOLD failures; calls are refused for MCP_BREAKER_COOLDOWN_MS.
+ * - half_open: cooldown over; ONE trial call goes through. Success closes the breaker,
+ *              failure re-opens it for another cooldown.
+ *
+ * Stores (TOOL_CACHE_STORE env, same switch as toolCache.ts):
+ * - "memory": this process only (dev, tests)
+ * - default:  Firestore toolBreakers/{tool}, shared by every instance (transactions)
+ *
+ * Gotchas:
+ * - Only runner failures count (network, 5xx, timeouts, bad envelopes); permission and
+ *   argument errors never reach the breaker. A retried call counts once.
+ * - Everything fails open: a store outage never blocks a tool.
+ * - listToolBreakers() feeds the Activity page (GET /api/tools/health).
+ */
+
+import { adminDb } from "@/services/firebaseAdmin";
+import { FAIL_TTL_MS } from "@/lib/tools/toolBudget";
+
+export type BreakerState = "closed" | "open" | "half_open";
+
+export type ToolBreaker = {
+  tool: string;
+  state: BreakerState;
+  /** Consecutive failures while closed. */
+  failures: number;
+  lastFailureAt: number | null;
+  lastError: string | null;
+  /** When it last opened (cooldown starts here). */
+  openedAt: number | null;
+  /** When the half-open trial call started. */
+  trialAt: number | null;
+  updatedAt: number;
+};
+
+export type BreakerCheck = { allowed: true } | { allowed: false; retryAfterSec: number };
+
+const envInt = (v: string | undefined, fallback: number) => {
+  const n = Number(v);
+  return Number.isFinite(n) && n > 0 ? Math.floor(n) : fallback;
+};
+
+export const BREAKER_THRESHOLD = envInt(process.env.MCP_BREAKER_THRESHOLD, 3);
+export const BREAKER_COOLDOWN_MS = envInt(process.env.MCP_BREAKER_COOLDOWN_MS, 60_000);
+
+const closed = (tool: string, now: number): ToolBreaker => ({
+  tool,
+  state: "closed",
+  failures: 0,
+  lastFailureAt: null,
+  lastError: null,
+  openedAt: null,
+  trialAt: null,
+  updatedAt: now,
+});
+
+// -----------------------------
+// Transitions (pure)
+// -----------------------------
+
+/** May a call go through now? Returns the (possibly half-opened) record too. */
+function admit(prev: ToolBreaker | null, tool: string, now: number): { check: BreakerCheck; next: ToolBreaker | null } {
+  if (!prev || prev.state === "closed") return { check: { allowed: true }, next: null };
+
+  // Open, or half-open with a trial still in flight: wait out the cooldown
+  const since = prev.state === "open" ? prev.openedAt : prev.trialAt;
+  const waitMs = (since ?? 0) + BREAKER_COOLDOWN_MS - now;
+  if (waitMs > 0) {
+    return { check: { allowed: false, retryAfterSec: Math.ceil(waitMs / 1000) }, next: null };
+  }
+
+  // Cooldown over (or the last trial never reported back): this call is the trial
+  return { check: { allowed: true }, next: { ...prev, tool, state: "half_open", trialAt: now, updatedAt: now } };
+}
+
+function afterOutcome(
+  prev: ToolBreaker | null,
+  tool: string,
+  ok: boolean,
+  error: string | undefined,
+  now: number
+): ToolBreaker {
+  if (ok) return closed(tool, now);
+
+  const base = prev ?? closed(tool, now);
+  const recent = base.lastFailureAt != null && now - base.lastFailureAt < FAIL_TTL_MS;
+  const failures = base.state === "closed" && recent ? base.failures + 1 : 1;
+  const open = base.state === "half_open" || failures >= BREAKER_THRESHOLD;
+
+  return {
+    ...base,
+    tool,
+    state: open ? "open" : "closed",
+    failures,
+    lastFailureAt: now,
+    lastError: error ? error.slice(0, 300) : null,
+    openedAt: open ? now : base.openedAt,
+    trialAt: null,
+    updatedAt: now,
+  };
+}
+
+// -----------------------------
+// Stores
+// -----------------------------
+export interface BreakerStore {
+  get(tool: string): Promise<ToolBreaker | null>;
+  /** Read-modify-write; `fn` returning null leaves the record unchanged. */
+  update(tool: string, fn: (prev: ToolBreaker | null) => ToolBreaker | null): Promise<void>;
+  list(): Promise<ToolBreaker[]>;
+}
+
+export class MemoryBreakerStore implements BreakerStore {
+  private records = new Map<string, ToolBreaker>();
+
+  async get(tool: string) {
+    return this.records.get(tool) ?? null;
+  }
+
+  async update(tool: string, fn: (prev: ToolBreaker | null) => ToolBreaker | null) {
+    const next = fn(this.records.get(tool) ?? null);
+    if (next) this.records.set(tool, next);
+  }
+
+  async list() {
+    return [...this.records.values()];
+  }
+}
+
+export class FirestoreBreakerStore implements BreakerStore {
+  private col = () => adminDb.collection("toolBreakers");
+
+  private fromDoc(d: FirebaseFirestore.DocumentData | undefined): ToolBreaker | null {
+    if (!d) return null;
+    return {
+      tool: String(d.tool),
+      state: d.state === "open" || d.state === "half_open" ? d.state : "closed",
+      failures: Number(d.failures) || 0,
+      lastFailureAt: typeof d.lastFailureAt === "number" ? d.lastFailureAt : null,
+      lastError: typeof d.lastError === "string" ? d.lastError : null,
+      openedAt: typeof d.openedAt === "number" ? d.openedAt : null,
+      trialAt: typeof d.trialAt === "number" ? d.trialAt : null,
+      updatedAt: Number(d.updatedAt) || 0,
+    };
+  }
+
+  async get(tool: string) {
+    return this.fromDoc((await this.col().doc(tool).get()).data());
+  }
+
+  async update(tool: string, fn: (prev: ToolBreaker | null) => ToolBreaker | null) {
+    const ref = this.col().doc(tool);
+    await adminDb.runTransaction(async (tx) => {
+      const next = fn(this.fromDoc((await tx.get(ref)).data()));
+      if (next) tx.set(ref, next);
+    });
+  }
+
+  async list() {
+    const snap = await this.col().limit(200).get();
+    return snap.docs.map((d) => this.fromDoc(d.data())).filter((b): b is ToolBreaker => !!b);
+  }
+}
+
+let store: BreakerStore =
+  process.env.TOOL_CACHE_STORE === "memory" ? new MemoryBreakerStore() : new FirestoreBreakerStore();
+
+/** Swap the breaker store (tests, or Redis later). */
+export function setBreakerStore(next: BreakerStore) {
+  store = next;
+}
+
+// -----------------------------
+// Route-facing helpers
+// -----------------------------
+
+/** Ask before calling a tool; an allowed call on an expired open breaker becomes the trial. */
+export async function checkToolCircuit(tool: string): Promise<BreakerCheck> {
+  try {
+    // Healthy tools: one read, no transaction
+    const current = await store.get(tool);
+    if (!current || current.state === "closed") return { allowed: true };
+
+    let check: BreakerCheck = { allowed: true };
+    await store.update(tool, (prev) => {
+      const res = admit(prev, tool, Date.now());
+      check = res.check;
+      return res.next;
+    });
+    return check;
+  } catch (error) {
+    console.error("[circuitBreaker] check failed:", error);
+    return { allowed: true };
+  }
+}
+
+/** Report how a call went (once per call, after retries). */
+export async function recordToolCircuitOutcome(tool: string, ok: boolean, error?: string): Promise<void> {
+  const healthy = (b: ToolBreaker | null) => !b || (b.state === "closed" && b.failures === 0);
+  try {
+    // Nothing to write for a success on a healthy tool
+    if (ok && healthy(await store.get(tool))) return;
+    await store.update(tool, (prev) => {
+      if (ok && healthy(prev)) return null;
+      return afterOutcome(prev, tool, ok, error, Date.now());
+    });
+  } catch (error) {
+    console.error("[circuitBreaker] update failed:", error);
+  }
+}
+
+/** Every tool with a breaker record (healthy tools that never failed have none). */
+export async function listToolBreakers(): Promise<ToolBreaker[]> {
+  try {
+    const now = Date.now();
+    // An open breaker past its cooldown is effectively half-open (the next call is the trial)
+    return (await store.list()).map((b) =>
+      b.state === "open" && b.openedAt != null && now - b.openedAt >= BREAKER_COOLDOWN_MS
+        ? { ...b, state: "half_open" as const }
+        : b
+    );
+  } catch (error) {
+    console.error("[circuitBreaker] list failed:", error);
+    return [];
+  }
+}
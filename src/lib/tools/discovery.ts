@@ -0,0 +1,191 @@
+/**
+ * discovery.ts — build the MCP tool registry from each server's tools/list (server-only).
+ *
+ * What it does:
+ * - For every MCP server the user may use (MCP_SERVERS), handshakes (initialize) and lists
+ *   its tools; cached per server (id, endpoint and headers: two servers, or two credential sets
+ *   on one endpoint, may list different tools). `enabledTools` limits what a server contributes.
+ * - Tools from non-default servers are namespaced ("<namespace>__<tool>") so two servers
+ *   can both expose e.g. "search"; each definition keeps its serverId for dispatch.
+ * - Local MCP_TOOLS entries win for tools we know (tuned schema, validator, messages);
+ *   MCP_TOOL_OVERRIDES can still change their description/permission/hidden flag.
+ * - Unknown tools become generic entries: schema from `inputSchema`, permission key =
+ *   override or the LLM name, so they appear for users with users/{uid}/toolPermissions/{key}.
+ *   They're retried on transient failures only if the server marks them read-only/idempotent,
+ *   and held for the user's approval if it marks them destructive.
+ *
+ * Gotchas:
+ * - Discovery failure never breaks chat: the static MCP_TOOLS are returned.
+ * - MCP_DISCOVERY=off disables it (static registry only).
+ */
+
+import {
+  DEFAULT_MCP_SERVER_ID,
+  MCP_TOOLS,
+  MCP_TOOL_OVERRIDES,
+  mcpServersForUser,
+  type McpServerConfig,
+  type McpToolDefinition,
+  type McpToolOverride,
+} from "@/config/toolsConfig";
+import { listMCPTools, type MCPToolInfo } from "@/lib/mcpClient";
+import { argsApproval } from "@/lib/tools/approvalFields";
+
+const DISCOVERY_TTL_MS = Number(process.env.MCP_DISCOVERY_TTL_MS) || 10 * 60 * 1000;
+const DISCOVERY_RETRY_MS = 60 * 1000; // after a failure, wait before asking again
+
+type CacheSlot = { tools: MCPToolInfo[] | null; ts: number; ttl: number; pending?: Promise<MCPToolInfo[] | null> };
+const DISCOVERY_CACHE = new Map<string, CacheSlot>();
+
+const discoveryKey = ({ id, endpoint, headers, transport }: McpServerConfig) =>
+  `${id} ${transport} ${endpoint} ${JSON.stringify(Object.entries(headers).sort())}`;
+
+function readOverrides(): Record<string, McpToolOverride> {
+  try {
+    const env = JSON.parse(process.env.MCP_TOOL_OVERRIDES || "{}") as Record<string, McpToolOverride>;
+    return { ...MCP_TOOL_OVERRIDES, ...env };
+  } catch {
+    return MCP_TOOL_OVERRIDES;
+  }
+}
+
+/** MCP ids like "TestEmailFinder" / "deep-search" → "test_email_finder" / "deep_search". */
+export function toLlmToolName(mcpId: string): string {
+  return mcpId
+    .replace(/([a-z0-9])([A-Z])/g, "$1_$2")
+    .replace(/[^A-Za-z0-9_]+/g, "_")
+    .replace(/^_+|_+$/g, "")
+    .toLowerCase()
+    .slice(0, 64) || "mcp_tool";
+}
+
+/** Minimal check for discovered tools: required fields present and non-empty. */
+function requiredArgsValidator(schema: Record<string, unknown>, label: string): McpToolDefinition["validateArgs"] {
+  const required = Array.isArray(schema.required)
+    ? schema.required.filter((k): k is string => typeof k === "string")
+    : [];
+  return (args) => {
+    const missing = required.filter((k) => args[k] == null || args[k] === "");
+    return missing.length
+      ? { ok: false, message: `The ${label} tool needs: ${missing.join(", ")}.` }
+      : { ok: true, args };
+  };
+}
+
+function fromDiscovered(
+  server: McpServerConfig,
+  t: MCPToolInfo,
+  o: McpToolOverride | undefined
+): McpToolDefinition {
+  const base = o?.name || toLlmToolName(t.name);
+  const name = server.namespace ? `${server.namespace}__${base}`.slice(0, 64) : base;
+  const label = o?.label || t.name;
+  const parameters =
+    t.inputSchema && typeof t.inputSchema === "object"
+      ? t.inputSchema
+      : { type: "object", properties: {} };
+
+  return {
+    name,
+    serverId: server.id,
+    mcpId: t.name,
+    permissionKey: o?.permissionKey || name,
+    label,
+    llm: { name, description: o?.description || t.description || `${label} (MCP tool)`, parameters },
+    validateArgs: requiredArgsValidator(parameters, label),
+    failureMessage: `The ${label} tool had a problem. You can ask me to try again.`,
+    fallbackTitle: () => label,
+    hidden: o?.hidden,
+    idempotent: o?.idempotent ?? (t.annotations?.readOnlyHint === true || t.annotations?.idempotentHint === true),
+    approval: (o?.requiresApproval ?? t.annotations?.destructiveHint === true) ? argsApproval : undefined,
+  };
+}
+
+function withOverride(def: McpToolDefinition, o: McpToolOverride | undefined): McpToolDefinition {
+  if (!o) return def;
+  return {
+    ...def,
+    label: o.label || def.label,
+    permissionKey: o.permissionKey || def.permissionKey,
+    llm: { ...def.llm, description: o.description || def.llm.description },
+    hidden: o.hidden ?? def.hidden,
+    idempotent: o.idempotent ?? def.idempotent,
+    approval: o.requiresApproval === false ? undefined : o.requiresApproval ? def.approval ?? argsApproval : def.approval,
+  };
+}
+
+const overrideFor = (overrides: Record<string, McpToolOverride>, serverId: string, mcpId: string) =>
+  overrides[`${serverId}:${mcpId}`] ?? (serverId === DEFAULT_MCP_SERVER_ID ? overrides[mcpId] : undefined);
+
+/**
+ * Merge discovered tools with the static registry and overrides.
+ * `discovered` pairs each reachable server with its tools/list (null = not listed).
+ */
+export function mergeToolRegistry(
+  discovered: Array<{ server: McpServerConfig; tools: MCPToolInfo[] | null }>
+): McpToolDefinition[] {
+  const overrides = readOverrides();
+  const merged = MCP_TOOLS.map((def) => withOverride(def, overrideFor(overrides, def.serverId, def.mcpId)));
+  const taken = new Set(merged.map((d) => d.name));
+
+  for (const { server, tools } of discovered) {
+    for (const t of tools ?? []) {
+      if (server.enabledTools && !server.enabledTools.includes(t.name)) continue;
+      if (MCP_TOOLS.some((def) => def.serverId === server.id && def.mcpId === t.name)) continue;
+      const def = fromDiscovered(server, t, overrideFor(overrides, server.id, t.name));
+      if (taken.has(def.name)) {
+        console.warn(`[mcp] discovered tool "${server.id}:${t.name}" collides with "${def.name}"; skipped`);
+        continue;
+      }
+      taken.add(def.name);
+      merged.push(def);
+    }
+  }
+  return merged;
+}
+
+async function discover(server: McpServerConfig): Promise<MCPToolInfo[] | null> {
+  const { endpoint: baseUrl, headers, transport } = server;
+  const key = discoveryKey(server);
+  const now = Date.now();
+  const slot = DISCOVERY_CACHE.get(key);
+  if (slot?.pending) return slot.pending;
+  if (slot && now - slot.ts < slot.ttl) return slot.tools;
+
+  const pending = listMCPTools({ baseUrl, headers, transport, timeoutMs: 15_000 })
+    .then(({ tools }) => {
+      DISCOVERY_CACHE.set(key, { tools, ts: Date.now(), ttl: DISCOVERY_TTL_MS });
+      return tools;
+    })
+    .catch((err: unknown) => {
+      console.warn("[mcp] tools/list failed; using static tools:", err instanceof Error ? err.message : err);
+      // Keep serving the last good list (if any) until the retry window passes
+      const tools = slot?.tools ?? null;
+      DISCOVERY_CACHE.set(key, { tools, ts: Date.now(), ttl: DISCOVERY_RETRY_MS });
+      return tools;
+    });
+
+  DISCOVERY_CACHE.set(key, { tools: slot?.tools ?? null, ts: slot?.ts ?? 0, ttl: 0, pending });
+  return pending;
+}
+
+/**
+ * The MCP tool registry for this user: static tools + whatever the servers they may
+ * use advertise. Static tools of the default server are always included.
+ */
+export async function getMcpToolRegistry(userId: string, orgId: string | null): Promise<McpToolDefinition[]> {
+  const servers = mcpServersForUser(userId, orgId);
+  if (process.env.MCP_DISCOVERY === "off") return mergeToolRegistry([]);
+
+  const discovered = await Promise.all(
+    servers.map(async (server) => ({
+      server,
+      // The default n8n server without credentials can't be listed (static tools still apply)
+      tools:
+        server.id === DEFAULT_MCP_SERVER_ID && !Object.keys(server.headers).length
+          ? null
+          : await discover(server),
+    }))
+  );
+  return mergeToolRegistry(discovered);
+}
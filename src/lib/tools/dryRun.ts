@@ -0,0 +1,73 @@
+/**
+ * dryRun.ts — preview what an approval-gated write would change (server-only).
+ *
+ * Opt-in per tool: only tools whose `approval` hooks define a `lookup` (CRM, when
+ * MCP_TOOL_ID_CRM_LOOKUP is set) get one. The lookup is a separate, read-only MCP tool;
+ * the write tool itself is never called before the user approves. Its envelope's record is
+ * diffed against the proposed fields (approvalFields.ts); the result feeds createToolApproval
+ * (fields with previous values) and the chat (an "old → new" KingaCard envelope).
+ *
+ * Gotchas:
+ * - Best effort: a failed lookup still creates the approval, with currentRecord
+ *   "unavailable" and no previous values.
+ * - Called exactly once, never retried: the lookup's safety is the workflow's promise,
+ *   and a preview isn't worth a second request.
+ * - A read: not counted against tool-run quotas and not fed to the circuit breaker.
+ */
+
+import type { McpServerConfig, McpToolDefinition } from "@/config/toolsConfig";
+import type { KingaCard, ToolApproval, ToolApprovalField } from "@/types/types";
+import type { MCPProgressListener } from "@/lib/mcpClient";
+import { runMcpTool } from "@/lib/tools/runners/mcpTool";
+import { NO_RETRY } from "@/lib/tools/retry";
+import { diffCard, diffFields } from "@/lib/tools/approvalFields";
+
+export type ApprovalPreview = {
+  fields: ToolApprovalField[];
+  currentRecord: NonNullable<ToolApproval["currentRecord"]>;
+  /** The record the lookup found (kept server-side to re-diff after edits). */
+  current: Record<string, unknown> | null;
+  /** Envelope for the chat: the diff as a KingaCard. */
+  envelope?: { summary: string; ui: { mime: "application/kinga.card+json"; content: KingaCard } };
+};
+
+/** Look up the record `tool` would write with `args`; null when the tool has no lookup. */
+export async function previewToolApproval(
+  tool: McpToolDefinition,
+  args: Record<string, unknown>,
+  ctx: { server: McpServerConfig; signal?: AbortSignal; onProgress?: MCPProgressListener }
+): Promise<ApprovalPreview | null> {
+  const hooks = tool.approval;
+  const lookup = hooks?.lookup;
+  if (!hooks || !lookup?.mcpId || lookup.mcpId === tool.mcpId) return null;
+
+  const fields = hooks.fields(args);
+  const unavailable: ApprovalPreview = { fields, currentRecord: "unavailable", current: null };
+
+  ctx.onProgress?.({ message: `Checking what the ${tool.label} holds now` });
+  const res = await runMcpTool(tool, lookup.args(args), {
+    baseUrl: ctx.server.endpoint,
+    headers: ctx.server.headers,
+    transport: ctx.server.transport,
+    signal: ctx.signal,
+    mcpToolName: lookup.mcpId,
+    retry: NO_RETRY,
+  });
+  if (!res.ok || !res.envelope) {
+    console.error(`[dryRun] ${tool.name} preview failed:`, res.error);
+    return unavailable;
+  }
+
+  const current = lookup.current(res.envelope);
+  const diffed = diffFields(fields, current);
+  const card = diffCard(`${tool.label} · current → proposed`, diffed);
+  return {
+    fields: diffed,
+    currentRecord: current ? "found" : "none",
+    current,
+    envelope: {
+      summary: card.summary ?? `${tool.label} changes`,
+      ui: { mime: "application/kinga.card+json", content: card },
+    },
+  };
+}
@@ -0,0 +1,32 @@
+/**
+ * fanOut.ts — run independent async jobs with a concurrency cap.
+ *
+ * Used by /api/chat when the model issues several tool calls in one response
+ * (parallel tool calls): at most `limit` run at once, results come back in input order.
+ *
+ * Gotchas:
+ * - Jobs should catch their own errors; one that throws rejects the whole fan-out
+ *   (the others still finish in the background).
+ * - An aborted `signal` stops starting new jobs; running ones see the same signal.
+ */
+
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  job: (item: T, index: number) => Promise<R>,
+  signal?: AbortSignal
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  const lane = async () => {
+    while (next < items.length) {
+      signal?.throwIfAborted();
+      const i = next++;
+      results[i] = await job(items[i], i);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, lane));
+  return results;
+}
@@ -4,4 +4,4 @@
 export * from "./toolBudget";
 export * from "./envelope";
 export * from "./router";
-export * from "./runners/emailFinder";
+export * from "./runners/mcpTool";
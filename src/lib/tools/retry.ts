@@ -0,0 +1,75 @@
+/**
+ * retry.ts — when and how often to retry a failed MCP tool call (server-only).
+ *
+ * Policy:
+ * - Only tools that are safe to repeat: `idempotent` registry entries (search, email_finder,
+ *   discovered read-only tools), or writes whose args carry an idempotency key (CRM).
+ * - Only transient failures: 5xx / 408 / 429, dropped or closed streams, network errors.
+ *   Tool errors, bad envelopes, 4xx and timeouts are returned as-is.
+ * - Exponential backoff with full jitter: wait random(0, min(max, base · 2^(attempt-1))).
+ *
+ * Env (defaults in brackets):
+ * - MCP_RETRY_ATTEMPTS [3]   total attempts, including the first; 1 disables retries
+ * - MCP_RETRY_BASE_MS  [400]
+ * - MCP_RETRY_MAX_MS   [4000]
+ */
+
+import type { McpToolDefinition } from "@/config/toolsConfig";
+
+export type RetryPolicy = {
+  /** Total attempts, including the first. */
+  attempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+};
+
+const envInt = (v: string | undefined, fallback: number) => {
+  const n = Number(v);
+  return Number.isFinite(n) && n >= 0 ? Math.floor(n) : fallback;
+};
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  attempts: Math.max(1, envInt(process.env.MCP_RETRY_ATTEMPTS, 3)),
+  baseDelayMs: envInt(process.env.MCP_RETRY_BASE_MS, 400),
+  maxDelayMs: envInt(process.env.MCP_RETRY_MAX_MS, 4000),
+};
+
+/** No retries: a single attempt. */
+export const NO_RETRY: RetryPolicy = { ...DEFAULT_RETRY_POLICY, attempts: 1 };
+
+/** Retry policy for one call of this tool with these (validated) args. */
+export function retryPolicyFor(
+  tool: Pick<McpToolDefinition, "idempotent" | "idempotencyKey">,
+  args: Record<string, unknown>
+): RetryPolicy {
+  const safe = tool.idempotent === true || !!tool.idempotencyKey?.(args);
+  return safe ? DEFAULT_RETRY_POLICY : NO_RETRY;
+}
+
+// Messages produced by mcpClient / fetch for failures worth another try
+const TRANSIENT_ERROR_RE =
+  /\((5\d\d|408|429)\)|fetch failed|ECONNRESET|ECONNREFUSED|ETIMEDOUT|EPIPE|socket hang up|other side closed|stream ended|session (closed|expired|not open)|No session URL/i;
+
+export function isTransientToolError(error: string | undefined): boolean {
+  return !!error && TRANSIENT_ERROR_RE.test(error);
+}
+
+/** Delay before retry number `attempt` (1 = first retry). */
+export function backoffDelayMs(attempt: number, policy: RetryPolicy = DEFAULT_RETRY_POLICY): number {
+  const cap = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+  return Math.floor(Math.random() * cap);
+}
+
+/** Sleep that ends early (resolving) when the signal aborts; callers check the signal after. */
+export function sleepUnlessAborted(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (signal?.aborted) return resolve();
+    const done = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", done);
+      resolve();
+    };
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener("abort", done, { once: true });
+  });
+}
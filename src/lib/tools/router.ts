@@ -6,10 +6,15 @@
  * - No “same URL” blocking
  * - Uses env: N8N_MCP_BASE_URL, N8N_AUTH_HEADER_NAME, N8N_AUTH_HEADER_VALUE
  * - Returns a concise text + optional KingaCard + suggestedTitle
+ *
+ * Batch mode: detectBatchEnrichment() picks out a *list* of profiles (pasted, or in an attached
+ * CSV / Excel file); /api/chat then runs email_finder for each (batchEnrichment.ts) instead of this route.
  */
 
 import type { KingaCard } from "@/types/types";
-import { runEmailFinder } from "@/lib/tools/runners/emailFinder";
+import { DEFAULT_MCP_SERVER_ID, getMcpServer, getMcpTool } from "@/config/toolsConfig";
+import { runMcpTool } from "@/lib/tools/runners/mcpTool";
+import { retryPolicyFor } from "@/lib/tools/retry";
 
 // export type SimpleTurn = { role: "user" | "assistant"; content: string };
 
@@ -27,10 +32,49 @@ export type RouterResult =
 
 // LinkedIn profile URL
 const LINKEDIN_IN_RE = /https?:\/\/(?:www\.)?linkedin\.com\/in\/[^\s)]+/i;
+// Every profile URL in a text (any subdomain, e.g. uk.linkedin.com); the slug is group 1
+const LINKEDIN_IN_ALL_RE = /https?:\/\/(?:[a-z0-9-]+\.)?linkedin\.com\/in\/([^\s/?#)"',;]+)[^\s)"',;]*/gi;
 
 // “find email” intent (keeps compose/“write an email” out)
 const LOOKUP_INTENT_RE =
-  /\b(find|lookup|look\s*up|get|fetch|discover|pull|what(?:'s| is))\b[^\n]{0,40}\b(e[-\s]?mail|email|contact(?:\s*(?:info|information)?)?)\b|\b(e[-\s]?mail|email)\s*address\b/i;
+  /\b(find|lookup|look\s*up|get|fetch|discover|pull|what(?:'s| is))\b[^\n]{0,40}\b(e[-\s]?mails?|contacts?(?:\s*(?:info|information)?)?)\b|\b(e[-\s]?mail|email)\s*address\b/i;
+
+/**
+ * All LinkedIn /in/ profile URLs in `text`, normalized to https://www.linkedin.com/in/<slug>
+ * (no query, hash or trailing path) and de-duplicated, in order of appearance.
+ */
+export function extractLinkedInUrls(text: string): string[] {
+  const seen = new Set<string>();
+  const out: string[] = [];
+  for (const m of String(text || "").matchAll(LINKEDIN_IN_ALL_RE)) {
+    let slug = m[1];
+    try {
+      slug = decodeURIComponent(slug);
+    } catch {
+      // keep the raw slug
+    }
+    const key = slug.toLowerCase();
+    if (seen.has(key)) continue;
+    seen.add(key);
+    out.push(`https://www.linkedin.com/in/${encodeURIComponent(slug)}`);
+  }
+  return out;
+}
+
+/**
+ * Profiles for a batch email lookup, or null when this isn't one.
+ * - `attached`: text of the CSV / Excel files sent with the message. Their profile URLs
+ *   count when the message asks for emails ("find emails for these").
+ * - Pasted text needs 2+ profile URLs.
+ * - Either way the message must ask for emails: the lookups are paid, and a list sent for
+ *   anything else ("add these to the CRM: …") goes to the model.
+ */
+export function detectBatchEnrichment(message: string, attached?: string): string[] | null {
+  if (!LOOKUP_INTENT_RE.test(String(message || ""))) return null;
+  const fromFiles = attached ? extractLinkedInUrls(attached) : [];
+  const urls = extractLinkedInUrls(`${message}\n${fromFiles.join("\n")}`);
+  return fromFiles.length || urls.length >= 2 ? urls : null;
+}
 
 /** Small helper so we can log config problems without leaking secrets */
 function debugConfig(): { ok: boolean; reason?: string; base?: string; headerName?: string } {
@@ -50,8 +94,8 @@ export async function hardRouteEmailFinder(
 ): Promise<RouterResult> {
   const text = String(message || "");
 
-  // Not a lookup → let the LLM handle it
-  if (!LOOKUP_INTENT_RE.test(text)) return { handled: false };
+  // Not a lookup → let the LLM handle it; a list of profiles is batch mode (detectBatchEnrichment)
+  if (!LOOKUP_INTENT_RE.test(text) || extractLinkedInUrls(text).length > 1) return { handled: false };
 
   // Need a LinkedIn URL
   const linkedin_url = text.match(LINKEDIN_IN_RE)?.[0];
@@ -74,16 +118,19 @@ export async function hardRouteEmailFinder(
     };
   }
 
-  // Call your existing runner exactly once
-  const res = await runEmailFinder(
+  // Call the registered email_finder tool exactly once
+  const tool = getMcpTool("email_finder")!;
+  const res = await runMcpTool(
+    tool,
     { linkedin_url },
     {
       baseUrl: process.env.N8N_MCP_BASE_URL!,
       headers: {
         [process.env.N8N_AUTH_HEADER_NAME!]: process.env.N8N_AUTH_HEADER_VALUE!,
       },
+      transport: getMcpServer(DEFAULT_MCP_SERVER_ID)?.transport,
       timeoutMs: 30_000,
-      // mcpToolName: "EmailFinder" // only if your n8n MCP names it differently
+      retry: retryPolicyFor(tool, { linkedin_url }),
     }
   );
 
@@ -0,0 +1,136 @@
+/**
+ * runners/mcpTool.ts — the one MCP runner every registered tool goes through.
+ *
+ * Replaces the per-tool runners (search / crm / emailFinder), which only differed
+ * in their MCP id:
+ * - Calls the tool via callMCPTool on the server's pooled session (id from the registry, see MCP_TOOLS)
+ * - Extracts a Kinga envelope with envelope.ts helpers
+ * - Retries transient failures per ctx.retry (see lib/tools/retry.ts; default: no retries)
+ * - Returns a normalized result: { ok, envelope, card, ctx, raw, durationMs, attempts } | { ok:false, error,... }
+ *
+ * Does NOT check permissions or arguments; /api/chat and /api/mcp/stream do that with the registry.
+ */
+
+import { callMCPTool, type MCPProgressListener, type MCPTransport } from "@/lib/mcpClient";
+import type { KingaCard } from "@/types/types";
+import type { McpToolDefinition } from "@/config/toolsConfig";
+import {
+  extractKingaEnvelope,
+  getCardFromEnvelope,
+  buildCtxFromEnvelope,
+} from "@/lib/tools/envelope";
+import type { KingaEnvelope } from "@/lib/tools/envelope";
+import {
+  NO_RETRY,
+  backoffDelayMs,
+  isTransientToolError,
+  sleepUnlessAborted,
+  type RetryPolicy,
+} from "@/lib/tools/retry";
+
+// Context passed in by the router/route
+export interface ToolRunContext {
+  baseUrl: string;
+  headers: Record<string, string>;
+  /** Server transport (McpServerConfig.transport); "auto" when omitted */
+  transport?: MCPTransport;
+  timeoutMs?: number;
+  /** Progress notifications / log lines the server sends while the tool runs */
+  onProgress?: MCPProgressListener;
+  /** Cancels the call (user pressed Stop) */
+  signal?: AbortSignal;
+  /** Retries for transient failures; only pass one for idempotent calls (retryPolicyFor) */
+  retry?: RetryPolicy;
+  /** Called before each retry with the failed attempt's error */
+  onRetry?: (attempt: number, error: string) => void;
+  /** Optional override of the registry's MCP id */
+  mcpToolName?: string;
+}
+
+// Normalized result returned to the route
+export interface ToolRunResult {
+  ok: boolean;
+  envelope?: KingaEnvelope | null;
+  card?: KingaCard | null;
+  ctx?: Record<string, string>;
+  raw?: unknown;
+  error?: string;
+  durationMs: number;
+  /** MCP calls made (1 unless retried) */
+  attempts: number;
+}
+
+const isObject = (v: unknown): v is Record<string, unknown> =>
+  typeof v === "object" && v !== null;
+
+/** First text part of an MCP tools/call result (string result or content[0].text). */
+function firstText(result: unknown): string | undefined {
+  if (typeof result === "string") return result;
+  if (isObject(result) && Array.isArray(result.content)) {
+    const first = result.content[0];
+    if (isObject(first) && typeof first.text === "string") return first.text;
+  }
+  return undefined;
+}
+
+/**
+ * Run a registered MCP tool with already-validated arguments.
+ */
+export async function runMcpTool(
+  tool: Pick<McpToolDefinition, "mcpId" | "timeoutMs" | "label">,
+  args: Record<string, unknown>,
+  ctx: ToolRunContext
+): Promise<ToolRunResult> {
+  const started = Date.now();
+  const policy = ctx.retry ?? NO_RETRY;
+
+  for (let attempt = 1; ; attempt++) {
+    const res = await runOnce(tool, args, ctx);
+    const done = { ...res, durationMs: Date.now() - started, attempts: attempt };
+    if (res.ok || attempt >= policy.attempts || !isTransientToolError(res.error)) return done;
+
+    ctx.onRetry?.(attempt, res.error ?? "");
+    await sleepUnlessAborted(backoffDelayMs(attempt, policy), ctx.signal);
+    if (ctx.signal?.aborted) return done;
+  }
+}
+
+async function runOnce(
+  tool: Pick<McpToolDefinition, "mcpId" | "timeoutMs" | "label">,
+  args: Record<string, unknown>,
+  ctx: ToolRunContext
+): Promise<Omit<ToolRunResult, "durationMs" | "attempts">> {
+  try {
+    const mcp = await callMCPTool({
+      baseUrl: ctx.baseUrl,
+      headers: ctx.headers,
+      transport: ctx.transport,
+      toolName: ctx.mcpToolName ?? tool.mcpId,
+      args,
+      timeoutMs: ctx.timeoutMs ?? tool.timeoutMs ?? 30_000,
+      onProgress: ctx.onProgress,
+      signal: ctx.signal,
+    });
+
+    // Extract envelope across common MCP response shapes
+    const result = isObject(mcp) && "result" in mcp ? mcp.result : undefined;
+    const raw: unknown = result ?? mcp;
+
+    const { envelope } = extractKingaEnvelope(mcp, firstText(result));
+    const card = getCardFromEnvelope(envelope);
+    const compactCtx = buildCtxFromEnvelope(envelope);
+
+    return {
+      ok: !!envelope,
+      envelope,
+      card,
+      ctx: compactCtx,
+      raw,
+    };
+  } catch (err: unknown) {
+    return {
+      ok: false,
+      error: err instanceof Error ? err.message : `${tool.label} failed`,
+    };
+  }
+}
@@ -0,0 +1,161 @@
+/**
+ * schema.ts — small JSON Schema checker for tool arguments.
+ *
+ * Covers the subset tool `parameters` use: type (incl. unions and "integer"), required,
+ * properties, additionalProperties: false, minProperties, enum, const, string
+ * length/pattern/format ("uri", "email"), number bounds, array items/length, and JSON carried
+ * in a string (contentMediaType "application/json" + contentSchema, e.g. crm_handoff_package).
+ * Anything else in the schema is ignored (not rejected).
+ *
+ * Returns readable errors ("agent_query: must be of type string") for the user/model, or [] when valid.
+ */
+
+export type JsonSchema = {
+  type?: string | string[];
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  enum?: unknown[];
+  const?: unknown;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  format?: string;
+  minimum?: number;
+  maximum?: number;
+  minItems?: number;
+  maxItems?: number;
+  minProperties?: number;
+  /** "application/json": the string must parse, and the parsed value must match contentSchema. */
+  contentMediaType?: string;
+  contentSchema?: JsonSchema;
+  description?: string;
+};
+
+const typeOf = (v: unknown): string =>
+  v === null ? "null" : Array.isArray(v) ? "array" : typeof v === "number" && Number.isInteger(v) ? "integer" : typeof v;
+
+function matchesType(value: unknown, type: string): boolean {
+  const actual = typeOf(value);
+  if (type === "number") return actual === "number" || actual === "integer";
+  return actual === type;
+}
+
+const EMAIL_RE = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+function checkFormat(value: string, format: string): string | null {
+  if (format === "uri" || format === "url") {
+    try {
+      const u = new URL(value);
+      return /^https?:$/.test(u.protocol) ? null : "must be an http(s) URL";
+    } catch {
+      return "must be a URL";
+    }
+  }
+  if (format === "email") return EMAIL_RE.test(value) ? null : "must be an email address";
+  return null;
+}
+
+/** Validate `value` against `schema`; `path` prefixes error messages. */
+export function validateJsonSchema(schema: JsonSchema | undefined, value: unknown, path = ""): string[] {
+  if (!schema || typeof schema !== "object") return [];
+  const at = (msg: string) => `${path || "arguments"}: ${msg}`;
+
+  if (schema.type) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((t) => matchesType(value, t))) return [at(`must be of type ${types.join(" or ")}`)];
+  }
+  if (schema.const !== undefined && value !== schema.const) return [at(`must be ${JSON.stringify(schema.const)}`)];
+  if (schema.enum && !schema.enum.includes(value)) {
+    return [at(`must be one of ${schema.enum.map((e) => JSON.stringify(e)).join(", ")}`)];
+  }
+
+  const errors: string[] = [];
+
+  if (typeof value === "string") {
+    if (schema.minLength != null && value.length < schema.minLength) {
+      errors.push(at(schema.minLength === 1 ? "must not be empty" : `must be at least ${schema.minLength} characters`));
+    }
+    if (schema.maxLength != null && value.length > schema.maxLength) {
+      errors.push(at(`must be at most ${schema.maxLength} characters`));
+    }
+    if (schema.pattern) {
+      try {
+        if (!new RegExp(schema.pattern).test(value)) errors.push(at(`must match ${schema.pattern}`));
+      } catch {
+        // invalid pattern in the schema: not the caller's fault
+      }
+    }
+    const formatError = schema.format ? checkFormat(value, schema.format) : null;
+    if (formatError) errors.push(at(formatError));
+
+    if (schema.contentMediaType === "application/json") {
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(value);
+      } catch {
+        return [...errors, at("must be a string of valid JSON")];
+      }
+      errors.push(...validateJsonSchema(schema.contentSchema, parsed, path));
+    }
+  }
+
+  if (typeof value === "number") {
+    if (schema.minimum != null && value < schema.minimum) errors.push(at(`must be ≥ ${schema.minimum}`));
+    if (schema.maximum != null && value > schema.maximum) errors.push(at(`must be ≤ ${schema.maximum}`));
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems != null && value.length < schema.minItems) errors.push(at(`needs at least ${schema.minItems} items`));
+    if (schema.maxItems != null && value.length > schema.maxItems) errors.push(at(`allows at most ${schema.maxItems} items`));
+    if (schema.items) {
+      value.forEach((item, i) => errors.push(...validateJsonSchema(schema.items, item, `${path}[${i}]`)));
+    }
+  }
+
+  if (typeOf(value) === "object") {
+    const obj = value as Record<string, unknown>;
+    const child = (key: string) => (path ? `${path}.${key}` : key);
+
+    if (schema.minProperties != null && Object.keys(obj).length < schema.minProperties) {
+      errors.push(at(schema.minProperties === 1 ? "must not be empty" : `needs at least ${schema.minProperties} fields`));
+    }
+
+    for (const key of schema.required ?? []) {
+      if (obj[key] === undefined || obj[key] === null) errors.push(`${child(key)}: is required`);
+    }
+    for (const [key, v] of Object.entries(obj)) {
+      const propSchema = schema.properties?.[key];
+      if (propSchema) {
+        errors.push(...validateJsonSchema(propSchema, v, child(key)));
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${child(key)}: is not an allowed field`);
+      } else if (schema.additionalProperties && typeof schema.additionalProperties === "object") {
+        errors.push(...validateJsonSchema(schema.additionalProperties, v, child(key)));
+      }
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * A model's tool-call arguments (JSON string) → args object + schema errors.
+ * Bad JSON yields `{ raw }` (so the call can still be replayed to the model) and an error.
+ */
+export function parseToolArguments(
+  json: string,
+  schema: JsonSchema | undefined
+): { args: Record<string, unknown>; errors: string[] } {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json || "{}");
+  } catch {
+    return { args: { raw: json }, errors: ["arguments: not valid JSON"] };
+  }
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+    return { args: { value: parsed }, errors: ["arguments: must be a JSON object"] };
+  }
+  return { args: parsed as Record<string, unknown>, errors: validateJsonSchema(schema, parsed) };
+}
@@ -1,8 +1,10 @@
 /**
  * toolBudget.ts — lightweight "tool budget" helpers.
  * Prevents duplicate/looped tool calls via a short TTL cache; also provides a stable args key and a tiny console logger.
- * Exports: LAST_TOOL_CACHE, TOOL_TTL_SUCCESS_MS, TOOL_TTL_NOT_FOUND_MS, RETRY_REGEX, toolKey(), logToolRun().
+ * Exports: LAST_TOOL_CACHE, TOOL_TTL_SUCCESS_MS, TOOL_TTL_NOT_FOUND_MS, RETRY_REGEX, toolKey(), logToolRun(),
+ * plus agent-loop bounds (AGENT_MAX_STEPS, AGENT_MAX_TOOL_CALLS, AGENT_TOOL_CONCURRENCY, createTurnBudget()).
  * Typical flow: check cache (+ RETRY), run tool, cache success, log one line.
+ * The chat route goes through toolCache.ts, which backs these with a shared (Firestore) store.
  */
 
 import type { KingaCard } from "@/types/types";
@@ -29,6 +31,46 @@ export const LAST_TOOL_CACHE = new Map<string, CacheEntry>();
 export const TOOL_TTL_SUCCESS_MS = 2 * 60 * 1000; // 2 minutes
 export const TOOL_TTL_NOT_FOUND_MS = 45 * 1000;   // 45 seconds
 
+/**
+ * Agent loop bounds for a single chat turn.
+ * - AGENT_MAX_STEPS: model calls that may request tools (the final answer pass is extra)
+ * - AGENT_MAX_TOOL_CALLS: total tool runs allowed per turn, across all steps (a parallel batch
+ *   of five searches uses five)
+ * - AGENT_TOOL_CONCURRENCY: how many calls of one parallel batch run at the same time
+ * - AGENT_MAX_ARG_REPAIRS: tool calls with schema-invalid arguments sent back to the model
+ *   to fix (each uses a step); one more and the turn gives up on the tool
+ */
+export const AGENT_MAX_STEPS = 4;
+export const AGENT_MAX_TOOL_CALLS = 8;
+export const AGENT_TOOL_CONCURRENCY = 3;
+export const AGENT_MAX_ARG_REPAIRS = 2;
+
+/**
+ * Per-turn budget: counts tool runs and blocks exact repeats (same tool + args)
+ * so the model can't loop on one call.
+ */
+export function createTurnBudget(maxToolCalls = AGENT_MAX_TOOL_CALLS) {
+  const seen = new Set<string>();
+  let used = 0;
+  return {
+    get used() {
+      return used;
+    },
+    get exhausted() {
+      return used >= maxToolCalls;
+    },
+    isRepeat(key: string) {
+      return seen.has(key);
+    },
+    spend(key: string) {
+      seen.add(key);
+      used++;
+    },
+  };
+}
+
+export type TurnBudget = ReturnType<typeof createTurnBudget>;
+
 /**
  * Users can force a rerun with words like "retry" / "try again".
  */
@@ -0,0 +1,166 @@
+/**
+ * toolCache.ts — reuse recent MCP results (server-only).
+ *
+ * Built on the primitives in toolBudget.ts:
+ * - Results: CacheEntry per (user, tool, args) — envelope + card — reused for
+ *   TOOL_TTL_SUCCESS_MS (TOOL_TTL_NOT_FOUND_MS when the envelope says "not_found").
+ * - RETRY_REGEX in the user's message ("retry", "refresh", …) bypasses the cache; the
+ *   tool's circuit breaker (circuitBreaker.ts) still applies.
+ *
+ * Stores (TOOL_CACHE_STORE env):
+ * - "memory": LAST_TOOL_CACHE in this process (dev, tests)
+ * - default:  Firestore toolCache/{hash}, shared by every instance;
+ *             add a TTL policy on `expiresAt` to clean old entries up
+ *
+ * Gotchas:
+ * - Only successful runs are cached; errors are never replayed.
+ * - Cache reads/writes fail open (a store outage just means a live call).
+ */
+
+import { createHash } from "crypto";
+import { Timestamp } from "firebase-admin/firestore";
+import type { KingaCard } from "@/types/types";
+import { adminDb } from "@/services/firebaseAdmin";
+import {
+  LAST_TOOL_CACHE,
+  RETRY_REGEX,
+  TOOL_TTL_NOT_FOUND_MS,
+  TOOL_TTL_SUCCESS_MS,
+  toolKey,
+  type CacheEntry,
+} from "@/lib/tools/toolBudget";
+import { buildCtxFromEnvelope, type KingaEnvelope } from "@/lib/tools/envelope";
+
+export type CachedToolResult = CacheEntry & {
+  envelope: Record<string, unknown>;
+  /** Fallback chat title the live run produced. */
+  title?: string;
+};
+
+export interface ToolCacheStore {
+  get(key: string): Promise<CachedToolResult | null>;
+  set(key: string, entry: CachedToolResult, ttlMs: number): Promise<void>;
+}
+
+// -----------------------------
+// Stores
+// -----------------------------
+export class MemoryToolCacheStore implements ToolCacheStore {
+  private extras = new Map<string, Pick<CachedToolResult, "envelope" | "title">>();
+
+  async get(key: string) {
+    const hit = LAST_TOOL_CACHE.get(key);
+    const extra = this.extras.get(key);
+    if (!hit || !extra) return null;
+    const ttl = hit.resultStatus === "not_found" ? TOOL_TTL_NOT_FOUND_MS : TOOL_TTL_SUCCESS_MS;
+    if (Date.now() - hit.ts > ttl) {
+      LAST_TOOL_CACHE.delete(key);
+      this.extras.delete(key);
+      return null;
+    }
+    return { ...hit, ...extra };
+  }
+
+  async set(key: string, entry: CachedToolResult) {
+    const { envelope, title, ...rest } = entry;
+    LAST_TOOL_CACHE.set(key, rest);
+    this.extras.set(key, { envelope, title });
+  }
+}
+
+export class FirestoreToolCacheStore implements ToolCacheStore {
+  private results = () => adminDb.collection("toolCache");
+
+  // Args can contain "/" and be long; doc ids are a hash of the key
+  private docId = (key: string) => createHash("sha256").update(key).digest("hex");
+
+  async get(key: string) {
+    const snap = await this.results().doc(this.docId(key)).get();
+    const d = snap.data();
+    if (!d) return null;
+    const expiresAt = d.expiresAt instanceof Timestamp ? d.expiresAt.toMillis() : 0;
+    if (expiresAt <= Date.now()) return null;
+    return {
+      ctx: (d.ctx as Record<string, string>) ?? {},
+      card: d.card ? (JSON.parse(d.card) as KingaCard) : undefined,
+      envelope: JSON.parse(d.envelope) as Record<string, unknown>,
+      ts: Number(d.ts) || 0,
+      status: "ok" as const,
+      resultStatus: typeof d.resultStatus === "string" ? d.resultStatus : undefined,
+      title: typeof d.title === "string" ? d.title : undefined,
+    };
+  }
+
+  async set(key: string, entry: CachedToolResult, ttlMs: number) {
+    // Cards/envelopes are stored as JSON strings (arbitrary keys, no undefined values)
+    await this.results()
+      .doc(this.docId(key))
+      .set({
+        ctx: entry.ctx,
+        card: entry.card ? JSON.stringify(entry.card) : null,
+        envelope: JSON.stringify(entry.envelope),
+        ts: entry.ts,
+        resultStatus: entry.resultStatus ?? null,
+        title: entry.title ?? null,
+        expiresAt: Timestamp.fromMillis(Date.now() + ttlMs),
+      });
+  }
+}
+
+let store: ToolCacheStore =
+  process.env.TOOL_CACHE_STORE === "memory" ? new MemoryToolCacheStore() : new FirestoreToolCacheStore();
+
+/** Swap the cache store (tests, or Redis later). */
+export function setToolCacheStore(next: ToolCacheStore) {
+  store = next;
+}
+
+// -----------------------------
+// Route-facing helpers
+// -----------------------------
+
+/** "retry" / "refresh" phrasing: skip the cache (not the circuit breaker). */
+export function wantsFreshRun(message: string): boolean {
+  return RETRY_REGEX.test(message);
+}
+
+const cacheKey = (userId: string, toolName: string, args: unknown) => `${userId}:${toolKey(toolName, args)}`;
+
+export async function readCachedToolResult(
+  userId: string,
+  toolName: string,
+  args: unknown
+): Promise<CachedToolResult | null> {
+  try {
+    return await store.get(cacheKey(userId, toolName, args));
+  } catch (error) {
+    console.error("[toolCache] read failed:", error);
+    return null;
+  }
+}
+
+export async function writeCachedToolResult(
+  userId: string,
+  toolName: string,
+  args: unknown,
+  result: { envelope: Record<string, unknown>; card?: KingaCard; title?: string }
+): Promise<void> {
+  const resultStatus = typeof result.envelope.status === "string" ? result.envelope.status : undefined;
+  try {
+    await store.set(
+      cacheKey(userId, toolName, args),
+      {
+        ctx: buildCtxFromEnvelope(result.envelope as KingaEnvelope),
+        card: result.card,
+        envelope: result.envelope,
+        ts: Date.now(),
+        status: "ok",
+        resultStatus,
+        title: result.title,
+      },
+      resultStatus === "not_found" ? TOOL_TTL_NOT_FOUND_MS : TOOL_TTL_SUCCESS_MS
+    );
+  } catch (error) {
+    console.error("[toolCache] write failed:", error);
+  }
+}
@@ -0,0 +1,167 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+// Quota policy docs: users/{uid}/featurePermissions/quotas and orgs/{orgId}.quotas
+const policies = vi.hoisted(() => ({
+  users: {} as Record<string, Record<string, unknown>>,
+  orgs: {} as Record<string, Record<string, unknown>>,
+  orgOf: {} as Record<string, string>,
+}));
+
+vi.mock("@/services/firebaseAdmin", () => ({
+  adminDb: {
+    collection: (name: string) => ({
+      doc: (id: string) => ({
+        get: async () => ({ data: () => (name === "orgs" && policies.orgs[id] ? { quotas: policies.orgs[id] } : undefined) }),
+        collection: () => ({ doc: () => ({ get: async () => ({ data: () => policies.users[id] }) }) }),
+      }),
+    }),
+  },
+}));
+vi.mock("@/services/orgs", () => ({ getUserOrgId: async (uid: string) => policies.orgOf[uid] ?? null }));
+
+import {
+  MemoryQuotaStore,
+  addTokenUsage,
+  consumeChatRequest,
+  consumeToolRun,
+  setQuotaStore,
+  type QuotaStore,
+} from "@/lib/usage/quota";
+
+// Limits are cached per user for a minute: every test gets fresh user ids
+let n = 0;
+const newUser = (limits?: Record<string, unknown>) => {
+  const uid = `user-${++n}`;
+  if (limits) policies.users[uid] = limits;
+  return uid;
+};
+
+const times = async <T>(count: number, fn: () => Promise<T>) => {
+  const out: T[] = [];
+  for (let i = 0; i < count; i++) out.push(await fn());
+  return out;
+};
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ["Date"] });
+  vi.setSystemTime(new Date("2026-03-31T23:59:30Z"));
+  setQuotaStore(new MemoryQuotaStore());
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("MemoryQuotaStore", () => {
+  it("adds up within the TTL and starts over once it expires", async () => {
+    const store = new MemoryQuotaStore();
+    expect(await store.increment("k", 1, 1000)).toBe(1);
+    expect(await store.increment("k", 2, 1000)).toBe(3);
+    vi.advanceTimersByTime(999);
+    expect(await store.get("k")).toBe(3);
+    vi.advanceTimersByTime(1);
+    expect(await store.get("k")).toBe(0);
+    expect(await store.increment("k", 1, 1000)).toBe(1);
+  });
+
+  it("keeps the first expiry when incremented again", async () => {
+    const store = new MemoryQuotaStore();
+    await store.increment("k", 1, 1000);
+    vi.advanceTimersByTime(600);
+    await store.increment("k", 1, 1000);
+    vi.advanceTimersByTime(400);
+    expect(await store.get("k")).toBe(0);
+  });
+});
+
+describe("consumeChatRequest", () => {
+  it("refuses past requestsPerMinute until the next minute", async () => {
+    const uid = newUser({ requestsPerMinute: 2 });
+    const results = await times(3, () => consumeChatRequest(uid));
+
+    expect(results.map((r) => r.ok)).toEqual([true, true, false]);
+    expect(results[2]).toMatchObject({ retryAfterSec: 30, message: expect.stringContaining("limit 2 per minute") });
+
+    vi.advanceTimersByTime(30_000);
+    expect((await consumeChatRequest(uid)).ok).toBe(true);
+  });
+
+  it("treats 0 as unlimited", async () => {
+    const uid = newUser({ requestsPerMinute: 0 });
+    const results = await times(30, () => consumeChatRequest(uid));
+    expect(results.every((r) => r.ok)).toBe(true);
+  });
+
+  it("refuses once the monthly token budget is spent, until the 1st", async () => {
+    const uid = newUser({ monthlyTokenBudget: 1000 });
+    await addTokenUsage(uid, 600);
+    expect((await consumeChatRequest(uid)).ok).toBe(true);
+    await addTokenUsage(uid, 400);
+
+    const refused = await consumeChatRequest(uid);
+    expect(refused).toMatchObject({ ok: false, retryAfterSec: 30, message: expect.stringContaining("1,000 tokens") });
+
+    vi.advanceTimersByTime(30_000); // April
+    expect((await consumeChatRequest(uid)).ok).toBe(true);
+  });
+
+  it("doesn't count tokens while no budget is set", async () => {
+    const store = new MemoryQuotaStore();
+    const increment = vi.spyOn(store, "increment");
+    setQuotaStore(store);
+    await addTokenUsage(newUser({ monthlyTokenBudget: 0 }), 500);
+    expect(increment).not.toHaveBeenCalled();
+  });
+});
+
+describe("consumeToolRun", () => {
+  it("caps tool runs per UTC day and resets at midnight", async () => {
+    const uid = newUser({ toolRunsPerDay: 2 });
+    const results = await times(3, () => consumeToolRun(uid, "web_search"));
+
+    expect(results.map((r) => r.ok)).toEqual([true, true, false]);
+    expect(results[2]).toMatchObject({ retryAfterSec: 30, message: expect.stringContaining("limit of 2 tool runs") });
+
+    vi.advanceTimersByTime(30_000);
+    expect((await consumeToolRun(uid, "web_search")).ok).toBe(true);
+  });
+
+  it("applies per-tool caps to that tool only", async () => {
+    const uid = newUser({ toolRunsPerDayByTool: { email_finder: 1 } });
+
+    expect((await consumeToolRun(uid, "email_finder")).ok).toBe(true);
+    expect(await consumeToolRun(uid, "email_finder")).toMatchObject({
+      ok: false,
+      message: expect.stringContaining("limit of 1 email_finder runs"),
+    });
+    expect((await consumeToolRun(uid, "web_search")).ok).toBe(true);
+  });
+
+  it("counts org limits across everyone in the org", async () => {
+    policies.orgs["org-1"] = { toolRunsPerDay: 3 };
+    const a = newUser();
+    const b = newUser();
+    policies.orgOf[a] = "org-1";
+    policies.orgOf[b] = "org-1";
+
+    await times(2, () => consumeToolRun(a, "web_search"));
+    expect((await consumeToolRun(b, "web_search")).ok).toBe(true);
+    expect(await consumeToolRun(b, "web_search")).toMatchObject({
+      ok: false,
+      message: expect.stringContaining("Your organization has reached"),
+    });
+  });
+
+  it("fails open when the store is down", async () => {
+    const down: QuotaStore = {
+      increment: () => Promise.reject(new Error("unavailable")),
+      get: () => Promise.reject(new Error("unavailable")),
+    };
+    setQuotaStore(down);
+    const error = vi.spyOn(console, "error").mockImplementation(() => {});
+
+    expect(await consumeToolRun(newUser({ toolRunsPerDay: 1 }), "web_search")).toEqual({ ok: true });
+    expect(error).toHaveBeenCalledWith("[quota] tool check failed (allowing):", expect.any(Error));
+    error.mockRestore();
+  });
+});
@@ -0,0 +1,110 @@
+/**
+ * usage/meter.ts — record LLM calls and MCP tool runs for cost accounting (server-only).
+ *
+ * Each record lands in users/{uid}/usage/{autoId}:
+ *   { kind: "llm" | "tool", purpose?, modelId?, provider?, toolId?, status,
+ *     promptTokens, completionTokens, costUsd, latencyMs, chatId, userId, orgId, createdAt }
+ * `userId`/`orgId` are denormalized so managers can query the `usage` collection group per org.
+ *
+ * Cost:
+ * - LLM: ModelConfig.pricing is USD per 1M tokens (input/output).
+ * - Tools: optional flat USD per run from env TOOL_COSTS_USD, e.g. {"email_finder":0.02}.
+ *
+ * Recording never throws and never blocks the caller's result.
+ */
+
+import { FieldValue } from "firebase-admin/firestore";
+import type { ModelConfig } from "@/types/types";
+import { adminDb } from "@/services/firebaseAdmin";
+import { getUserOrgId } from "@/services/orgs";
+import { addTokenUsage } from "@/lib/usage/quota";
+
+/** Which call inside a chat turn spent the tokens. */
+export type LlmPurpose = "chat" | "synthesis" | "title" | "summary";
+
+/** Who to bill; passed along with sendMessage/tool calls. */
+export type MeterContext = {
+  userId: string;
+  chatId?: string;
+};
+
+function parseToolCosts(): Record<string, number> {
+  try {
+    const raw = JSON.parse(process.env.TOOL_COSTS_USD || "{}") as Record<string, unknown>;
+    return Object.fromEntries(
+      Object.entries(raw).filter((e): e is [string, number] => typeof e[1] === "number")
+    );
+  } catch {
+    return {};
+  }
+}
+
+const TOOL_COSTS_USD = parseToolCosts();
+
+export function llmCostUsd(modelConfig: ModelConfig, promptTokens: number, completionTokens: number): number {
+  const p = modelConfig.pricing;
+  if (!p) return 0;
+  return (promptTokens * p.input + completionTokens * p.output) / 1_000_000;
+}
+
+async function writeUsage(meter: MeterContext, record: Record<string, unknown>) {
+  try {
+    const orgId = await getUserOrgId(meter.userId);
+    await adminDb
+      .collection("users")
+      .doc(meter.userId)
+      .collection("usage")
+      .add({
+        ...record,
+        chatId: meter.chatId ?? null,
+        userId: meter.userId,
+        orgId,
+        createdAt: FieldValue.serverTimestamp(),
+      });
+  } catch (error) {
+    console.error("[usage] write failed:", error);
+  }
+}
+
+export function recordLlmUsage(
+  meter: MeterContext,
+  params: {
+    purpose: LlmPurpose;
+    modelConfig: ModelConfig;
+    promptTokens: number;
+    completionTokens: number;
+    latencyMs: number;
+    status: "ok" | "error";
+  }
+): Promise<void> {
+  const { purpose, modelConfig, promptTokens, completionTokens, latencyMs, status } = params;
+  void addTokenUsage(meter.userId, promptTokens + completionTokens);
+  return writeUsage(meter, {
+    kind: "llm",
+    purpose,
+    modelId: modelConfig.id,
+    provider: modelConfig.provider,
+    promptTokens,
+    completionTokens,
+    costUsd: llmCostUsd(modelConfig, promptTokens, completionTokens),
+    latencyMs,
+    status,
+  });
+}
+
+export function recordToolUsage(
+  meter: MeterContext,
+  params: { toolId: string; latencyMs: number; status: "ok" | "error" }
+): Promise<void> {
+  const { toolId, latencyMs, status } = params;
+  return writeUsage(meter, {
+    kind: "tool",
+    toolId,
+    promptTokens: 0,
+    completionTokens: 0,
+    // Failed runs are typically not billed by the provider
+    costUsd: status === "ok" ? TOOL_COSTS_USD[toolId] ?? 0 : 0,
+    latencyMs,
+    status,
+  });
+}
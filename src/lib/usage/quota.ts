@@ -0,0 +1,313 @@
+/**
+ * usage/quota.ts — per-user / per-org quotas for /api/chat and MCP tools (server-only).
+ *
+ * Limits (0 = unlimited):
+ * - requestsPerMinute   chat requests, fixed 1-minute window
+ * - toolRunsPerDay      MCP tool runs across all tools, UTC day
+ * - toolRunsPerDayByTool  optional per-tool caps, e.g. { email_finder: 100 }
+ * - monthlyTokenBudget  prompt + completion tokens, UTC calendar month
+ *
+ * Where limits come from (most specific wins, field by field):
+ * - users/{uid}/featurePermissions/quotas → user limits (fallback: env QUOTA_* defaults)
+ * - orgs/{orgId}.quotas                   → org-wide limits (only when set)
+ * User limits count the user's own usage; org limits count everyone in the org.
+ *
+ * Counters live in a QuotaStore:
+ * - MemoryQuotaStore (tests, single process; QUOTA_STORE=memory)
+ * - FirestoreQuotaStore (production; quotaCounters/{key} with an expiresAt for TTL cleanup)
+ *
+ * Gotchas:
+ * - Checks fail open: a store outage never blocks chat.
+ * - Tool runs are consumed when attempted (before the runner), so failures count too; calls
+ *   refused earlier (permissions, arguments, an approval already decided) are not counted.
+ * - Tokens are only counted while a monthly budget is set; a budget added mid-month starts at 0.
+ */
+
+import { FieldValue, Timestamp } from "firebase-admin/firestore";
+import { adminDb } from "@/services/firebaseAdmin";
+import { getUserOrgId } from "@/services/orgs";
+
+export type QuotaLimits = {
+  requestsPerMinute: number;
+  toolRunsPerDay: number;
+  toolRunsPerDayByTool: Record<string, number>;
+  monthlyTokenBudget: number;
+};
+
+export type QuotaCheck = { ok: true } | { ok: false; message: string; retryAfterSec: number };
+
+// -----------------------------
+// Stores
+// -----------------------------
+export interface QuotaStore {
+  /** Add `amount` to the counter and return the new total; the counter expires after `ttlMs`. */
+  increment(key: string, amount: number, ttlMs: number): Promise<number>;
+  /** Current value (0 when missing or expired). */
+  get(key: string): Promise<number>;
+}
+
+export class MemoryQuotaStore implements QuotaStore {
+  private counters = new Map<string, { value: number; expiresAt: number }>();
+
+  async increment(key: string, amount: number, ttlMs: number): Promise<number> {
+    const now = Date.now();
+    const hit = this.counters.get(key);
+    const value = (hit && hit.expiresAt > now ? hit.value : 0) + amount;
+    this.counters.set(key, { value, expiresAt: hit && hit.expiresAt > now ? hit.expiresAt : now + ttlMs });
+    return value;
+  }
+
+  async get(key: string): Promise<number> {
+    const hit = this.counters.get(key);
+    return hit && hit.expiresAt > Date.now() ? hit.value : 0;
+  }
+}
+
+export class FirestoreQuotaStore implements QuotaStore {
+  private col = () => adminDb.collection("quotaCounters");
+
+  async increment(key: string, amount: number, ttlMs: number): Promise<number> {
+    const ref = this.col().doc(key);
+    return adminDb.runTransaction(async (tx) => {
+      const snap = await tx.get(ref);
+      const value = Number(snap.data()?.value ?? 0) + amount;
+      if (snap.exists) {
+        tx.update(ref, { value: FieldValue.increment(amount) });
+      } else {
+        tx.set(ref, { value, expiresAt: Timestamp.fromMillis(Date.now() + ttlMs) });
+      }
+      return value;
+    });
+  }
+
+  async get(key: string): Promise<number> {
+    const snap = await this.col().doc(key).get();
+    return Number(snap.data()?.value ?? 0);
+  }
+}
+
+let store: QuotaStore =
+  process.env.QUOTA_STORE === "memory" || process.env.NODE_ENV === "test"
+    ? new MemoryQuotaStore()
+    : new FirestoreQuotaStore();
+
+export function getQuotaStore(): QuotaStore {
+  return store;
+}
+
+/** Swap the counter store (tests, or a Redis-backed store later). */
+export function setQuotaStore(next: QuotaStore) {
+  store = next;
+}
+
+// -----------------------------
+// Limits
+// -----------------------------
+const envInt = (name: string, fallback: number) => {
+  const n = Number(process.env[name]);
+  return Number.isFinite(n) && n >= 0 ? n : fallback;
+};
+
+function parseToolLimits(raw: unknown): Record<string, number> {
+  if (!raw || typeof raw !== "object") return {};
+  return Object.fromEntries(
+    Object.entries(raw as Record<string, unknown>).filter(
+      (e): e is [string, number] => typeof e[1] === "number" && e[1] >= 0
+    )
+  );
+}
+
+function envToolLimits(): Record<string, number> {
+  try {
+    return parseToolLimits(JSON.parse(process.env.QUOTA_TOOL_RUNS_PER_DAY_BY_TOOL || "{}"));
+  } catch {
+    return {};
+  }
+}
+
+export const DEFAULT_QUOTA_LIMITS: QuotaLimits = {
+  requestsPerMinute: envInt("QUOTA_REQUESTS_PER_MINUTE", 20),
+  toolRunsPerDay: envInt("QUOTA_TOOL_RUNS_PER_DAY", 500),
+  toolRunsPerDayByTool: envToolLimits(),
+  monthlyTokenBudget: envInt("QUOTA_MONTHLY_TOKENS", 0),
+};
+
+/** Overlay whatever numeric fields a policy doc sets onto `base`. */
+function mergeLimits(base: QuotaLimits, data: Record<string, unknown> | undefined): QuotaLimits {
+  if (!data) return base;
+  const num = (v: unknown, fallback: number) => (typeof v === "number" && v >= 0 ? v : fallback);
+  return {
+    requestsPerMinute: num(data.requestsPerMinute, base.requestsPerMinute),
+    toolRunsPerDay: num(data.toolRunsPerDay, base.toolRunsPerDay),
+    toolRunsPerDayByTool: { ...base.toolRunsPerDayByTool, ...parseToolLimits(data.toolRunsPerDayByTool) },
+    monthlyTokenBudget: num(data.monthlyTokenBudget, base.monthlyTokenBudget),
+  };
+}
+
+const UNLIMITED: QuotaLimits = {
+  requestsPerMinute: 0,
+  toolRunsPerDay: 0,
+  toolRunsPerDayByTool: {},
+  monthlyTokenBudget: 0,
+};
+
+type Subject = { scope: "user" | "org"; id: string; limits: QuotaLimits };
+
+const LIMITS_CACHE_TTL_MS = 60 * 1000;
+const LIMITS_CACHE = new Map<string, { subjects: Subject[]; ts: number }>();
+
+/** The user's own limits, plus the org's when the org has a quota policy. */
+async function readSubjects(userId: string): Promise<Subject[]> {
+  const hit = LIMITS_CACHE.get(userId);
+  if (hit && Date.now() - hit.ts < LIMITS_CACHE_TTL_MS) return hit.subjects;
+
+  const subjects: Subject[] = [];
+  try {
+    const userPolicy = await adminDb
+      .collection("users")
+      .doc(userId)
+      .collection("featurePermissions")
+      .doc("quotas")
+      .get();
+    subjects.push({
+      scope: "user",
+      id: userId,
+      limits: mergeLimits(DEFAULT_QUOTA_LIMITS, userPolicy.data()),
+    });
+
+    const orgId = await getUserOrgId(userId);
+    if (orgId) {
+      const orgDoc = await adminDb.collection("orgs").doc(orgId).get();
+      const orgQuotas = orgDoc.data()?.quotas as Record<string, unknown> | undefined;
+      if (orgQuotas) subjects.push({ scope: "org", id: orgId, limits: mergeLimits(UNLIMITED, orgQuotas) });
+    }
+  } catch (error) {
+    console.error("[quota] policy lookup failed:", error);
+    if (!subjects.length) subjects.push({ scope: "user", id: userId, limits: DEFAULT_QUOTA_LIMITS });
+  }
+
+  LIMITS_CACHE.set(userId, { subjects, ts: Date.now() });
+  return subjects;
+}
+
+// -----------------------------
+// Windows
+// -----------------------------
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+function minuteWindow(now: number) {
+  const start = now - (now % MINUTE_MS);
+  return { id: String(start / MINUTE_MS), resetMs: start + MINUTE_MS };
+}
+
+function dayWindow(now: number) {
+  const start = now - (now % DAY_MS);
+  return { id: new Date(start).toISOString().slice(0, 10), resetMs: start + DAY_MS };
+}
+
+function monthWindow(now: number) {
+  const d = new Date(now);
+  const next = Date.UTC(d.getUTCFullYear(), d.getUTCMonth() + 1, 1);
+  return { id: d.toISOString().slice(0, 7), resetMs: next };
+}
+
+const counterKey = (s: Subject, metric: string, windowId: string) => `${s.scope}_${s.id}_${metric}_${windowId}`;
+
+const retryAfter = (resetMs: number, now: number) => Math.max(1, Math.ceil((resetMs - now) / 1000));
+
+const who = (s: Subject) => (s.scope === "org" ? "Your organization has" : "You’ve");
+
+// -----------------------------
+// Checks
+// -----------------------------
+
+/**
+ * Before a chat turn: counts this request against the per-minute limit and
+ * refuses when the monthly token budget is already spent.
+ */
+export async function consumeChatRequest(userId: string): Promise<QuotaCheck> {
+  try {
+    const subjects = await readSubjects(userId);
+    const now = Date.now();
+
+    for (const s of subjects) {
+      const budget = s.limits.monthlyTokenBudget;
+      if (budget > 0) {
+        const month = monthWindow(now);
+        const used = await store.get(counterKey(s, "tokens", month.id));
+        if (used >= budget) {
+          return {
+            ok: false,
+            message: `${who(s)} used this month’s AI token budget (${budget.toLocaleString()} tokens). It resets on the 1st; contact your admin for more.`,
+            retryAfterSec: retryAfter(month.resetMs, now),
+          };
+        }
+      }
+    }
+
+    for (const s of subjects) {
+      const limit = s.limits.requestsPerMinute;
+      if (limit <= 0) continue;
+      const minute = minuteWindow(now);
+      const count = await store.increment(counterKey(s, "rpm", minute.id), 1, 2 * MINUTE_MS);
+      if (count > limit) {
+        const sec = retryAfter(minute.resetMs, now);
+        return {
+          ok: false,
+          message: `${who(s)} sent too many requests (limit ${limit} per minute). Please wait ${sec}s and try again.`,
+          retryAfterSec: sec,
+        };
+      }
+    }
+  } catch (error) {
+    console.error("[quota] chat check failed (allowing):", error);
+  }
+  return { ok: true };
+}
+
+/** Before each MCP runner: counts one run against the daily total and per-tool caps. */
+export async function consumeToolRun(userId: string, toolId: string): Promise<QuotaCheck> {
+  try {
+    const subjects = await readSubjects(userId);
+    const now = Date.now();
+    const day = dayWindow(now);
+
+    for (const s of subjects) {
+      const checks: Array<[string, number]> = [
+        ["tools", s.limits.toolRunsPerDay],
+        [`tool-${toolId}`, s.limits.toolRunsPerDayByTool[toolId] ?? 0],
+      ];
+      for (const [metric, limit] of checks) {
+        if (limit <= 0) continue;
+        const count = await store.increment(counterKey(s, metric, day.id), 1, 2 * DAY_MS);
+        if (count > limit) {
+          const what = metric === "tools" ? "tool runs" : `${toolId} runs`;
+          return {
+            ok: false,
+            message: `${who(s)} reached today’s limit of ${limit} ${what}. It resets at midnight UTC.`,
+            retryAfterSec: retryAfter(day.resetMs, now),
+          };
+        }
+      }
+    }
+  } catch (error) {
+    console.error("[quota] tool check failed (allowing):", error);
+  }
+  return { ok: true };
+}
+
+/** After an LLM call: add its tokens to the monthly counters (called from usage/meter.ts). */
+export async function addTokenUsage(userId: string, tokens: number): Promise<void> {
+  if (tokens <= 0) return;
+  try {
+    const subjects = await readSubjects(userId);
+    const month = monthWindow(Date.now());
+    for (const s of subjects) {
+      if (s.limits.monthlyTokenBudget <= 0) continue;
+      await store.increment(counterKey(s, "tokens", month.id), tokens, 32 * DAY_MS);
+    }
+  } catch (error) {
+    console.error("[quota] token usage update failed:", error);
+  }
+}
@@ -0,0 +1,86 @@
+/**
+ * usage/summary.ts — aggregate usage records into per-user / per-model / per-tool spend.
+ * Pure functions and types; shared by /api/usage (server) and the Usage page (client).
+ */
+
+export type UsageRecord = {
+  kind?: "llm" | "tool";
+  purpose?: string;
+  modelId?: string | null;
+  toolId?: string | null;
+  userId?: string;
+  promptTokens?: number;
+  completionTokens?: number;
+  costUsd?: number;
+  latencyMs?: number;
+  status?: "ok" | "error";
+};
+
+export type UsageBucket = {
+  key: string;
+  calls: number;
+  errors: number;
+  promptTokens: number;
+  completionTokens: number;
+  costUsd: number;
+  avgLatencyMs: number;
+};
+
+export type UsageSummary = {
+  scope: "me" | "org";
+  sinceMs: number;
+  /** True when the record cap was hit and totals are partial. */
+  truncated: boolean;
+  totals: UsageBucket;
+  byUser: UsageBucket[];
+  byModel: UsageBucket[];
+  byTool: UsageBucket[];
+};
+
+const emptyBucket = (key: string): UsageBucket => ({
+  key,
+  calls: 0,
+  errors: 0,
+  promptTokens: 0,
+  completionTokens: 0,
+  costUsd: 0,
+  avgLatencyMs: 0,
+});
+
+function add(bucket: UsageBucket, r: UsageRecord) {
+  // running average keeps the bucket self-contained
+  bucket.avgLatencyMs = (bucket.avgLatencyMs * bucket.calls + (r.latencyMs ?? 0)) / (bucket.calls + 1);
+  bucket.calls++;
+  if (r.status === "error") bucket.errors++;
+  bucket.promptTokens += r.promptTokens ?? 0;
+  bucket.completionTokens += r.completionTokens ?? 0;
+  bucket.costUsd += r.costUsd ?? 0;
+}
+
+function groupBy(records: UsageRecord[], keyOf: (r: UsageRecord) => string | null): UsageBucket[] {
+  const map = new Map<string, UsageBucket>();
+  for (const r of records) {
+    const key = keyOf(r);
+    if (!key) continue;
+    const bucket = map.get(key) ?? emptyBucket(key);
+    add(bucket, r);
+    map.set(key, bucket);
+  }
+  return Array.from(map.values()).sort((a, b) => b.costUsd - a.costUsd || b.calls - a.calls);
+}
+
+export function summarizeUsage(
+  records: UsageRecord[],
+  opts: { scope: "me" | "org"; sinceMs: number; truncated: boolean }
+): UsageSummary {
+  const totals = emptyBucket("total");
+  for (const r of records) add(totals, r);
+
+  return {
+    ...opts,
+    totals,
+    byUser: groupBy(records, (r) => r.userId ?? null),
+    byModel: groupBy(records, (r) => (r.kind === "llm" ? r.modelId ?? "unknown" : null)),
+    byTool: groupBy(records, (r) => (r.kind === "tool" ? r.toolId ?? "unknown" : null)),
+  };
+}
@@ -0,0 +1,27 @@
+/**
+ * User → org lookup (server-only).
+ * - Reads `orgId` from users/{uid}; cached briefly since every metered call needs it.
+ * - Returns null for users without an org.
+ */
+
+import { adminDb } from "@/services/firebaseAdmin";
+
+const ORG_CACHE_TTL_MS = 5 * 60 * 1000;
+const ORG_CACHE = new Map<string, { orgId: string | null; ts: number }>();
+
+export async function getUserOrgId(userId: string): Promise<string | null> {
+  const hit = ORG_CACHE.get(userId);
+  if (hit && Date.now() - hit.ts < ORG_CACHE_TTL_MS) return hit.orgId;
+
+  let orgId: string | null = null;
+  try {
+    const snap = await adminDb.collection("users").doc(userId).get();
+    const v = snap.data()?.orgId;
+    orgId = typeof v === "string" && v ? v : null;
+  } catch (error) {
+    console.error("[orgs] lookup failed:", error);
+  }
+
+  ORG_CACHE.set(userId, { orgId, ts: Date.now() });
+  return orgId;
+}
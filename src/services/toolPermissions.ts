@@ -0,0 +1,52 @@
+/**
+ * Tool permissions (server-only).
+ * - Reads users/{uid}/toolPermissions/{permissionKey}; each doc holds a boolean
+ *   (`enabled`, `allowed`, … — several field names are accepted).
+ * - Every permission key in the registry defaults to false (no doc = no access).
+ * - Used by /api/chat and /api/mcp/stream so both enforce the same flags.
+ */
+
+import type { McpToolDefinition } from "@/config/toolsConfig";
+import { adminDb } from "@/services/firebaseAdmin";
+
+export async function readToolFlags(
+  userId: string,
+  registry: McpToolDefinition[]
+): Promise<{ [key: string]: boolean }> {
+  const defaults: { [key: string]: boolean } = Object.fromEntries(
+    registry.map((t) => [t.permissionKey, false])
+  );
+
+  // Helper: tolerate different boolean field names
+  const pickBool = (data: Record<string, unknown>): boolean | undefined => {
+    const candidates = ["enabled", "allowed", "allow", "value", "on", "active", "isEnabled"];
+    for (const k of candidates) {
+      const v = data?.[k];
+      if (typeof v === "boolean") return v;
+    }
+    return undefined;
+  };
+
+  try {
+    // 1) Try per-user collection: users/{uid}/toolPermissions/{toolId}
+    const perUserSnap = await adminDb
+      .collection("users")
+      .doc(userId)
+      .collection("toolPermissions")
+      .get();
+    if (!perUserSnap.empty) {
+      const out = { ...defaults };
+      perUserSnap.forEach((d) => {
+        const data = d.data() as Record<string, unknown>;
+        const on = pickBool(data);
+        const key = d.id as keyof typeof out;
+        if (typeof on === "boolean" && key in out) out[key] = on;
+      });
+      return out;
+    }
+  } catch (error) {
+    console.error("Error fetching tool permissions:", error);
+  }
+
+  return defaults;
+}
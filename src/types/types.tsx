@@ -28,8 +28,158 @@ export type Message = {
   artifactVersion?: number; 
   card?: KingaCard;
   rawEnvelopes?: ToolEnvelope[]; 
+  /** The user pressed Stop; `content` is whatever had streamed in (or a placeholder). */
+  cancelled?: boolean;
+  /** A write tool call waiting for (or past) the user's Approve / Reject. */
+  approval?: ToolApproval;
+  /** Batch email lookup over a list of LinkedIn profiles (progress table + CSV). */
+  enrichment?: BatchEnrichment;
+  /** Files sent with this (user) message; their parsed text is stored with the chat. */
+  attachments?: ChatAttachment[];
 };
 
+export type AttachmentKind = "csv" | "xlsx" | "text" | "markdown" | "pdf";
+
+/**
+ * A file attached to a chat (POST /api/attachments). Only this metadata lives on the
+ * message; the parsed text is in users/{uid}/chats/{chatId}/attachments (lib/attachments/store.ts).
+ */
+export type ChatAttachment = {
+  id: string;
+  name: string;
+  kind: AttachmentKind;
+  sizeBytes: number;
+  /** Spreadsheets: data rows (all sheets) and the first sheet's header. */
+  rows?: number;
+  columns?: string[];
+  /** PDFs: pages with extracted text. */
+  pages?: number;
+  /** The parsed text was cut to the storage limit. */
+  truncated?: boolean;
+};
+
+/** One value a write tool is about to send, as shown (and editable) in the approval card. */
+export type ToolApprovalField = {
+  /** Dotted path in the tool's payload, e.g. "contact.email". */
+  path: string;
+  label: string;
+  value: string;
+  /** Card section (e.g. "Contact"); top-level fields have none. */
+  section?: string;
+  /** Arrays / nested lists are shown but not editable. */
+  editable: boolean;
+  /** What the target system holds now (preview lookup); absent when unknown. */
+  previous?: string;
+  /** Against the looked-up current record: a new value, a change, or no change. */
+  change?: "new" | "changed" | "same";
+};
+
+export type ToolApprovalStatus = "pending" | "approved" | "rejected" | "failed" | "expired";
+
+/** A write tool call held for the user's decision (server: lib/tools/approvals.ts). */
+export type ToolApproval = {
+  id: string;
+  toolName: string;
+  label: string;
+  status: ToolApprovalStatus;
+  fields: ToolApprovalField[];
+  /**
+   * Preview lookup result for tools that have one: "found" (fields carry previous values),
+   * "none" (no existing record: everything is new) or "unavailable" (lookup failed).
+   */
+  currentRecord?: "found" | "none" | "unavailable";
+  createdAt: number;
+  decidedAt?: number;
+  /** What happened after the decision (tool summary, or why it failed). */
+  outcome?: string;
+};
+
+/** One LinkedIn profile in a batch email lookup (lib/tools/batchEnrichment.ts). */
+export type EnrichmentRow = {
+  linkedinUrl: string;
+  status: "queued" | "running" | "found" | "not_found" | "error" | "skipped";
+  name?: string;
+  title?: string;
+  company?: string;
+  email?: string;
+  /** As reported by the email finder (e.g. "verified", "guessed"). */
+  emailStatus?: string;
+  /** Reused a recent result instead of calling the tool. */
+  cached?: boolean;
+  /** Why the row failed or was skipped. */
+  note?: string;
+};
+
+export type BatchEnrichment = {
+  status: "running" | "done" | "cancelled";
+  rows: EnrichmentRow[];
+  /** name,title,email,email_status,linkedin_url — set once the batch is done. */
+  csv?: string;
+};
+
+/** Artifact payload returned by /api/chat (a new document, or a single version to append). */
+export type ArtifactEnvelope = {
+  id: string;
+  title?: string;
+  type?: string;
+  createdAt?: number;
+  updatedAt?: number;
+  versions?: Array<{ content: string; createdAt: number }>;
+};
+
+/** What the server cut to fit a request into the model's context window. */
+export type ContextTrimReport = {
+  trimmed: boolean;
+  budgetTokens: number;
+  usedTokens: number;
+  /** Oldest history turns dropped. */
+  droppedTurns: number;
+  /** Tokens cut from the end of the document context. */
+  documentTrimmedTokens: number;
+  /** Tool results (this turn) that were shortened. */
+  toolResultsTrimmed: number;
+  /** Tokens cut from the end of the attached files block. */
+  attachmentsTrimmedTokens?: number;
+};
+
+/** What /api/chat returns to the client (JSON body `{ result }`, or the SSE `done` event). */
+export type ChatApiResult = {
+  output: string | null;
+  card?: KingaCard;
+  artifact?: ArtifactEnvelope;
+  suggestedTitle?: string;
+  rawEnvelopes?: unknown[];
+  /** Present when history/document/tool results were trimmed to fit the model. */
+  contextReport?: ContextTrimReport;
+  /** Set when a quota stopped the turn; the JSON variant answers with HTTP 429. */
+  rateLimited?: boolean;
+  /** Set when the user stopped the turn (request aborted). */
+  cancelled?: boolean;
+  /** A write tool call the user must approve before it runs (POST /api/tools/approval). */
+  approval?: ToolApproval;
+  /** Set when the turn was a batch email lookup (several LinkedIn URLs or a CSV). */
+  enrichment?: BatchEnrichment;
+};
+
+/**
+ * Typed events streamed by /api/chat when the client asks for `text/event-stream`.
+ * Each SSE frame is `event: <type>` + `data: <JSON of the event>`.
+ */
+export type ChatStreamEvent =
+  | { type: 'delta'; text: string }
+  | { type: 'tool_start'; toolName: string; toolCallId: string }
+  // MCP notifications/progress or a log line while the tool runs
+  | { type: 'tool_progress'; toolName: string; toolCallId: string; message?: string; progress?: number; total?: number; level?: string }
+  | { type: 'tool_finish'; toolName: string; toolCallId: string; ok: boolean; durationMs: number; summary?: string }
+  | { type: 'card'; card: KingaCard }
+  // Batch email lookup: every row queued, then one event per row update
+  | { type: 'enrichment_start'; rows: EnrichmentRow[] }
+  | { type: 'enrichment_row'; index: number; row: EnrichmentRow }
+  | { type: 'artifact'; artifact: ArtifactEnvelope }
+  | { type: 'title'; title: string }
+  | { type: 'done'; result: ChatApiResult }
+  | { type: 'error'; message: string };
+
 export type ModelProvider = 'OpenAI' | 'Google' | 'Anthropic';
 
 export type ModelConfig = {
@@ -45,10 +195,19 @@ export type ModelConfig = {
   };
 };
 
+/** Rolling summary of the turns that fell out of the history window. */
+export type ChatSummary = {
+  text: string;
+  /** How many user/assistant messages (oldest first) are folded into `text`. */
+  coveredCount: number;
+  updatedAt: number;
+};
+
 export type Chat = {
   id: string;
   title: string;
   messages: Message[];
+  summary?: ChatSummary;
   artifacts: Artifact[];
   modelConfig: ModelConfig; // Store which model was used for this chat
   createdAt: number;
@@ -86,26 +245,52 @@ export type DriveFile = {
  */
 type ToolArgs = Record<string, unknown>;
 
+/** Set on a tool call whose arguments failed the tool's JSON schema (sendMessage). */
+type ToolCallArgErrors = { argErrors?: string[] };
+
+/** One tool call as the model issued it (arguments parsed and schema-checked). */
+export type ToolCallRequest = {
+  toolName: string;
+  toolArgs: ToolArgs;
+  toolCallId?: string;
+} & ToolCallArgErrors;
+
+type ToolCallExtras = ToolCallArgErrors & {
+  /** Further calls from the same model response (parallel tool calls), in order. */
+  parallelCalls?: ToolCallRequest[];
+};
+
 export type LLMResult = 
   | { type: 'text'; content: string | null }
-  | { 
+  | ({ 
       type: 'tool_call'; 
       toolName: 'create_document'; 
-      toolArgs: { title: string; content: string } 
-    }
-  | { 
+      toolArgs: { title: string; content: string };
+      toolCallId?: string;
+    } & ToolCallExtras)
+  | ({ 
     type: 'tool_call'; 
     toolName: 'update_document'; 
-    toolArgs: { content: string } 
-  }
+    toolArgs: { content: string };
+    toolCallId?: string;
+  } & ToolCallExtras)
   | 
-  { 
+  ({ 
     type: 'tool_call';
     toolName: string; 
-    toolArgs: ToolArgs 
+    toolArgs: ToolArgs;
+    toolCallId?: string;
 
-  }; // For dynamic n8n tools
+  } & ToolCallExtras); // For dynamic n8n tools
 
-
-
-  
\ No newline at end of file
+/**
+ * One completed tool step inside a single chat turn (agent loop).
+ * Replayed to the model as an assistant tool call + a tool-result message.
+ */
+export type ToolTurn = {
+  toolCallId: string;
+  toolName: string;
+  toolArgs: ToolArgs;
+  /** What the model sees as the tool result (usually a JSON envelope string). */
+  result: string;
+};